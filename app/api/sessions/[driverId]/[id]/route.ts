@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { deleteStoredSession, getStoredSession, isAuthorized, sessionKeySchema } from "@/lib/session-api"
+
+export const runtime = "nodejs"
+
+interface RouteContext {
+  params: Promise<{ driverId: string; id: string }>
+}
+
+// Unsafe IDs are answered like missing sessions; they could never have been stored
+async function parseKey({ params }: RouteContext) {
+  const key = sessionKeySchema.safeParse(await params)
+  return key.success ? key.data : null
+}
+
+// GET /api/sessions/:driverId/:id returns the full session with its histories
+export async function GET(request: NextRequest, context: RouteContext) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+
+  const key = await parseKey(context)
+  try {
+    const stored = key && (await getStoredSession(key.driverId, key.id))
+    if (!stored) return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    return NextResponse.json(stored)
+  } catch (err) {
+    console.error("[v0] Failed to read stored session:", err)
+    return NextResponse.json({ error: "Failed to read session" }, { status: 500 })
+  }
+}
+
+// DELETE /api/sessions/:driverId/:id
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+
+  const key = await parseKey(context)
+  try {
+    const deleted = key && (await deleteStoredSession(key.driverId, key.id))
+    if (!deleted) return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    console.error("[v0] Failed to delete stored session:", err)
+    return NextResponse.json({ error: "Failed to delete session" }, { status: 500 })
+  }
+}
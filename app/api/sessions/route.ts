@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from "next/server"
+import {
+  describeIssues,
+  isAuthorized,
+  listStoredSessions,
+  saveStoredSession,
+  sessionQuerySchema,
+  sessionUploadSchema,
+} from "@/lib/session-api"
+
+export const runtime = "nodejs"
+
+// GET /api/sessions?driverId=&from=&to=&offset=&limit= lists session summaries, newest first
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+
+  const query = sessionQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!query.success) {
+    return NextResponse.json({ error: "Invalid query", issues: describeIssues(query.error) }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await listStoredSessions(query.data))
+  } catch (err) {
+    console.error("[v0] Failed to list stored sessions:", err)
+    return NextResponse.json({ error: "Failed to list sessions" }, { status: 500 })
+  }
+}
+
+// POST /api/sessions with { driverId, session } uploads a finished session
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 })
+  }
+
+  const upload = sessionUploadSchema.safeParse(body)
+  if (!upload.success) {
+    return NextResponse.json({ error: "Invalid session upload", issues: describeIssues(upload.error) }, { status: 400 })
+  }
+
+  try {
+    const { summary, created } = await saveStoredSession(upload.data)
+    return NextResponse.json(summary, { status: created ? 201 : 200 })
+  } catch (err) {
+    console.error("[v0] Failed to store session:", err)
+    return NextResponse.json({ error: "Failed to store session" }, { status: 500 })
+  }
+}
@@ -1,12 +1,47 @@
 "use client"
 
-import { useState, useRef, useEffect, useCallback } from "react"
+import { useState, useRef, useEffect, useCallback, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { CalibrationWizard } from "@/components/calibration-wizard"
+import { EscalationPolicyEditor } from "@/components/escalation-policy-editor"
+import { AlertChannelsEditor, CHANNEL_ICONS } from "@/components/alert-channels-editor"
+import { WebhookSettings } from "@/components/webhook-settings"
+import { createOverlayRenderer, type OverlayFace, type OverlayRenderer } from "@/lib/overlay"
+import {
+  createFaceTracker,
+  findFaceAt,
+  SEAT_REGION_PRESETS,
+  selectDriver,
+  updateFaceTracks,
+  type DriverSelection,
+  type DriverSelectionRule,
+  type TrackedFace,
+} from "@/lib/tracking"
+import {
+  createFaceInference,
+  DETECTOR_BACKENDS,
+  getDetectorLabel,
+  type DetectorBackend,
+  type FaceInference,
+  type InferenceMode,
+} from "@/lib/inference"
+import {
+  createFrameStats,
+  recordCompletedFrame,
+  recordDroppedFrame,
+  startFrameLoop,
+  summarizeFrameStats,
+  type FrameLoop,
+  type FrameStatsSummary,
+} from "@/lib/scheduler"
+import { loadPreference, savePreference } from "@/lib/storage"
+import { checkOfflineReady, registerServiceWorker, supportsServiceWorker } from "@/lib/offline"
+import { holdWakeLock, showNotification, supportsWakeLock, watchPageVisibility, type VisibilityGap } from "@/lib/pwa"
 import {
   Camera,
   CameraOff,
@@ -14,83 +49,173 @@ import {
   Eye,
   Activity,
   Bell,
-  Volume2,
-  Smartphone,
   BarChart3,
   TrendingUp,
   Download,
   Clock,
   Calendar,
   Target,
+  Trash2,
+  Circle,
+  Play,
+  Upload,
+  Film,
+  EyeOff,
+  Timer,
 } from "lucide-react"
-
-interface FaceLandmarks {
-  leftEye: { x: number; y: number }[]
-  rightEye: { x: number; y: number }[]
-  nose: { x: number; y: number }[]
-  mouth: { x: number; y: number }[]
-}
-
-interface DetectionResult {
-  box: { x: number; y: number; width: number; height: number }
-  landmarks: FaceLandmarks
-  confidence: number
-}
-
-interface DrowsinessConfig {
-  earThreshold: number
-  consecutiveFrames: number
-  blinkThreshold: number
-  yawnThreshold: number
-  alertCooldown: number
-}
-
-interface DetectionHistory {
-  earValues: number[]
-  blinkStates: boolean[]
-  timestamps: number[]
-  maxHistoryLength: number
-  eyeClosureStartTime: number | null
-  lastEyeClosureDuration: number
-}
-
-interface AlertConfig {
-  audioEnabled: boolean
-  visualEnabled: boolean
-  browserNotifications: boolean
-  vibrationEnabled: boolean
-  volume: number
-  alertSound: string
-}
+import {
+  analyzeFrame,
+  createDrowsinessState,
+  closeFaceLoss,
+  DEFAULT_DROWSINESS_CONFIG,
+  FACE_LOSS_LABELS,
+  markDetectionGap,
+  measureFaceEAR,
+  recordCalibrationSample,
+  updateFacePresence,
+  type AlertLevel,
+  type CalibrationSession,
+  type DrowsinessConfig,
+  type DrowsinessState,
+  type FaceLossReason,
+  type FaceLostEvent,
+  type FacePresenceStatus,
+  type HeadNodEvent,
+  type HeadPose,
+  type LandmarkFrame,
+  type YawnEvent,
+} from "@/lib/drowsiness"
+import {
+  appendHistoryPoint,
+  createSession,
+  deleteSession,
+  listSessions,
+  recordSessionFaceLoss,
+  saveSession,
+  type SessionData,
+  type SessionEvent,
+  type SessionSource,
+} from "@/lib/sessions"
+import {
+  acknowledgePolicyAlert,
+  buildPolicyMetrics,
+  createChallenge,
+  createPolicyState,
+  DEFAULT_ESCALATION_POLICY,
+  describeAcknowledgement,
+  evaluatePolicy,
+  loadEscalationPolicy,
+  nextAlertLevel,
+  recordChallengeBlink,
+  requiresAcknowledgement,
+  resolveChallenge,
+  saveEscalationPolicy,
+  SLOW_REACTION_MS,
+  summarizeAcknowledgements,
+  type AcknowledgementChallenge,
+  type AcknowledgementEvent,
+  type AcknowledgementMethod,
+  type EscalationPolicy,
+} from "@/lib/escalation"
+import {
+  DEFAULT_ALERT_CHANNELS,
+  deleteSound,
+  dispatchAlert,
+  getAlertChannel,
+  listSounds,
+  loadAlertChannels,
+  saveAlertChannels,
+  saveSoundFile,
+  stopAlertChannels,
+  type AlertChannelConfig,
+  type AlertChannelContext,
+  type CustomSound,
+} from "@/lib/alerts"
+import {
+  clearDeliveryLog,
+  createWebhookDispatcher,
+  createWebhookEvent,
+  listDeliveryLog,
+  loadWebhookEndpoints,
+  saveWebhookEndpoints,
+  type DeliveryLogEntry,
+  type WebhookDispatcher,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from "@/lib/webhooks"
+import { analyzeVideo, resolveVideoDuration } from "@/lib/video"
+import {
+  assessEyewear,
+  assessImageQuality,
+  checkObstruction,
+  createEyewearSampler,
+  createFrameSampler,
+  createQualitySampler,
+  DEFAULT_CAMERA_SETTINGS,
+  describeCameraError,
+  EYEWEAR_LABELS,
+  FRAME_RATE_OPTIONS,
+  listVideoDevices,
+  loadCameraSettings,
+  loadDeviceSettings,
+  openCameraStream,
+  QUALITY_GUIDANCE,
+  RESOLUTION_OPTIONS,
+  saveCameraSettings,
+  type CameraSettings,
+  type EyewearAssessment,
+  type EyewearSampler,
+  type FrameSampler,
+  type ImageQuality,
+  type ObstructionKind,
+  type QualitySampler,
+  type VideoDevice,
+} from "@/lib/camera"
+import {
+  appendFrame,
+  createRecording,
+  downloadRecording,
+  getRecordingDuration,
+  parseRecording,
+  startReplay,
+  type Recording,
+  type ReplayController,
+} from "@/lib/recording"
+import {
+  deleteProfile,
+  getActiveProfile,
+  getActiveProfileId,
+  listProfiles,
+  saveProfile,
+  setActiveProfileId,
+  type CalibrationProfile,
+} from "@/lib/profiles"
 
 interface AlertState {
   isActive: boolean
-  level: "low" | "medium" | "high" | "critical"
+  visible: boolean // shown by the on-screen channel
+  level: AlertLevel
   message: string
   timestamp: number
 }
 
-interface SessionData {
-  id: string
-  startTime: number
-  endTime?: number
-  duration: number
-  totalBlinks: number
-  totalAlerts: number
-  avgEAR: number
-  maxDrowsinessScore: number
-  alertsByLevel: Record<string, number>
-  earHistory: Array<{ timestamp: number; value: number }>
-  drowsinessHistory: Array<{ timestamp: number; value: number }>
-}
-
 interface AnalyticsData {
   currentSession: SessionData | null
   sessions: SessionData[]
-  realTimeData: Array<{ timestamp: number; ear: number; drowsiness: number; blinks: number }>
+  totalSessions: number
+  hasMoreSessions: boolean
+  realTimeData: Array<{ timestamp: number; ear: number; drowsiness: number; blinks: number; perclos: number }>
   maxDataPoints: number
 }
 
+const SESSION_PAGE_SIZE = 10
+
+// Analysis rates offered in settings; the loop never runs faster than the display either way
+const ANALYSIS_FPS_OPTIONS = [5, 10, 15, 20, 30]
+const DEFAULT_ANALYSIS_FPS = 15
+// Measured rates below this share of the target are flagged as the device falling behind
+const SLOW_FPS_RATIO = 0.6
+
 interface Stats {
   eyeAspectRatio: number
   blinkCount: number
@@ -101,34 +226,76 @@ interface Stats {
   drowsinessScore: number
   eyeClosureDuration: number
   currentEAR: number
+  leftEAR: number
+  rightEAR: number
+  eyeAsymmetry: boolean
+  perclos: number
+  yawnCount: number
+  recentYawnCount: number
+  headPose: HeadPose | null
+  nodCount: number
+  recentNodCount: number
+  faceCount: number
+  driverId: number | null
+  faceStatus: FacePresenceStatus
+  faceLossReason: FaceLossReason | null
+  faceLostDuration: number
+  imageQuality: ImageQuality | null
+  eyeSignalsTrusted: boolean
+  eyewear: EyewearAssessment | null
+  eyewearActive: boolean
+}
+
+// Faces seen in the latest frame and which of them is being analysed
+interface FrameTracking {
+  faces: TrackedFace[]
+  driverId: number | null
+  quality: ImageQuality | null
+  eyewear: EyewearAssessment | null
 }
 
 export default function DrowsinessDetectionPage() {
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const animationRef = useRef<number>()
-  const modelRef = useRef<any>(null)
-  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const frameLoopRef = useRef<FrameLoop | null>(null)
+  const frameStatsRef = useRef(createFrameStats())
+  const faceTrackerRef = useRef(createFaceTracker())
+  const visibleFacesRef = useRef<TrackedFace[]>([])
+  const frameSamplerRef = useRef<FrameSampler | null>(null)
+  const qualitySamplerRef = useRef<QualitySampler | null>(null)
+  const eyewearSamplerRef = useRef<EyewearSampler | null>(null)
+  const driverIdRef = useRef<number | null>(null)
+  const modelRef = useRef<FaceInference | null>(null)
+  const overlayRef = useRef<OverlayRenderer | null>(null)
   const alertTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
-  const detectionHistoryRef = useRef<DetectionHistory>({
-    earValues: [],
-    blinkStates: [],
-    timestamps: [],
-    maxHistoryLength: 100,
-    eyeClosureStartTime: null,
-    lastEyeClosureDuration: 0,
-  })
+  const drowsinessStateRef = useRef<DrowsinessState>(createDrowsinessState())
+  const policyStateRef = useRef(createPolicyState())
+  const challengeRef = useRef<AcknowledgementChallenge | null>(null)
+  const calibrationRef = useRef<CalibrationSession | null>(null)
+  const recordingRef = useRef<Recording | null>(null)
+  const replayRef = useRef<ReplayController | null>(null)
 
-  const lastBlinkRef = useRef<number>(0)
-  const lastAlertRef = useRef<number>(0)
-  const consecutiveDrowsyFramesRef = useRef<number>(0)
 
   const [isStreaming, setIsStreaming] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [detectionStatus, setDetectionStatus] = useState<"idle" | "active" | "drowsy">("idle")
+  const [detectionStatus, setDetectionStatus] = useState<"idle" | "active" | "drowsy" | "no-face">("idle")
   const [isModelLoading, setIsModelLoading] = useState(false)
   const [modelLoaded, setModelLoaded] = useState(false)
+  const [inferenceMode, setInferenceMode] = useState<InferenceMode | null>(null)
+  const [detectorBackend, setDetectorBackend] = useState<DetectorBackend>("tfjs")
+  const [activeBackend, setActiveBackend] = useState<DetectorBackend | null>(null)
+  const [offlineReady, setOfflineReady] = useState(false)
+  const [driverSelection, setDriverSelection] = useState<DriverSelection>({
+    rule: "largest",
+    seatRegion: SEAT_REGION_PRESETS[0].region,
+    lockedId: null,
+  })
+  const driverSelectionRef = useRef(driverSelection)
+  const [wakeLockHeld, setWakeLockHeld] = useState(false)
+  const [lastBackgroundGap, setLastBackgroundGap] = useState<VisibilityGap | null>(null)
+  const [analysisFps, setAnalysisFps] = useState(DEFAULT_ANALYSIS_FPS)
+  const [performanceStats, setPerformanceStats] = useState<FrameStatsSummary | null>(null)
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>("default")
 
   const [stats, setStats] = useState<Stats>({
@@ -141,27 +308,52 @@ export default function DrowsinessDetectionPage() {
     drowsinessScore: 0,
     eyeClosureDuration: 0,
     currentEAR: 0,
+    leftEAR: 0,
+    rightEAR: 0,
+    eyeAsymmetry: false,
+    perclos: 0,
+    yawnCount: 0,
+    recentYawnCount: 0,
+    headPose: null,
+    nodCount: 0,
+    recentNodCount: 0,
+    faceCount: 0,
+    driverId: null,
+    faceStatus: "present",
+    faceLossReason: null,
+    faceLostDuration: 0,
+    imageQuality: null,
+    eyeSignalsTrusted: true,
+    eyewear: null,
+    eyewearActive: false,
   })
 
-  const [config, setConfig] = useState<DrowsinessConfig>({
-    earThreshold: 0.25,
-    consecutiveFrames: 10, // frames below threshold to trigger alert
-    blinkThreshold: 0.2, // EAR threshold for blink detection
-    yawnThreshold: 0.6, // mouth aspect ratio for yawn detection
-    alertCooldown: 3000, // milliseconds between alerts
-  })
+  const [config, setConfig] = useState<DrowsinessConfig>(DEFAULT_DROWSINESS_CONFIG)
 
-  const [alertConfig, setAlertConfig] = useState<AlertConfig>({
-    audioEnabled: true,
-    visualEnabled: true,
-    browserNotifications: true,
-    vibrationEnabled: true,
-    volume: 0.8,
-    alertSound: "alarm",
-  })
+  const [alertChannels, setAlertChannels] = useState<AlertChannelConfig[]>(DEFAULT_ALERT_CHANNELS)
+  const [customSounds, setCustomSounds] = useState<CustomSound[]>([])
+
+  const notificationsEnabled = alertChannels.some((channel) => channel.kind === "notification" && channel.enabled)
+  // Channels actually able to reach the driver right now, for the status bar
+  const activeChannels = alertChannels.filter(
+    (channel) =>
+      channel.enabled &&
+      getAlertChannel(channel.kind)?.isSupported() &&
+      (channel.kind !== "notification" || notificationPermission === "granted"),
+  )
+
+  const [webhookEndpoints, setWebhookEndpoints] = useState<WebhookEndpoint[]>([])
+  const [deliveryLog, setDeliveryLog] = useState<DeliveryLogEntry[]>([])
+  const [webhookQueueSize, setWebhookQueueSize] = useState(0)
+  // The dispatcher outlives renders, so it reads endpoints through a ref
+  const webhookEndpointsRef = useRef<WebhookEndpoint[]>([])
+  const dispatcherRef = useRef<WebhookDispatcher | null>(null)
+  // Only live camera sessions are forwarded; replays and video analysis aren't a driver in trouble
+  const webhookSessionRef = useRef<{ id: string; live: boolean } | null>(null)
 
   const [alertState, setAlertState] = useState<AlertState>({
     isActive: false,
+    visible: false,
     level: "low",
     message: "",
     timestamp: 0,
@@ -170,64 +362,222 @@ export default function DrowsinessDetectionPage() {
   const [analytics, setAnalytics] = useState<AnalyticsData>({
     currentSession: null,
     sessions: [],
+    totalSessions: 0,
+    hasMoreSessions: false,
     realTimeData: [],
     maxDataPoints: 300, // 5 minutes at 1 data point per second
   })
 
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([])
+  const [activeProfileId, setActiveProfileIdState] = useState<string | null>(null)
+
   const [activeTab, setActiveTab] = useState("detection")
-  const [lastAlertTime, setLastAlertTime] = useState(0)
-
-  const startSession = useCallback(() => {
-    const sessionId = `session_${Date.now()}`
-    const newSession: SessionData = {
-      id: sessionId,
-      startTime: Date.now(),
-      duration: 0,
-      totalBlinks: 0,
-      totalAlerts: 0,
-      avgEAR: 0,
-      maxDrowsinessScore: 0,
-      alertsByLevel: { low: 0, medium: 0, high: 0, critical: 0 },
-      earHistory: [],
-      drowsinessHistory: [],
+  const [escalationPolicy, setEscalationPolicy] = useState<EscalationPolicy>(DEFAULT_ESCALATION_POLICY)
+  const [challenge, setChallenge] = useState<AcknowledgementChallenge | null>(null)
+
+  const [isRecording, setIsRecording] = useState(false)
+  const [isReplaying, setIsReplaying] = useState(false)
+  const [loadedRecording, setLoadedRecording] = useState<Recording | null>(null)
+  const [replaySpeed, setReplaySpeed] = useState(1)
+
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(DEFAULT_CAMERA_SETTINGS)
+  const [videoDevices, setVideoDevices] = useState<VideoDevice[]>([])
+  const [isSwitchingCamera, setIsSwitchingCamera] = useState(false)
+
+  const videoAnalysisAbortRef = useRef<AbortController | null>(null)
+  const [isAnalyzingVideo, setIsAnalyzingVideo] = useState(false)
+  const [videoAnalysisProgress, setVideoAnalysisProgress] = useState(0)
+  const [videoAnalysisFps, setVideoAnalysisFps] = useState(10)
+  const [videoAnalysisResult, setVideoAnalysisResult] = useState<SessionData | null>(null)
+
+  const emitWebhook = useCallback(
+    (type: WebhookEventType, data: Record<string, unknown>, timestamp = Date.now()) => {
+      const session = webhookSessionRef.current
+      if (!session?.live) return
+      dispatcherRef.current?.emit(createWebhookEvent(type, session.id, data, timestamp))
+    },
+    [],
+  )
+
+  const startSession = useCallback(
+    (source: SessionSource = { kind: "camera" }) => {
+      const newSession = createSession(Date.now(), source)
+
+      setAnalytics((prev) => ({
+        ...prev,
+        currentSession: newSession,
+      }))
+
+      webhookSessionRef.current = { id: newSession.id, live: source.kind === "camera" }
+      emitWebhook("session.started", { source: source.kind }, newSession.startTime)
+    },
+    [emitWebhook],
+  )
+
+  const endSession = useCallback(() => {
+    const currentSession = analytics.currentSession
+    if (!currentSession) return
+
+    const endTime = Date.now()
+    const endedSession: SessionData = {
+      ...currentSession,
+      endTime,
+      duration: endTime - currentSession.startTime,
+      faceLostEvents: [...currentSession.faceLostEvents],
+      events: [...currentSession.events],
+      totalBlinks: stats.blinkCount,
+      totalAlerts: stats.alertCount,
+      avgEAR: stats.avgEAR,
+      maxDrowsinessScore: Math.max(currentSession.maxDrowsinessScore, stats.drowsinessScore),
     }
 
+    // A face still missing when monitoring stops never came back, so its gap is closed here
+    const openLoss = closeFaceLoss(drowsinessStateRef.current, config, endTime)
+    if (openLoss) {
+      recordSessionFaceLoss(endedSession, openLoss)
+      emitWebhook("face.lost", { ...openLoss }, openLoss.timestamp)
+    }
+
+    emitWebhook(
+      "session.ended",
+      {
+        duration: endedSession.duration,
+        totalBlinks: endedSession.totalBlinks,
+        totalAlerts: endedSession.totalAlerts,
+        alertsByLevel: endedSession.alertsByLevel,
+        maxDrowsinessScore: endedSession.maxDrowsinessScore,
+        faceLostEvents: endedSession.faceLostEvents.length,
+      },
+      endTime,
+    )
+    webhookSessionRef.current = null
+
     setAnalytics((prev) => ({
       ...prev,
-      currentSession: newSession,
+      currentSession: null,
+      sessions: [endedSession, ...prev.sessions],
+      totalSessions: prev.totalSessions + 1,
     }))
+
+    saveSession(endedSession).catch((err) => {
+      console.error("[v0] Failed to persist session:", err)
+    })
+  }, [stats, analytics.currentSession, config, emitWebhook])
+
+  const loadSessions = useCallback(async (offset = 0) => {
+    try {
+      const page = await listSessions(offset, SESSION_PAGE_SIZE)
+      setAnalytics((prev) => ({
+        ...prev,
+        sessions: offset === 0 ? page.sessions : [...prev.sessions, ...page.sessions],
+        totalSessions: page.total,
+        hasMoreSessions: page.hasMore,
+      }))
+    } catch (err) {
+      console.error("[v0] Failed to load session history:", err)
+    }
   }, [])
 
-  const endSession = useCallback(() => {
-    setAnalytics((prev) => {
-      if (!prev.currentSession) return prev
+  const removeSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id)
+      setAnalytics((prev) => ({
+        ...prev,
+        sessions: prev.sessions.filter((session) => session.id !== id),
+        totalSessions: Math.max(0, prev.totalSessions - 1),
+      }))
+    } catch (err) {
+      console.error("[v0] Failed to delete session:", err)
+    }
+  }, [])
 
-      const endedSession: SessionData = {
-        ...prev.currentSession,
-        endTime: Date.now(),
-        duration: Date.now() - prev.currentSession.startTime,
-        totalBlinks: stats.blinkCount,
-        totalAlerts: stats.alertCount,
-        avgEAR: stats.avgEAR,
-        maxDrowsinessScore: Math.max(prev.currentSession.maxDrowsinessScore, stats.drowsinessScore),
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const applyProfile = useCallback((profile: CalibrationProfile | null) => {
+    setConfig((prev) => ({
+      ...prev,
+      earThreshold: profile?.earThreshold ?? DEFAULT_DROWSINESS_CONFIG.earThreshold,
+      blinkThreshold: profile?.blinkThreshold ?? DEFAULT_DROWSINESS_CONFIG.blinkThreshold,
+      baselineOpenEAR: profile?.openEAR ?? DEFAULT_DROWSINESS_CONFIG.baselineOpenEAR,
+      baselineClosedEAR: profile?.closedEAR ?? DEFAULT_DROWSINESS_CONFIG.baselineClosedEAR,
+      eyewearMode: profile?.wearsGlasses ?? DEFAULT_DROWSINESS_CONFIG.eyewearMode,
+    }))
+  }, [])
+
+  useEffect(() => {
+    setActiveProfileIdState(getActiveProfileId())
+    listProfiles()
+      .then(setProfiles)
+      .catch((err) => console.error("[v0] Failed to load calibration profiles:", err))
+  }, [])
+
+  const handleSaveProfile = useCallback(
+    async (profile: CalibrationProfile) => {
+      try {
+        await saveProfile(profile)
+        setProfiles((prev) => [...prev, profile])
+        setActiveProfileId(profile.id)
+        setActiveProfileIdState(profile.id)
+        applyProfile(profile)
+      } catch (err) {
+        console.error("[v0] Failed to save calibration profile:", err)
+        setError("Failed to save calibration profile.")
       }
+    },
+    [applyProfile],
+  )
 
-      return {
-        ...prev,
-        currentSession: null,
-        sessions: [endedSession, ...prev.sessions.slice(0, 49)], // Keep last 50 sessions
+  const handleUpdateProfile = useCallback(
+    async (profile: CalibrationProfile) => {
+      try {
+        await saveProfile(profile)
+        setProfiles((prev) => prev.map((existing) => (existing.id === profile.id ? profile : existing)))
+        if (profile.id === activeProfileId) {
+          applyProfile(profile)
+        }
+      } catch (err) {
+        console.error("[v0] Failed to update calibration profile:", err)
+        setError("Failed to update calibration profile.")
       }
-    })
-  }, [stats])
+    },
+    [activeProfileId, applyProfile],
+  )
+
+  const handleSelectProfile = useCallback(
+    (id: string | null) => {
+      setActiveProfileId(id)
+      setActiveProfileIdState(id)
+      applyProfile(profiles.find((profile) => profile.id === id) ?? null)
+    },
+    [profiles, applyProfile],
+  )
+
+  const handleDeleteProfile = useCallback(
+    async (id: string) => {
+      try {
+        await deleteProfile(id)
+        setProfiles((prev) => prev.filter((profile) => profile.id !== id))
+        if (activeProfileId === id) {
+          setActiveProfileIdState(null)
+          applyProfile(null)
+        }
+      } catch (err) {
+        console.error("[v0] Failed to delete calibration profile:", err)
+      }
+    },
+    [activeProfileId, applyProfile],
+  )
 
   const updateAnalytics = useCallback(
-    (earValue: number, drowsinessScore: number, alertLevel?: string) => {
+    (earValue: number, drowsinessScore: number, perclos: number) => {
       const timestamp = Date.now()
 
       setAnalytics((prev) => {
         const newRealTimeData = [
           ...prev.realTimeData,
-          { timestamp, ear: earValue, drowsiness: drowsinessScore, blinks: stats.blinkRate },
+          { timestamp, ear: earValue, drowsiness: drowsinessScore, blinks: stats.blinkRate, perclos },
         ].slice(-prev.maxDataPoints)
 
         let updatedSession = prev.currentSession
@@ -236,14 +586,10 @@ export default function DrowsinessDetectionPage() {
             ...updatedSession,
             duration: timestamp - updatedSession.startTime,
             maxDrowsinessScore: Math.max(updatedSession.maxDrowsinessScore, drowsinessScore),
-            earHistory: [...updatedSession.earHistory, { timestamp, value: earValue }].slice(-1000),
-            drowsinessHistory: [...updatedSession.drowsinessHistory, { timestamp, value: drowsinessScore }].slice(
-              -1000,
-            ),
-          }
-
-          if (alertLevel) {
-            updatedSession.alertsByLevel[alertLevel] = (updatedSession.alertsByLevel[alertLevel] || 0) + 1
+            earHistory: appendHistoryPoint(updatedSession.earHistory, timestamp, earValue),
+            drowsinessHistory: appendHistoryPoint(updatedSession.drowsinessHistory, timestamp, drowsinessScore),
+            maxPerclos: Math.max(updatedSession.maxPerclos, perclos),
+            perclosHistory: appendHistoryPoint(updatedSession.perclosHistory, timestamp, perclos),
           }
         }
 
@@ -257,9 +603,87 @@ export default function DrowsinessDetectionPage() {
     [stats.blinkRate],
   )
 
-  const exportSessionData = useCallback(() => {
+  const recordSessionEvent = useCallback((event: SessionEvent, update?: (session: SessionData) => SessionData) => {
+    setAnalytics((prev) => {
+      if (!prev.currentSession) return prev
+      const session = update ? update(prev.currentSession) : prev.currentSession
+      return {
+        ...prev,
+        currentSession: { ...session, events: [...session.events, event] },
+      }
+    })
+  }, [])
+
+  const recordAlert = useCallback(
+    (timestamp: number, level: AlertLevel, message: string) => {
+      recordSessionEvent({ timestamp, type: "alert", level, message }, (session) => ({
+        ...session,
+        alertsByLevel: { ...session.alertsByLevel, [level]: (session.alertsByLevel[level] || 0) + 1 },
+      }))
+      emitWebhook("alert.raised", { level, message }, timestamp)
+    },
+    [recordSessionEvent, emitWebhook],
+  )
+
+  const recordAcknowledgement = useCallback(
+    (event: AcknowledgementEvent) => {
+      const message = describeAcknowledgement(event)
+      recordSessionEvent(
+        {
+          timestamp: event.timestamp,
+          type: "acknowledgement",
+          level: event.level,
+          message,
+          duration: event.reactionTime ?? undefined,
+        },
+        (session) => ({ ...session, acknowledgements: [...session.acknowledgements, event] }),
+      )
+      emitWebhook("alert.acknowledged", { ...event, message }, event.timestamp)
+    },
+    [recordSessionEvent, emitWebhook],
+  )
+
+  const recordYawn = useCallback(
+    (yawn: YawnEvent) => {
+      recordSessionEvent({ timestamp: yawn.timestamp, type: "yawn", duration: yawn.duration }, (session) => ({
+        ...session,
+        yawnEvents: [...session.yawnEvents, yawn],
+      }))
+    },
+    [recordSessionEvent],
+  )
+
+  const recordFaceLoss = useCallback(
+    (loss: FaceLostEvent) => {
+      recordSessionEvent(
+        { timestamp: loss.timestamp, type: "gap", duration: loss.duration, message: FACE_LOSS_LABELS[loss.reason] },
+        (session) => ({ ...session, faceLostEvents: [...session.faceLostEvents, loss] }),
+      )
+      emitWebhook("face.lost", { ...loss }, loss.timestamp)
+    },
+    [recordSessionEvent, emitWebhook],
+  )
+
+  const recordNod = useCallback(
+    (nod: HeadNodEvent) => {
+      recordSessionEvent({ timestamp: nod.timestamp, type: "nod", duration: nod.duration }, (session) => ({
+        ...session,
+        nodEvents: [...session.nodEvents, nod],
+      }))
+    },
+    [recordSessionEvent],
+  )
+
+  const exportSessionData = useCallback(async () => {
+    let sessions = analytics.sessions
+    try {
+      sessions = (await listSessions(0, Number.POSITIVE_INFINITY)).sessions
+    } catch (err) {
+      console.error("[v0] Failed to read stored sessions for export:", err)
+    }
+
     const dataToExport = {
-      sessions: analytics.sessions,
+      sessions,
       currentSession: analytics.currentSession,
       exportTime: new Date().toISOString(),
       systemConfig: config,
@@ -290,6 +714,17 @@ export default function DrowsinessDetectionPage() {
     }
   }
 
+  const formatReactionSummary = (acknowledgements: AcknowledgementEvent[]) => {
+    const { meanReactionTime, missed } = summarizeAcknowledgements(acknowledgements)
+    const mean = meanReactionTime !== null ? `${(meanReactionTime / 1000).toFixed(1)}s avg reaction` : "no responses"
+    return missed > 0 ? `${mean}, ${missed} unanswered` : mean
+  }
+
+  const reactionSummary =
+    analytics.currentSession && analytics.currentSession.acknowledgements.length > 0
+      ? summarizeAcknowledgements(analytics.currentSession.acknowledgements)
+      : null
+
   const getSessionGrade = (session: SessionData) => {
     const alertRate = session.totalAlerts / (session.duration / 60000) // alerts per minute
     const avgDrowsiness = session.maxDrowsinessScore
@@ -308,178 +743,123 @@ export default function DrowsinessDetectionPage() {
       })
     }
 
-    // Initialize audio
-    if (typeof window !== "undefined") {
-      audioRef.current = new Audio()
-      audioRef.current.loop = true
-      audioRef.current.volume = alertConfig.volume
-    }
-
-    return () => {
-      if (audioRef.current) {
-        audioRef.current.pause()
-        audioRef.current = null
-      }
-    }
+    return () => stopAlertChannels()
   }, [])
 
-  const generateAlertSound = useCallback(
-    (frequency = 800, duration = 200) => {
-      if (!alertConfig.audioEnabled || typeof window === "undefined") return
-
-      try {
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
-        const oscillator = audioContext.createOscillator()
-        const gainNode = audioContext.createGain()
-
-        oscillator.connect(gainNode)
-        gainNode.connect(audioContext.destination)
-
-        oscillator.frequency.setValueAtTime(frequency, audioContext.currentTime)
-        oscillator.type = "sine"
-
-        gainNode.gain.setValueAtTime(0, audioContext.currentTime)
-        gainNode.gain.linearRampToValueAtTime(alertConfig.volume, audioContext.currentTime + 0.01)
-        gainNode.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + duration / 1000)
-
-        oscillator.start(audioContext.currentTime)
-        oscillator.stop(audioContext.currentTime + duration / 1000)
-      } catch (error) {
-        console.error("[v0] Audio generation error:", error)
-      }
-    },
-    [alertConfig.audioEnabled, alertConfig.volume],
+  const channelContext: AlertChannelContext = useMemo(
+    () => ({
+      sounds: customSounds,
+      showVisual: () => setAlertState((prev) => ({ ...prev, visible: true })),
+    }),
+    [customSounds],
   )
 
   const triggerAlert = useCallback(
-    (level: AlertState["level"], message: string) => {
+    (level: AlertState["level"], message: string, values: Record<string, number> = {}) => {
       const timestamp = Date.now()
 
       setAlertState({
         isActive: true,
+        visible: false,
         level,
         message,
         timestamp,
       })
 
-      // Audio alerts with different patterns based on severity
-      if (alertConfig.audioEnabled) {
-        switch (level) {
-          case "low":
-            generateAlertSound(600, 300)
-            break
-          case "medium":
-            generateAlertSound(800, 400)
-            setTimeout(() => generateAlertSound(800, 400), 500)
-            break
-          case "high":
-            generateAlertSound(1000, 500)
-            setTimeout(() => generateAlertSound(1000, 500), 600)
-            setTimeout(() => generateAlertSound(1000, 500), 1200)
-            break
-          case "critical":
-            // Continuous alarm pattern
-            const playAlarm = () => {
-              generateAlertSound(1200, 200)
-              setTimeout(() => generateAlertSound(800, 200), 250)
-            }
-            playAlarm()
-            setTimeout(playAlarm, 500)
-            setTimeout(playAlarm, 1000)
-            setTimeout(playAlarm, 1500)
-            break
-        }
-      }
-
-      // Browser notifications
-      if (alertConfig.browserNotifications && notificationPermission === "granted") {
-        const notification = new Notification("Drowsiness Alert", {
-          body: message,
-          icon: "/favicon.ico",
-          badge: "/favicon.ico",
-          tag: "drowsiness-alert",
-          requireInteraction: level === "critical",
-          silent: !alertConfig.audioEnabled,
-        })
-
-        notification.onclick = () => {
-          window.focus()
-          notification.close()
-        }
-
-        // Auto-close notification after 5 seconds unless critical
-        if (level !== "critical") {
-          setTimeout(() => notification.close(), 5000)
-        }
-      }
-
-      // Vibration for mobile devices
-      if (alertConfig.vibrationEnabled && "vibrate" in navigator) {
-        switch (level) {
-          case "low":
-            navigator.vibrate(200)
-            break
-          case "medium":
-            navigator.vibrate([200, 100, 200])
-            break
-          case "high":
-            navigator.vibrate([300, 100, 300, 100, 300])
-            break
-          case "critical":
-            navigator.vibrate([500, 200, 500, 200, 500, 200, 500])
-            break
-        }
-      }
+      dispatchAlert(alertChannels, { level, message, timestamp, test: false, values }, channelContext)
 
       // Auto-dismiss alert after timeout
       if (alertTimeoutRef.current) {
         clearTimeout(alertTimeoutRef.current)
+        alertTimeoutRef.current = null
+      }
+
+      // Alerts that need an answer stay up until the driver passes the challenge; a pending one keeps its
+      // start time so the reaction time covers every alert it went unanswered through
+      if (!challengeRef.current && requiresAcknowledgement(escalationPolicy.acknowledgement, level)) {
+        challengeRef.current = createChallenge(escalationPolicy.acknowledgement, level, timestamp)
+        setChallenge(challengeRef.current)
       }
 
-      const timeoutDuration = level === "critical" ? 10000 : level === "high" ? 7000 : 5000
-      alertTimeoutRef.current = setTimeout(() => {
-        setAlertState((prev) => ({ ...prev, isActive: false }))
-      }, timeoutDuration)
+      if (!challengeRef.current) {
+        const timeoutDuration = level === "critical" ? 10000 : level === "high" ? 7000 : 5000
+        alertTimeoutRef.current = setTimeout(() => {
+          setAlertState((prev) => ({ ...prev, isActive: false }))
+        }, timeoutDuration)
+      }
 
       console.log(`[v0] ${level.toUpperCase()} alert triggered: ${message}`)
     },
-    [alertConfig, notificationPermission, generateAlertSound],
+    [alertChannels, channelContext, escalationPolicy.acknowledgement],
   )
 
   const dismissAlert = useCallback(() => {
     setAlertState((prev) => ({ ...prev, isActive: false }))
+    // Dismissing counts as a response, so the alert stops escalating
+    acknowledgePolicyAlert(policyStateRef.current, Date.now())
     if (alertTimeoutRef.current) {
       clearTimeout(alertTimeoutRef.current)
       alertTimeoutRef.current = null
     }
-    if (audioRef.current) {
-      audioRef.current.pause()
-    }
+    stopAlertChannels()
   }, [])
 
-  const loadFaceDetectionModel = useCallback(async () => {
+  const respondToChallenge = useCallback(
+    (method: AcknowledgementMethod, timestamp: number) => {
+      const pending = challengeRef.current
+      if (!pending) return
+      challengeRef.current = null
+      setChallenge(null)
+      recordAcknowledgement(resolveChallenge(pending, method, timestamp))
+      dismissAlert()
+    },
+    [recordAcknowledgement, dismissAlert],
+  )
+
+  const cancelChallenge = () => {
+    challengeRef.current = null
+    setChallenge(null)
+  }
+
+  // No valid answer in time: log the miss, raise the next level and ask again
+  useEffect(() => {
+    if (!challenge) return
+    const timer = setTimeout(
+      () => {
+        if (challengeRef.current !== challenge) return
+        const timestamp = Date.now()
+        challengeRef.current = null
+        setChallenge(null)
+        recordAcknowledgement(resolveChallenge(challenge, null, timestamp))
+
+        const level = nextAlertLevel(challenge.level)
+        const message = "No response to the last alert. Confirm you are awake now!"
+        triggerAlert(level, message)
+        recordAlert(timestamp, level, message)
+        setStats((prev) => ({ ...prev, alertCount: prev.alertCount + 1 }))
+      },
+      Math.max(0, challenge.deadline - Date.now()),
+    )
+    return () => clearTimeout(timer)
+  }, [challenge, triggerAlert, recordAlert, recordAcknowledgement])
+
+  const loadFaceDetectionModel = useCallback(async (backend: DetectorBackend) => {
     try {
       setIsModelLoading(true)
       setError(null)
 
-      const tf = await import("@tensorflow/tfjs")
-      const faceDetection = await import("@tensorflow-models/face-landmarks-detection")
-
-      await tf.ready()
-
-      const model = faceDetection.SupportedModels.MediaPipeFaceMesh
-      const detectorConfig = {
-        runtime: "tfjs" as const,
-        maxFaces: 1,
-        refineLandmarks: false, // Disable for better performance with tfjs runtime
-      }
+      console.log(`[v0] Creating face detection model with ${getDetectorLabel(backend)}...`)
+      const inference = await createFaceInference(backend)
 
-      console.log("[v0] Creating face detection model with TensorFlow.js runtime...")
-      const detector = await faceDetection.createDetector(model, detectorConfig)
+      // The previous detector keeps serving frames until the new one is ready
+      const previous = modelRef.current
+      modelRef.current = inference
+      previous?.dispose()
 
-      modelRef.current = detector
+      setInferenceMode(inference.mode)
+      setActiveBackend(inference.backend)
       setModelLoaded(true)
-      console.log("[v0] Face detection model loaded successfully")
+      console.log(`[v0] ${getDetectorLabel(inference.backend)} model loaded successfully, running on:`, inference.mode)
     } catch (err) {
       console.error("[v0] Model loading error:", err)
       setError(
@@ -490,292 +870,377 @@ export default function DrowsinessDetectionPage() {
     }
   }, [])
 
-  const calculateEyeAspectRatio = (eyePoints: { x: number; y: number }[]) => {
-    if (eyePoints.length < 6) return 0
-
-    // Calculate vertical distances
-    const v1 = Math.sqrt(Math.pow(eyePoints[1].x - eyePoints[5].x, 2) + Math.pow(eyePoints[1].y - eyePoints[5].y, 2))
-    const v2 = Math.sqrt(Math.pow(eyePoints[2].x - eyePoints[4].x, 2) + Math.pow(eyePoints[2].y - eyePoints[4].y, 2))
-
-    // Calculate horizontal distance
-    const h = Math.sqrt(Math.pow(eyePoints[0].x - eyePoints[3].x, 2) + Math.pow(eyePoints[0].y - eyePoints[3].y, 2))
-
-    // Eye aspect ratio
-    return (v1 + v2) / (2.0 * h)
-  }
-
-  const calculateMouthAspectRatio = (mouthPoints: { x: number; y: number }[]) => {
-    if (mouthPoints.length < 6) return 0
-
-    // Calculate vertical distance (mouth height)
-    const v1 = Math.sqrt(
-      Math.pow(mouthPoints[2].x - mouthPoints[6].x, 2) + Math.pow(mouthPoints[2].y - mouthPoints[6].y, 2),
-    )
-    const v2 = Math.sqrt(
-      Math.pow(mouthPoints[3].x - mouthPoints[7].x, 2) + Math.pow(mouthPoints[3].y - mouthPoints[7].y, 2),
-    )
-
-    // Calculate horizontal distance (mouth width)
-    const h = Math.sqrt(
-      Math.pow(mouthPoints[0].x - mouthPoints[4].x, 2) + Math.pow(mouthPoints[0].y - mouthPoints[4].y, 2),
-    )
-
-    return (v1 + v2) / (2.0 * h)
-  }
-
-  const analyzeDrowsinessPattern = (currentEAR: number, timestamp: number) => {
-    const history = detectionHistoryRef.current
-
-    // Add current values to history
-    history.earValues.push(currentEAR)
-    history.timestamps.push(timestamp)
-
-    // Maintain history length
-    if (history.earValues.length > history.maxHistoryLength) {
-      history.earValues.shift()
-      history.timestamps.shift()
-      history.blinkStates.shift()
-    }
-
-    const isEyesClosed = currentEAR < config.earThreshold
-    let eyeClosureDuration = 0
-
-    if (isEyesClosed) {
-      // Eyes are closed
-      if (history.eyeClosureStartTime === null) {
-        // Start tracking eye closure
-        history.eyeClosureStartTime = timestamp
-        console.log("[v0] Started tracking eye closure at:", new Date(timestamp).toLocaleTimeString())
-      }
-      eyeClosureDuration = timestamp - history.eyeClosureStartTime
-    } else {
-      // Eyes are open
-      if (history.eyeClosureStartTime !== null) {
-        // Eyes just opened, record the closure duration
-        history.lastEyeClosureDuration = timestamp - history.eyeClosureStartTime
-        console.log("[v0] Eye closure ended. Duration:", history.lastEyeClosureDuration, "ms")
-        history.eyeClosureStartTime = null
-      }
-      eyeClosureDuration = 0
-    }
-
-    // Detect blink vs sustained closure
-    const isBlink = isEyesClosed && eyeClosureDuration < 500 // Blinks are typically < 500ms
-    const isSustainedClosure = eyeClosureDuration >= 3000 // 3 seconds or more
-
-    history.blinkStates.push(isBlink)
-
-    // Count blinks in the last minute (exclude sustained closures)
-    const oneMinuteAgo = timestamp - 60000
-    const recentBlinks = history.timestamps.reduce((count, ts, index) => {
-      if (ts > oneMinuteAgo && history.blinkStates[index]) {
-        return count + 1
-      }
-      return count
-    }, 0)
-
-    // Calculate average EAR over recent history
-    const avgEAR =
-      history.earValues.length > 0 ? history.earValues.reduce((sum, ear) => sum + ear, 0) / history.earValues.length : 0
-
-    // Check for sustained low EAR (drowsiness indicator)
-    const recentLowEARCount = history.earValues
-      .slice(-config.consecutiveFrames)
-      .filter((ear) => ear < config.earThreshold).length
-    const isDrowsy = recentLowEARCount >= config.consecutiveFrames * 0.8 // 80% of recent frames below threshold
-
-    // Calculate drowsiness score (0-100)
-    const earScore = Math.max(0, ((config.earThreshold - avgEAR) / config.earThreshold) * 100)
-    const blinkScore = Math.max(0, ((15 - recentBlinks) / 15) * 100) // Normal blink rate ~15-20/min
-    let drowsinessScore = Math.min(100, (earScore + blinkScore) / 2)
-
-    if (isSustainedClosure) {
-      drowsinessScore = Math.max(drowsinessScore, 95) // Force high score for 3+ second closure
-    }
-
-    let alertLevel: AlertState["level"] = "low"
-    let alertMessage = ""
-
-    if (isSustainedClosure) {
-      alertLevel = "critical"
-      alertMessage = `CRITICAL: Eyes closed for ${Math.round(eyeClosureDuration / 1000)} seconds! Wake up immediately!`
-      console.log("[v0] SUSTAINED EYE CLOSURE DETECTED:", eyeClosureDuration, "ms")
-    } else if (drowsinessScore > 80) {
-      alertLevel = "critical"
-      alertMessage = "CRITICAL: Severe drowsiness detected! Please stop and rest immediately."
-    } else if (drowsinessScore > 60) {
-      alertLevel = "high"
-      alertMessage = "HIGH ALERT: Significant drowsiness detected. Consider taking a break."
-    } else if (drowsinessScore > 40) {
-      alertLevel = "medium"
-      alertMessage = "MODERATE: Drowsiness signs detected. Stay alert."
-    } else if (isDrowsy) {
-      alertLevel = "low"
-      alertMessage = "NOTICE: Mild drowsiness detected."
-    }
-
-    return {
-      isDrowsy: isDrowsy || isSustainedClosure,
-      blinkRate: recentBlinks,
-      avgEAR,
-      drowsinessScore,
-      alertLevel,
-      alertMessage,
-      eyeClosureDuration,
-      isSustainedClosure,
-    }
-  }
-
-  const detectFaceAndEyes = useCallback(async () => {
-    if (!videoRef.current || !canvasRef.current || !modelRef.current || !isStreaming) {
-      return
-    }
-
-    const video = videoRef.current
+  // The canvas is handed to an OffscreenCanvas worker on first use, so all drawing goes through this
+  const getOverlay = useCallback(() => {
     const canvas = canvasRef.current
-    const ctx = canvas.getContext("2d")
-
-    if (!ctx || video.videoWidth === 0 || video.videoHeight === 0) {
-      return
+    if (!canvas) return null
+    if (overlayRef.current?.canvas !== canvas) {
+      overlayRef.current = createOverlayRenderer(canvas)
     }
+    return overlayRef.current
+  }, [])
 
-    // Set canvas dimensions to match video
-    canvas.width = video.videoWidth
-    canvas.height = video.videoHeight
-
-    try {
-      const predictions = await modelRef.current.estimateFaces(video)
-
-      // Clear canvas
-      ctx.clearRect(0, 0, canvas.width, canvas.height)
-
-      if (predictions.length > 0) {
-        const face = predictions[0]
-        const keypoints = face.keypoints
-        const timestamp = Date.now()
-
-        // Draw face mesh
-        ctx.strokeStyle = "#00ff00"
-        ctx.lineWidth = 1
-        ctx.fillStyle = "#00ff00"
-
-        // Extract eye landmarks (MediaPipe face mesh indices)
-        const leftEyeIndices = [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246]
-        const rightEyeIndices = [362, 382, 381, 380, 374, 373, 390, 249, 263, 466, 388, 387, 386, 385, 384, 398]
-
-        const mouthIndices = [61, 84, 17, 314, 405, 320, 307, 375, 321, 308, 324, 318]
-
-        const leftEyePoints = leftEyeIndices.map((i) => keypoints[i]).filter(Boolean)
-        const rightEyePoints = rightEyeIndices.map((i) => keypoints[i]).filter(Boolean)
-        const mouthPoints = mouthIndices.map((i) => keypoints[i]).filter(Boolean)
-
-        // Draw eye landmarks with color coding based on drowsiness
-        const leftEAR = calculateEyeAspectRatio(leftEyePoints)
-        const rightEAR = calculateEyeAspectRatio(rightEyePoints)
-        const avgEAR = (leftEAR + rightEAR) / 2
-
-        const eyeColor = avgEAR < config.earThreshold ? "#ff0000" : "#00ff00"
-
-        ctx.fillStyle = eyeColor
-        leftEyePoints.forEach((point) => {
-          ctx.beginPath()
-          ctx.arc(point.x, point.y, 2, 0, 2 * Math.PI)
-          ctx.fill()
-        })
-
-        rightEyePoints.forEach((point) => {
-          ctx.beginPath()
-          ctx.arc(point.x, point.y, 2, 0, 2 * Math.PI)
-          ctx.fill()
-        })
+  useEffect(() => {
+    return () => modelRef.current?.dispose()
+  }, [])
 
-        const mouthAR = calculateMouthAspectRatio(mouthPoints)
-        const mouthColor = mouthAR > config.yawnThreshold ? "#ff8800" : "#0088ff"
+  // Shared by live detection and trace replay: draws the overlay, scores the frame and raises alerts
+  const processFrame = useCallback(
+    (frame: LandmarkFrame | null, obstruction: ObstructionKind | null, tracking?: FrameTracking) => {
+      const overlay = getOverlay()
+      if (!overlay) return
+
+      const overlayFaces: OverlayFace[] = (tracking?.faces ?? []).map((face) => ({
+        id: face.id,
+        box: face.box,
+        ear: measureFaceEAR(face.keypoints, config),
+        isDriver: face.id === tracking?.driverId,
+      }))
+      const faceCount = tracking ? tracking.faces.length : frame && frame.keypoints.length > 0 ? 1 : 0
+      const driverId = tracking?.driverId ?? null
+
+      const timestamp = frame?.timestamp ?? Date.now()
+      // Landmarks from a frozen image are stale, so they don't count as seeing the driver
+      const faceFound = !!frame && frame.keypoints.length > 0 && obstruction !== "frozen"
+      const presence = updateFacePresence(
+        drowsinessStateRef.current,
+        config,
+        faceFound,
+        obstruction ?? "no-face",
+        timestamp,
+      )
+      const isCalibrating = calibrationRef.current !== null
 
-        ctx.fillStyle = mouthColor
-        mouthPoints.forEach((point) => {
-          ctx.beginPath()
-          ctx.arc(point.x, point.y, 2, 0, 2 * Math.PI)
-          ctx.fill()
-        })
+      if (presence.completedLoss) {
+        recordFaceLoss(presence.completedLoss)
+      }
 
-        const analysis = analyzeDrowsinessPattern(avgEAR, timestamp)
+      const analysis = frame && faceFound ? analyzeFrame(drowsinessStateRef.current, config, frame) : null
+      const metrics = buildPolicyMetrics(analysis, presence.status === "lost" ? presence.lostDuration : 0)
+      const policyAlert = evaluatePolicy(policyStateRef.current, escalationPolicy, metrics, timestamp)
+      // Deliberate eye closure during calibration must not raise alerts
+      const alertRaised = policyAlert !== null && !isCalibrating
+      if (policyAlert && alertRaised) {
+        triggerAlert(policyAlert.level, policyAlert.message, metrics)
+        recordAlert(timestamp, policyAlert.level, policyAlert.message)
+      }
 
-        // Draw face bounding box with status color
-        if (face.box) {
-          const box = face.box
-          ctx.strokeStyle = analysis.isDrowsy ? "#ff0000" : "#00ff00"
-          ctx.lineWidth = 3
-          ctx.strokeRect(box.xMin, box.yMin, box.width, box.height)
+      // Blink timing is compared against the wall-clock challenge start, so replayed traces work too
+      if (
+        analysis?.blinkDetected &&
+        challengeRef.current &&
+        recordChallengeBlink(challengeRef.current, Date.now(), analysis.eyesOpen)
+      ) {
+        respondToChallenge("double-blink", Date.now())
+      }
 
-          ctx.fillStyle = analysis.isDrowsy ? "#ff0000" : "#00ff00"
-          ctx.font = "16px Arial"
-          ctx.fillText(`Drowsiness: ${analysis.drowsinessScore.toFixed(1)}%`, box.xMin, box.yMin - 10)
+      if (frame && analysis) {
+        const avgEAR = analysis.currentEAR
 
-          if (mouthAR > config.yawnThreshold) {
-            ctx.fillStyle = "#ff8800"
-            ctx.fillText("YAWN DETECTED", box.xMin, box.yMin + box.height + 20)
-          }
+        if (calibrationRef.current) {
+          recordCalibrationSample(calibrationRef.current, avgEAR, timestamp)
         }
 
-        if (analysis.isSustainedClosure && alertState.level !== "critical") {
-          console.log("[v0] Triggering sustained closure alert")
-          triggerAlert(analysis.alertLevel, analysis.alertMessage)
-        } else if (analysis.isDrowsy && Date.now() - lastAlertTime > config.alertCooldown) {
-          triggerAlert(analysis.alertLevel, analysis.alertMessage)
-          setLastAlertTime(Date.now())
-        }
+        overlay.draw(analysis, config, frame.box, overlayFaces)
 
         // Update statistics
         setStats((prev) => ({
           ...prev,
           currentEAR: avgEAR,
+          leftEAR: analysis.leftEAR,
+          rightEAR: analysis.rightEAR,
+          eyeAsymmetry: analysis.eyeAsymmetry,
           blinkRate: analysis.blinkRate,
           drowsinessScore: analysis.drowsinessScore,
           eyeClosureDuration: analysis.eyeClosureDuration,
+          perclos: analysis.perclos,
+          yawnCount: prev.yawnCount + (analysis.completedYawn ? 1 : 0),
+          recentYawnCount: analysis.recentYawnCount,
+          headPose: analysis.headPose,
+          nodCount: prev.nodCount + (analysis.completedNod ? 1 : 0),
+          recentNodCount: analysis.recentNodCount,
           faceDetected: true,
+          faceCount,
+          driverId,
+          faceStatus: presence.status,
+          faceLossReason: null,
+          faceLostDuration: 0,
+          imageQuality: tracking?.quality ?? null,
+          eyeSignalsTrusted: analysis.eyeSignalsTrusted,
+          eyewear: tracking?.eyewear ?? null,
+          eyewearActive: analysis.eyewearActive,
           eyeAspectRatio: avgEAR,
-          blinkCount:
-            prev.blinkCount + (avgEAR < config.blinkThreshold && timestamp - lastBlinkRef.current > 200 ? 1 : 0),
-          alertCount: prev.alertCount + (analysis.alertLevel !== "low" ? 1 : 0),
+          blinkCount: prev.blinkCount + (analysis.blinkDetected ? 1 : 0),
+          alertCount: prev.alertCount + (alertRaised ? 1 : 0),
         }))
 
-        updateAnalytics(
-          avgEAR,
-          analysis.drowsinessScore,
-          analysis.alertLevel !== "low" ? analysis.alertLevel : undefined,
-        )
+        updateAnalytics(avgEAR, analysis.drowsinessScore, analysis.perclos)
+
+        if (analysis.completedYawn) {
+          recordYawn(analysis.completedYawn)
+        }
 
-        if (avgEAR < config.blinkThreshold && timestamp - lastBlinkRef.current > 200) {
-          lastBlinkRef.current = timestamp
+        if (analysis.completedNod) {
+          recordNod(analysis.completedNod)
         }
 
         if (analysis.isDrowsy) {
-          consecutiveDrowsyFramesRef.current++
           setDetectionStatus("drowsy")
         } else {
-          consecutiveDrowsyFramesRef.current = 0
           setDetectionStatus("active")
         }
       } else {
+        overlay.draw(null, config, undefined, overlayFaces)
         setStats((prev) => ({
           ...prev,
+          alertCount: prev.alertCount + (alertRaised ? 1 : 0),
           faceDetected: false,
+          faceCount,
+          driverId,
+          faceStatus: presence.status,
+          faceLossReason: presence.reason,
+          faceLostDuration: presence.lostDuration,
+          imageQuality: null,
+          eyeSignalsTrusted: true,
+          eyewear: null,
+          eyewearActive: false,
           eyeAspectRatio: 0,
           currentEAR: 0,
+          leftEAR: 0,
+          rightEAR: 0,
+          eyeAsymmetry: false,
           blinkRate: 0,
           drowsinessScore: 0,
           eyeClosureDuration: 0,
+          perclos: 0,
+          headPose: null,
         }))
-        setDetectionStatus("active")
+        setDetectionStatus(presence.status === "lost" ? "no-face" : "active")
       }
+    },
+    [
+      config,
+      getOverlay,
+      triggerAlert,
+      updateAnalytics,
+      recordAlert,
+      recordYawn,
+      recordNod,
+      recordFaceLoss,
+      escalationPolicy,
+      respondToChallenge,
+    ],
+  )
+
+  const processFrameRef = useRef(processFrame)
+  useEffect(() => {
+    processFrameRef.current = processFrame
+  }, [processFrame])
+
+  // Runs once per scheduled frame. Reads only refs, so the loop never sees stale state.
+  const detectFaceAndEyes = () => {
+    const video = videoRef.current
+    const inference = modelRef.current
+    if (!video || !inference || video.videoWidth === 0 || video.videoHeight === 0) {
+      return
+    }
+
+    // Drop this frame rather than queue it behind one that is still being inferred
+    if (inference.isBusy()) {
+      recordDroppedFrame(frameStatsRef.current, performance.now())
+      return
+    }
+
+    // Set canvas dimensions to match video
+    getOverlay()?.resize(video.videoWidth, video.videoHeight)
+
+    const timestamp = Date.now()
+    // Sample the picture now, not when inference returns and the video has moved on
+    const obstruction = frameSamplerRef.current ? checkObstruction(frameSamplerRef.current, video, timestamp) : null
+    const started = performance.now()
+    inference
+      .estimateFaces(video)
+      .then((predictions) => {
+        // Camera stopped while this frame was in flight
+        if (!video.srcObject) return
+
+        const finished = performance.now()
+        recordCompletedFrame(frameStatsRef.current, finished, finished - started)
+
+        const faces = updateFaceTracks(faceTrackerRef.current, predictions, timestamp)
+        const driver = selectDriver(faces, driverSelectionRef.current, video.videoWidth, video.videoHeight)
+        visibleFacesRef.current = faces
+
+        // A different person in the driver seat must not inherit the previous person's history
+        if (driver && driverIdRef.current !== null && driver.id !== driverIdRef.current) {
+          console.log(`[v0] Monitored face changed from #${driverIdRef.current} to #${driver.id}`)
+          drowsinessStateRef.current = createDrowsinessState()
+          policyStateRef.current = createPolicyState()
+        }
+        if (driver) {
+          driverIdRef.current = driver.id
+        }
+
+        const quality =
+          driver && qualitySamplerRef.current
+            ? assessImageQuality(qualitySamplerRef.current, video, driver.box, timestamp)
+            : null
+        const eyewear =
+          driver && eyewearSamplerRef.current
+            ? assessEyewear(eyewearSamplerRef.current, video, driver.keypoints, driver.box, timestamp)
+            : null
+        const frame: LandmarkFrame = driver
+          ? {
+              timestamp,
+              keypoints: driver.keypoints,
+              box: driver.box,
+              quality: quality?.score,
+              eyeReliability: eyewear?.reliability,
+            }
+          : { timestamp, keypoints: [] }
+
+        if (recordingRef.current) {
+          appendFrame(recordingRef.current, frame, obstruction)
+        }
+
+        processFrameRef.current(frame, obstruction, {
+          faces,
+          driverId: driver?.id ?? null,
+          quality,
+          eyewear,
+        })
+      })
+      .catch((err) => console.error("[v0] Face detection error:", err))
+  }
+
+  const startDetectionLoop = () => {
+    frameLoopRef.current?.stop()
+    // Track IDs restart with every run, so a lock from a previous run means nothing
+    faceTrackerRef.current = createFaceTracker()
+    visibleFacesRef.current = []
+    driverIdRef.current = null
+    frameSamplerRef.current = createFrameSampler()
+    qualitySamplerRef.current = createQualitySampler()
+    eyewearSamplerRef.current = createEyewearSampler()
+    policyStateRef.current = createPolicyState()
+    if (driverSelectionRef.current.rule === "locked") {
+      updateDriverSelection({ lockedId: null })
+    }
+    frameStatsRef.current = createFrameStats()
+    frameLoopRef.current = startFrameLoop({ targetFps: analysisFps, onFrame: detectFaceAndEyes })
+  }
+
+  const updateDriverSelection = (update: Partial<DriverSelection>) => {
+    const next = { ...driverSelectionRef.current, ...update }
+    driverSelectionRef.current = next
+    setDriverSelection(next)
+    // A lock only lasts while that face stays tracked, so it isn't remembered
+    if (next.rule !== "locked") {
+      savePreference("driverSelection", { rule: next.rule, seatRegion: next.seatRegion })
+    }
+  }
+
+  // Click-to-lock: canvas coordinates are video pixels stretched over the feed, as the overlay is drawn
+  const lockFaceAtPoint = (event: React.MouseEvent<HTMLDivElement>) => {
+    const video = videoRef.current
+    if (!video || !isStreaming || isReplaying || video.videoWidth === 0) return
+
+    const rect = event.currentTarget.getBoundingClientRect()
+    const x = ((event.clientX - rect.left) / rect.width) * video.videoWidth
+    const y = ((event.clientY - rect.top) / rect.height) * video.videoHeight
+    const face = findFaceAt(visibleFacesRef.current, x, y)
+    if (face) {
+      console.log(`[v0] Locked monitoring to face #${face.id}`)
+      updateDriverSelection({ rule: "locked", lockedId: face.id })
+    }
+  }
+
+  useEffect(() => {
+    const saved = loadPreference<Pick<DriverSelection, "rule" | "seatRegion"> | null>("driverSelection", null)
+    if (saved) {
+      updateDriverSelection({ ...saved, lockedId: null })
+    }
+  }, [])
+
+  const stopDetectionLoop = () => {
+    frameLoopRef.current?.stop()
+    frameLoopRef.current = null
+    setPerformanceStats(null)
+  }
+
+  const updateAnalysisFps = (fps: number) => {
+    setAnalysisFps(fps)
+    savePreference("analysisFps", fps)
+    frameLoopRef.current?.setTargetFps(fps)
+  }
+
+  useEffect(() => {
+    setAnalysisFps(loadPreference("analysisFps", DEFAULT_ANALYSIS_FPS))
+  }, [])
+
+  const updateEscalationPolicy = (policy: EscalationPolicy) => {
+    setEscalationPolicy(policy)
+    saveEscalationPolicy(policy)
+    // Rule IDs and levels may have changed, so held and active rules start over
+    policyStateRef.current = createPolicyState()
+  }
+
+  useEffect(() => {
+    setEscalationPolicy(loadEscalationPolicy())
+  }, [])
+
+  const updateWebhookEndpoints = (endpoints: WebhookEndpoint[]) => {
+    setWebhookEndpoints(endpoints)
+    webhookEndpointsRef.current = endpoints
+    saveWebhookEndpoints(endpoints)
+  }
+
+  const clearWebhookLog = async () => {
+    try {
+      await clearDeliveryLog()
+      setDeliveryLog([])
     } catch (err) {
-      console.error("[v0] Face detection error:", err)
+      console.error("[v0] Failed to clear the webhook log:", err)
     }
+  }
+
+  useEffect(() => {
+    const endpoints = loadWebhookEndpoints()
+    setWebhookEndpoints(endpoints)
+    webhookEndpointsRef.current = endpoints
+
+    listDeliveryLog()
+      .then(setDeliveryLog)
+      .catch((err) => console.error("[v0] Failed to load the webhook log:", err))
+
+    const dispatcher = createWebhookDispatcher({
+      getEndpoints: () => webhookEndpointsRef.current,
+      onLog: (entry) => setDeliveryLog((prev) => [entry, ...prev].slice(0, 50)),
+      onQueueChange: setWebhookQueueSize,
+    })
+    dispatcherRef.current = dispatcher
+    return () => {
+      dispatcher.stop()
+      dispatcherRef.current = null
+    }
+  }, [])
 
-    // Continue detection loop
-    animationRef.current = requestAnimationFrame(detectFaceAndEyes)
-  }, [isStreaming, config, triggerAlert, updateAnalytics, alertState.level, lastAlertTime])
+  useEffect(() => {
+    setAlertChannels(loadAlertChannels())
+    listSounds()
+      .then(setCustomSounds)
+      .catch((err) => console.error("[v0] Failed to load alert sounds:", err))
+  }, [])
+
+  // Sampled once a second so the readout doesn't add a render per frame
+  useEffect(() => {
+    if (!isStreaming || isReplaying) return
+
+    const interval = setInterval(() => {
+      setPerformanceStats(summarizeFrameStats(frameStatsRef.current, performance.now()))
+    }, 1000)
+    return () => clearInterval(interval)
+  }, [isStreaming, isReplaying])
 
   const startCamera = async () => {
     try {
@@ -783,7 +1248,7 @@ export default function DrowsinessDetectionPage() {
 
       // Load model if not already loaded
       if (!modelLoaded && !isModelLoading) {
-        await loadFaceDetectionModel()
+        await loadFaceDetectionModel(detectorBackend)
       }
 
       if (!modelLoaded) {
@@ -791,13 +1256,15 @@ export default function DrowsinessDetectionPage() {
         return
       }
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 640 },
-          height: { ideal: 480 },
-          facingMode: "user",
-        },
-      })
+      try {
+        applyProfile(await getActiveProfile())
+      } catch (err) {
+        console.error("[v0] Failed to load active calibration profile:", err)
+      }
+
+      const stream = await openCameraStream(cameraSettings)
+      watchStreamTracks(stream)
+      refreshVideoDevices()
 
       if (videoRef.current) {
         videoRef.current.srcObject = stream
@@ -809,18 +1276,114 @@ export default function DrowsinessDetectionPage() {
 
         // Start face detection after video is ready
         videoRef.current.onloadedmetadata = () => {
-          detectFaceAndEyes()
+          startDetectionLoop()
         }
       }
     } catch (err) {
-      setError("Failed to access camera. Please ensure camera permissions are granted.")
+      setError(describeCameraError(err, getDeviceLabel(cameraSettings.deviceId)))
       console.error("Camera access error:", err)
     }
   }
 
+  const refreshVideoDevices = useCallback(async () => {
+    try {
+      const devices = await listVideoDevices()
+      setVideoDevices(devices)
+      return devices
+    } catch (err) {
+      console.error("[v0] Failed to enumerate cameras:", err)
+      return []
+    }
+  }, [])
+
+  const getDeviceLabel = (deviceId: string | null) =>
+    videoDevices.find((device) => device.deviceId === deviceId)?.label
+
+  // A track ends when its device is unplugged or taken by the system mid-session
+  function watchStreamTracks(stream: MediaStream) {
+    stream.getVideoTracks().forEach((track) => {
+      track.onended = () => {
+        console.error("[v0] Camera track ended:", track.label)
+        setError(`Camera "${track.label || "unknown"}" was disconnected. Select another camera to continue monitoring.`)
+        refreshVideoDevices()
+      }
+    })
+  }
+
+  // Swaps the video source without stopping detection or ending the session
+  const swapCameraStream = async (settings: CameraSettings) => {
+    const video = videoRef.current
+    if (!video) return
+
+    setIsSwitchingCamera(true)
+    try {
+      const stream = await openCameraStream(settings)
+      watchStreamTracks(stream)
+
+      const previous = video.srcObject as MediaStream | null
+      previous?.getTracks().forEach((track) => {
+        track.onended = null
+        track.stop()
+      })
+
+      // The detection loop is already running; don't start a second one
+      video.onloadedmetadata = null
+      video.srcObject = stream
+      video.play()
+      setError(null)
+      console.log("[v0] Switched camera to:", stream.getVideoTracks()[0]?.label)
+    } catch (err) {
+      setError(describeCameraError(err, getDeviceLabel(settings.deviceId)))
+      console.error("[v0] Camera switch error:", err)
+    } finally {
+      setIsSwitchingCamera(false)
+    }
+  }
+
+  const updateCameraSettings = (settings: CameraSettings) => {
+    setCameraSettings(settings)
+    saveCameraSettings(settings)
+    if (isStreaming && !isReplaying) {
+      swapCameraStream(settings)
+    }
+  }
+
+  const selectCameraDevice = (deviceId: string | null) => {
+    // Each camera remembers its own resolution and frame rate
+    updateCameraSettings(loadDeviceSettings(deviceId))
+  }
+
+  useEffect(() => {
+    setCameraSettings(loadCameraSettings())
+    refreshVideoDevices()
+  }, [refreshVideoDevices])
+
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !navigator.mediaDevices) return
+
+    const handleDeviceChange = async () => {
+      const devices = await refreshVideoDevices()
+      const selected = cameraSettings.deviceId
+      if (isStreaming && !isReplaying && selected && !devices.some((device) => device.deviceId === selected)) {
+        setError("The selected camera is no longer available. Select another camera to continue monitoring.")
+      }
+    }
+
+    navigator.mediaDevices.addEventListener("devicechange", handleDeviceChange)
+    return () => navigator.mediaDevices.removeEventListener("devicechange", handleDeviceChange)
+  }, [refreshVideoDevices, cameraSettings.deviceId, isStreaming, isReplaying])
+
   const stopCamera = () => {
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current)
+    stopDetectionLoop()
+
+    if (replayRef.current) {
+      replayRef.current.stop()
+      replayRef.current = null
+      setIsReplaying(false)
+    }
+
+    if (recordingRef.current) {
+      stopRecording()
     }
 
     if (videoRef.current?.srcObject) {
@@ -830,19 +1393,221 @@ export default function DrowsinessDetectionPage() {
     }
     setIsStreaming(false)
     setDetectionStatus("idle")
+    // Nobody is being monitored any more, so a pending challenge has nothing to measure
+    cancelChallenge()
 
     endSession()
 
-    // Clear canvas
-    if (canvasRef.current) {
-      const ctx = canvasRef.current.getContext("2d")
-      ctx?.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height)
+    // Clear canvas
+    getOverlay()?.draw(null, config)
+  }
+
+  // Replay ends from a timer callback, which must see the latest session state
+  const stopCameraRef = useRef(stopCamera)
+  useEffect(() => {
+    stopCameraRef.current = stopCamera
+  })
+
+  const startRecording = () => {
+    const video = videoRef.current
+    if (!video || !isStreaming || isReplaying) return
+
+    recordingRef.current = createRecording({
+      frameWidth: video.videoWidth,
+      frameHeight: video.videoHeight,
+      landmarkModel: "mediapipe-face-mesh",
+      config,
+    })
+    setIsRecording(true)
+  }
+
+  function stopRecording() {
+    const recording = recordingRef.current
+    recordingRef.current = null
+    setIsRecording(false)
+
+    if (recording && recording.frames.length > 0) {
+      downloadRecording(recording)
+    }
+  }
+
+  const loadRecordingFile = async (file: File) => {
+    try {
+      setError(null)
+      const recording = parseRecording(await file.text())
+      if (recording.frames.length === 0) {
+        setError("The selected trace contains no frames.")
+        return
+      }
+      setLoadedRecording(recording)
+    } catch (err) {
+      console.error("[v0] Failed to load recording:", err)
+      setError(`Failed to load trace: ${err instanceof Error ? err.message : "unknown format"}`)
+    }
+  }
+
+  const startReplayRun = () => {
+    if (!loadedRecording || isStreaming) return
+
+    getOverlay()?.resize(loadedRecording.header.frameWidth, loadedRecording.header.frameHeight)
+
+    drowsinessStateRef.current = createDrowsinessState()
+    policyStateRef.current = createPolicyState()
+    setError(null)
+    setIsStreaming(true)
+    setIsReplaying(true)
+    setDetectionStatus("active")
+    startSession({ kind: "replay" })
+
+    replayRef.current = startReplay(loadedRecording, {
+      speed: replaySpeed,
+      onFrame: (frame, obstruction) => processFrameRef.current(frame, obstruction),
+      onEnd: () => stopCameraRef.current(),
+    })
+  }
+
+  const analyzeVideoFile = async (file: File) => {
+    const video = videoRef.current
+    const overlay = getOverlay()
+    if (!video || !overlay || isStreaming || isAnalyzingVideo) return
+
+    if (!modelRef.current) {
+      setError("Face detection model not loaded. Please wait and try again.")
+      return
+    }
+
+    const url = URL.createObjectURL(file)
+    const abortController = new AbortController()
+    videoAnalysisAbortRef.current = abortController
+
+    setError(null)
+    setVideoAnalysisResult(null)
+    setVideoAnalysisProgress(0)
+    setIsAnalyzingVideo(true)
+
+    try {
+      video.srcObject = null
+      video.src = url
+      const duration = await resolveVideoDuration(video)
+
+      const session = await analyzeVideo({
+        video,
+        estimator: modelRef.current,
+        config,
+        policy: escalationPolicy,
+        fps: videoAnalysisFps,
+        // A file is normally last modified when its recording stopped, so the footage began one duration earlier
+        startTime: file.lastModified ? file.lastModified - Math.round(duration * 1000) : Date.now(),
+        name: file.name,
+        signal: abortController.signal,
+        onFrame: (frame, analysis, progress) => {
+          overlay.resize(video.videoWidth, video.videoHeight)
+          overlay.draw(analysis, config, frame.box)
+          setVideoAnalysisProgress(progress)
+        },
+      })
+
+      await saveSession(session)
+      setAnalytics((prev) => ({
+        ...prev,
+        sessions: [session, ...prev.sessions],
+        totalSessions: prev.totalSessions + 1,
+      }))
+      setVideoAnalysisResult(session)
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") {
+        console.log("[v0] Video analysis cancelled")
+      } else {
+        console.error("[v0] Video analysis error:", err)
+        setError(`Failed to analyze video: ${err instanceof Error ? err.message : "unknown error"}`)
+      }
+    } finally {
+      videoAnalysisAbortRef.current = null
+      setIsAnalyzingVideo(false)
+      video.removeAttribute("src")
+      video.load()
+      URL.revokeObjectURL(url)
+      overlay.draw(null, config)
+    }
+  }
+
+  const cancelVideoAnalysis = () => {
+    videoAnalysisAbortRef.current?.abort()
+  }
+
+  useEffect(() => {
+    const backend = loadPreference<DetectorBackend>("detectorBackend", "tfjs")
+    setDetectorBackend(backend)
+    loadFaceDetectionModel(backend)
+  }, [loadFaceDetectionModel])
+
+  useEffect(() => {
+    // A caching service worker fights hot reloading, so it only runs in production builds
+    if (process.env.NODE_ENV !== "production" || !supportsServiceWorker()) return
+
+    const refreshOfflineReady = () => {
+      checkOfflineReady()
+        .then(setOfflineReady)
+        .catch((err) => console.error("[v0] Failed to check offline cache:", err))
+    }
+
+    registerServiceWorker()
+      .then(refreshOfflineReady)
+      .catch((err) => console.error("[v0] Service worker registration failed:", err))
+
+    navigator.serviceWorker.addEventListener("controllerchange", refreshOfflineReady)
+    return () => navigator.serviceWorker.removeEventListener("controllerchange", refreshOfflineReady)
+  }, [])
+
+  // Live monitoring keeps the screen on, and any time the app spends in the background is a monitoring gap
+  useEffect(() => {
+    if (!isStreaming || isReplaying) {
+      setLastBackgroundGap(null)
+      return
+    }
+
+    const wakeLock = supportsWakeLock() ? holdWakeLock(setWakeLockHeld) : null
+
+    const stopWatching = watchPageVisibility({
+      onHidden: () => {
+        console.log("[v0] App moved to the background, detection is throttled")
+        if (notificationsEnabled && notificationPermission === "granted") {
+          showNotification("Drowsiness monitoring paused", {
+            body: "Monitoring stops while the app is in the background. Return to the app to resume.",
+            icon: "/icons/icon-192.png",
+            tag: "monitoring-paused",
+            requireInteraction: true,
+          })
+        }
+        if ("vibrate" in navigator) {
+          navigator.vibrate([300, 100, 300])
+        }
+      },
+      onVisible: (gap) => {
+        console.log(`[v0] App back in the foreground after ${Math.round(gap.duration / 1000)}s`)
+        markDetectionGap(drowsinessStateRef.current)
+        setLastBackgroundGap(gap)
+        recordSessionEvent({
+          timestamp: gap.start,
+          type: "gap",
+          duration: gap.duration,
+          message: "Monitoring paused while the app was in the background",
+        })
+      },
+    })
+
+    return () => {
+      stopWatching()
+      wakeLock?.release()
+      setWakeLockHeld(false)
     }
-  }
+  }, [isStreaming, isReplaying, notificationsEnabled, notificationPermission, recordSessionEvent])
 
-  useEffect(() => {
-    loadFaceDetectionModel()
-  }, [loadFaceDetectionModel])
+  const selectDetectorBackend = (backend: DetectorBackend) => {
+    setDetectorBackend(backend)
+    savePreference("detectorBackend", backend)
+    loadFaceDetectionModel(backend)
+  }
 
   useEffect(() => {
     return () => {
@@ -855,27 +1620,32 @@ export default function DrowsinessDetectionPage() {
   }
 
   const updateSensitivity = (value: number) => {
-    setConfig((prev) => ({ ...prev, consecutiveFrames: Math.round(value * 2) })) // 2-20 frames
+    setConfig((prev) => ({ ...prev, lowEARDuration: value * 100 })) // 0.1-1 second
+  }
+
+  const updatePerclosWindow = (seconds: number) => {
+    setConfig((prev) => ({ ...prev, perclosWindow: seconds * 1000 }))
+  }
+
+  const updateHeadPitchThreshold = (degrees: number) => {
+    setConfig((prev) => ({ ...prev, headPitchThreshold: degrees }))
+  }
+
+  const updateFaceLostGrace = (seconds: number) => {
+    setConfig((prev) => ({ ...prev, faceLostGrace: seconds * 1000 }))
+  }
+
+  const updateMinImageQuality = (percent: number) => {
+    setConfig((prev) => ({ ...prev, minImageQuality: percent / 100 }))
   }
 
   const resetSettings = () => {
-    setConfig({
-      earThreshold: 0.25,
-      consecutiveFrames: 10,
-      blinkThreshold: 0.2,
-      yawnThreshold: 0.6,
-      alertCooldown: 3000,
-    })
+    setConfig(DEFAULT_DROWSINESS_CONFIG)
+    applyProfile(profiles.find((profile) => profile.id === activeProfileId) ?? null)
 
     // Reset detection history
-    detectionHistoryRef.current = {
-      earValues: [],
-      blinkStates: [],
-      timestamps: [],
-      maxHistoryLength: 100,
-      eyeClosureStartTime: null,
-      lastEyeClosureDuration: 0,
-    }
+    drowsinessStateRef.current = createDrowsinessState()
+    policyStateRef.current = createPolicyState()
 
     setStats((prev) => ({
       ...prev,
@@ -886,11 +1656,40 @@ export default function DrowsinessDetectionPage() {
       drowsinessScore: 0,
       eyeClosureDuration: 0,
       currentEAR: 0,
+      perclos: 0,
+      yawnCount: 0,
+      recentYawnCount: 0,
+      headPose: null,
+      nodCount: 0,
+      recentNodCount: 0,
     }))
   }
 
-  const updateAlertConfig = (key: keyof AlertConfig, value: any) => {
-    setAlertConfig((prev) => ({ ...prev, [key]: value }))
+  const updateAlertChannels = (channels: AlertChannelConfig[]) => {
+    setAlertChannels(channels)
+    saveAlertChannels(channels)
+  }
+
+  const uploadSound = async (file: File) => {
+    const sound = await saveSoundFile(file)
+    setCustomSounds((prev) => [...prev, sound])
+    return sound
+  }
+
+  const removeSound = async (id: string) => {
+    try {
+      await deleteSound(id)
+      setCustomSounds((prev) => prev.filter((sound) => sound.id !== id))
+    } catch (err) {
+      console.error("[v0] Failed to delete sound:", err)
+      setError("Failed to delete the sound")
+    }
+  }
+
+  const requestNotificationPermission = async () => {
+    const permission = await Notification.requestPermission()
+    setNotificationPermission(permission)
+    return permission
   }
 
   const testAlert = (level: AlertState["level"]) => {
@@ -914,7 +1713,8 @@ export default function DrowsinessDetectionPage() {
           </p>
         </div>
 
-        {alertState.isActive && alertConfig.visualEnabled && (
+        {/* A pending challenge is shown even with visual alerts off, since it can't be answered otherwise */}
+        {alertState.isActive && (alertState.visible || challenge) && (
           <Alert
             variant="destructive"
             className={`border-2 ${
@@ -931,10 +1731,36 @@ export default function DrowsinessDetectionPage() {
             <div className="flex-1">
               <div className="font-bold text-lg">{alertState.level.toUpperCase()} ALERT</div>
               <AlertDescription className="text-base">{alertState.message}</AlertDescription>
+              {challenge && (
+                <div
+                  className="relative mt-3 h-32 rounded-md border-2 border-dashed border-current"
+                  onClick={() => {
+                    if (challengeRef.current) challengeRef.current.missedTaps++
+                  }}
+                >
+                  <span className="absolute inset-x-0 top-1 text-center text-xs">
+                    Tap the button{challenge.methods.includes("double-blink") ? " or blink twice quickly" : ""} to
+                    confirm you are awake
+                  </span>
+                  <Button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      respondToChallenge("tap", Date.now())
+                    }}
+                    size="sm"
+                    className="absolute -translate-x-1/2 -translate-y-1/2"
+                    style={{ left: `${challenge.target.x}%`, top: `${challenge.target.y}%` }}
+                  >
+                    I&apos;m awake
+                  </Button>
+                </div>
+              )}
             </div>
-            <Button onClick={dismissAlert} variant="outline" size="sm">
-              Dismiss
-            </Button>
+            {!challenge && (
+              <Button onClick={dismissAlert} variant="outline" size="sm">
+                Dismiss
+              </Button>
+            )}
           </Alert>
         )}
 
@@ -960,47 +1786,85 @@ export default function DrowsinessDetectionPage() {
                       <div className={`w-3 h-3 rounded-full ${getStatusColor()}`}></div>
                       <span className="font-medium">{getStatusText()}</span>
                     </div>
-                    <Badge variant={detectionStatus === "drowsy" ? "destructive" : "secondary"}>
+                    <Badge
+                      variant={detectionStatus === "drowsy" || detectionStatus === "no-face" ? "destructive" : "secondary"}
+                    >
                       {detectionStatus === "active"
                         ? "Monitoring"
                         : detectionStatus === "drowsy"
                           ? "Alert!"
-                          : "Standby"}
+                          : detectionStatus === "no-face"
+                            ? "Face Lost"
+                            : "Standby"}
                     </Badge>
+                    {isReplaying && <Badge variant="secondary">Replay {replaySpeed}x</Badge>}
+                    {isRecording && <Badge variant="destructive">Recording Trace</Badge>}
                     {isModelLoading && <Badge variant="outline">Loading AI Model...</Badge>}
-                    {modelLoaded && <Badge variant="outline">AI Model Ready</Badge>}
-                    {stats.faceDetected && <Badge variant="outline">Face Detected</Badge>}
-                    {stats.drowsinessScore > 50 && (
-                      <Badge variant="destructive">Drowsiness: {stats.drowsinessScore.toFixed(0)}%</Badge>
-                    )}
-                    {alertConfig.audioEnabled && (
+                    {modelLoaded && (
                       <Badge variant="outline">
-                        <Volume2 className="w-3 h-3 mr-1" />
-                        Audio
+                        AI Model Ready{activeBackend && ` · ${getDetectorLabel(activeBackend)}`}
+                        {inferenceMode === "worker" && " · Worker"}
                       </Badge>
                     )}
-                    {alertConfig.browserNotifications && notificationPermission === "granted" && (
-                      <Badge variant="outline">
-                        <Bell className="w-3 h-3 mr-1" />
-                        Notifications
+                    {wakeLockHeld && <Badge variant="outline">Screen Awake</Badge>}
+                    {offlineReady && (
+                      <Badge variant="outline" className="border-green-600 text-green-700 dark:text-green-400">
+                        Offline Ready
                       </Badge>
                     )}
-                    {alertConfig.vibrationEnabled && "vibrate" in navigator && (
-                      <Badge variant="outline">
-                        <Smartphone className="w-3 h-3 mr-1" />
-                        Vibration
+                    {stats.faceDetected && <Badge variant="outline">Face Detected</Badge>}
+                    {stats.faceDetected && stats.imageQuality && (
+                      <Badge
+                        variant="outline"
+                        className={
+                          stats.imageQuality.score >= 0.7
+                            ? "border-green-600 text-green-700 dark:text-green-400"
+                            : stats.imageQuality.score >= config.minImageQuality
+                              ? "border-amber-500 text-amber-600 dark:text-amber-400"
+                              : "border-red-600 text-red-600 dark:text-red-400"
+                        }
+                      >
+                        Image Quality {Math.round(stats.imageQuality.score * 100)}%
                       </Badge>
                     )}
+                    {stats.faceDetected && stats.eyewearActive && (
+                      <Badge variant="outline" className="border-blue-600 text-blue-700 dark:text-blue-400">
+                        Eyewear Mode
+                        {stats.eyewear && stats.eyewear.kind !== "none" && ` · ${EYEWEAR_LABELS[stats.eyewear.kind]}`}
+                      </Badge>
+                    )}
+                    {stats.drowsinessScore > 50 && (
+                      <Badge variant="destructive">Drowsiness: {stats.drowsinessScore.toFixed(0)}%</Badge>
+                    )}
+                    {activeChannels
+                      .filter((channel) => channel.kind !== "visual")
+                      .map((channel) => {
+                        const Icon = CHANNEL_ICONS[channel.kind] ?? Bell
+                        return (
+                          <Badge key={channel.id} variant="outline">
+                            <Icon className="w-3 h-3 mr-1" />
+                            {channel.name}
+                          </Badge>
+                        )
+                      })}
                   </div>
                   <div className="flex items-center space-x-6 text-sm text-gray-600 dark:text-gray-400">
                     <div className="flex items-center space-x-1">
                       <Eye className="w-4 h-4" />
                       <span>EAR: {stats.eyeAspectRatio.toFixed(3)}</span>
                     </div>
+                    <div className="flex items-center space-x-1">
+                      <Target className="w-4 h-4" />
+                      <span>PERCLOS: {(stats.perclos * 100).toFixed(0)}%</span>
+                    </div>
                     <div className="flex items-center space-x-1">
                       <Activity className="w-4 h-4" />
                       <span>Blinks: {stats.blinkCount}</span>
                     </div>
+                    <div className="flex items-center space-x-1">
+                      <Clock className="w-4 h-4" />
+                      <span>Yawns: {stats.yawnCount}</span>
+                    </div>
                     <div className="flex items-center space-x-1">
                       <AlertTriangle className="w-4 h-4" />
                       <span>Alerts: {stats.alertCount}</span>
@@ -1022,6 +1886,21 @@ export default function DrowsinessDetectionPage() {
                     <CardDescription>Real-time video processing with face and eye detection overlay</CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
+                    {lastBackgroundGap && isStreaming && (
+                      <Alert>
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription className="flex items-center justify-between gap-2">
+                          <span>
+                            Monitoring was paused for {Math.round(lastBackgroundGap.duration / 1000)}s while the app was
+                            in the background. Keep the app open on screen while driving.
+                          </span>
+                          <Button onClick={() => setLastBackgroundGap(null)} variant="ghost" size="sm">
+                            Dismiss
+                          </Button>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
                     {error && (
                       <Alert variant="destructive">
                         <AlertTriangle className="h-4 w-4" />
@@ -1029,10 +1908,13 @@ export default function DrowsinessDetectionPage() {
                       </Alert>
                     )}
 
-                    <div className="relative bg-black rounded-lg overflow-hidden aspect-video">
+                    <div
+                      className="relative bg-black rounded-lg overflow-hidden aspect-video"
+                      onClick={lockFaceAtPoint}
+                    >
                       <video ref={videoRef} className="w-full h-full object-cover" autoPlay muted playsInline />
                       <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full pointer-events-none" />
-                      {!isStreaming && (
+                      {!isStreaming && !isAnalyzingVideo && (
                         <div className="absolute inset-0 flex items-center justify-center text-white">
                           <div className="text-center space-y-2">
                             <CameraOff className="w-12 h-12 mx-auto opacity-50" />
@@ -1041,13 +1923,46 @@ export default function DrowsinessDetectionPage() {
                           </div>
                         </div>
                       )}
+                      {isStreaming &&
+                        stats.faceDetected &&
+                        stats.imageQuality &&
+                        stats.imageQuality.issues.length > 0 && (
+                          <div className="absolute bottom-2 left-2 right-2 rounded-md bg-black/70 px-3 py-2 text-sm text-white pointer-events-none">
+                            <p>{QUALITY_GUIDANCE[stats.imageQuality.issues[0]]}</p>
+                            {!stats.eyeSignalsTrusted && (
+                              <p className="text-xs opacity-75">Eye-closure alerts are paused until the image improves</p>
+                            )}
+                          </div>
+                        )}
                     </div>
 
+                    {isStreaming && !isReplaying && (
+                      <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+                        <span>
+                          {stats.faceCount} {stats.faceCount === 1 ? "face" : "faces"} in view
+                          {stats.driverId !== null && ` · monitoring #${stats.driverId}`}
+                          {driverSelection.rule === "locked" &&
+                            (stats.driverId === null ? " · locked face not visible" : " (locked)")}
+                        </span>
+                        {driverSelection.rule === "locked" ? (
+                          <Button
+                            onClick={() => updateDriverSelection({ rule: "largest", lockedId: null })}
+                            variant="ghost"
+                            size="sm"
+                          >
+                            Unlock
+                          </Button>
+                        ) : (
+                          stats.faceCount > 1 && <span>Click a face to lock onto it</span>
+                        )}
+                      </div>
+                    )}
+
                     <div className="flex space-x-2">
                       {!isStreaming ? (
                         <Button
                           onClick={startCamera}
-                          disabled={isModelLoading || !modelLoaded}
+                          disabled={isModelLoading || !modelLoaded || isAnalyzingVideo}
                           className="flex items-center space-x-2"
                         >
                           <Camera className="w-4 h-4" />
@@ -1060,11 +1975,197 @@ export default function DrowsinessDetectionPage() {
                         </Button>
                       )}
                       {!isModelLoading && (
-                        <Button onClick={loadFaceDetectionModel} variant="outline" size="sm">
+                        <Button onClick={() => loadFaceDetectionModel(detectorBackend)} variant="outline" size="sm">
                           Reload AI Model
                         </Button>
                       )}
+                      {isStreaming && !isReplaying && (
+                        <Button
+                          onClick={isRecording ? stopRecording : startRecording}
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center space-x-2"
+                        >
+                          <Circle className={`w-3 h-3 ${isRecording ? "fill-red-600 text-red-600 animate-pulse" : ""}`} />
+                          <span>{isRecording ? "Stop & Save Trace" : "Record Trace"}</span>
+                        </Button>
+                      )}
                     </div>
+
+                    {!isReplaying && !isAnalyzingVideo && (
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        <select
+                          value={cameraSettings.deviceId ?? ""}
+                          onChange={(e) => selectCameraDevice(e.target.value || null)}
+                          disabled={isSwitchingCamera}
+                          className="rounded-md border px-2 py-1 text-sm bg-transparent"
+                          aria-label="Camera"
+                        >
+                          <option value="">Default front camera</option>
+                          {videoDevices.map((device) => (
+                            <option key={device.deviceId} value={device.deviceId}>
+                              {device.label}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={`${cameraSettings.resolution.width}x${cameraSettings.resolution.height}`}
+                          onChange={(e) => {
+                            const [width, height] = e.target.value.split("x").map(Number)
+                            updateCameraSettings({ ...cameraSettings, resolution: { width, height } })
+                          }}
+                          disabled={isSwitchingCamera}
+                          className="rounded-md border px-2 py-1 text-sm bg-transparent"
+                          aria-label="Resolution"
+                        >
+                          {RESOLUTION_OPTIONS.map((resolution) => (
+                            <option key={resolution.width} value={`${resolution.width}x${resolution.height}`}>
+                              {resolution.width}×{resolution.height}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={cameraSettings.frameRate}
+                          onChange={(e) =>
+                            updateCameraSettings({ ...cameraSettings, frameRate: Number.parseInt(e.target.value) })
+                          }
+                          disabled={isSwitchingCamera}
+                          className="rounded-md border px-2 py-1 text-sm bg-transparent"
+                          aria-label="Target frame rate"
+                        >
+                          {FRAME_RATE_OPTIONS.map((frameRate) => (
+                            <option key={frameRate} value={frameRate}>
+                              {frameRate} fps
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {!isStreaming && !isAnalyzingVideo && (
+                      <div className="flex flex-wrap items-center gap-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <label className="flex items-center space-x-2 text-sm font-medium cursor-pointer">
+                          <Film className="w-4 h-4" />
+                          <span>Analyze Video</span>
+                          <input
+                            type="file"
+                            accept="video/*"
+                            className="hidden"
+                            disabled={!modelLoaded}
+                            onChange={(e) => {
+                              const file = e.target.files?.[0]
+                              if (file) analyzeVideoFile(file)
+                              e.target.value = ""
+                            }}
+                          />
+                        </label>
+                        <select
+                          value={videoAnalysisFps}
+                          onChange={(e) => setVideoAnalysisFps(Number.parseInt(e.target.value))}
+                          className="rounded-md border px-2 py-1 text-sm bg-transparent"
+                          aria-label="Video analysis rate"
+                        >
+                          {[5, 10, 15, 30].map((fps) => (
+                            <option key={fps} value={fps}>
+                              {fps} fps
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {isAnalyzingVideo && (
+                      <div className="space-y-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div className="flex justify-between text-sm">
+                          <span>Analyzing video file...</span>
+                          <span className="font-mono">{(videoAnalysisProgress * 100).toFixed(0)}%</span>
+                        </div>
+                        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                          <div
+                            className="h-2 rounded-full bg-blue-600 transition-all duration-200"
+                            style={{ width: `${videoAnalysisProgress * 100}%` }}
+                          ></div>
+                        </div>
+                        <Button onClick={cancelVideoAnalysis} variant="outline" size="sm">
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+
+                    {videoAnalysisResult && !isAnalyzingVideo && (
+                      <div className="space-y-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">
+                            {videoAnalysisResult.source.name ?? "Video"}: {formatDuration(videoAnalysisResult.duration)},{" "}
+                            {videoAnalysisResult.totalAlerts} alerts, {videoAnalysisResult.yawnEvents.length} yawns,{" "}
+                            {videoAnalysisResult.nodEvents.length} nods,{" "}
+                            {videoAnalysisResult.faceLostEvents.length} face losses
+                          </span>
+                          <Button onClick={() => setVideoAnalysisResult(null)} variant="ghost" size="sm">
+                            Close
+                          </Button>
+                        </div>
+                        {videoAnalysisResult.events.length === 0 ? (
+                          <p className="text-xs text-gray-500">No drowsiness events found in this file.</p>
+                        ) : (
+                          <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+                            {videoAnalysisResult.events.map((event, index) => (
+                              <li key={index} className="flex space-x-2">
+                                <span className="font-mono text-gray-500">
+                                  {formatDuration(event.timestamp - videoAnalysisResult.startTime)}
+                                </span>
+                                <span className="font-medium uppercase">{event.level ?? event.type}</span>
+                                <span className="text-gray-600 dark:text-gray-400">
+                                  {event.message ?? `${event.type} (${((event.duration ?? 0) / 1000).toFixed(1)}s)`}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+
+                    {!isStreaming && !isAnalyzingVideo && (
+                      <div className="flex flex-wrap items-center gap-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <label className="flex items-center space-x-2 text-sm font-medium cursor-pointer">
+                          <Upload className="w-4 h-4" />
+                          <span>Load Trace</span>
+                          <input
+                            type="file"
+                            accept=".ndjson,.jsonl,.json,application/json"
+                            className="hidden"
+                            onChange={(e) => {
+                              const file = e.target.files?.[0]
+                              if (file) loadRecordingFile(file)
+                              e.target.value = ""
+                            }}
+                          />
+                        </label>
+                        {loadedRecording && (
+                          <>
+                            <span className="text-xs text-gray-600 dark:text-gray-400">
+                              {loadedRecording.frames.length} frames,{" "}
+                              {formatDuration(getRecordingDuration(loadedRecording))}
+                            </span>
+                            <select
+                              value={replaySpeed}
+                              onChange={(e) => setReplaySpeed(Number.parseFloat(e.target.value))}
+                              className="rounded-md border px-2 py-1 text-sm bg-transparent"
+                            >
+                              {[1, 2, 4, 8, 16].map((speed) => (
+                                <option key={speed} value={speed}>
+                                  {speed}x
+                                </option>
+                              ))}
+                            </select>
+                            <Button onClick={startReplayRun} size="sm" className="flex items-center space-x-2">
+                              <Play className="w-4 h-4" />
+                              <span>Replay</span>
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </div>
@@ -1103,119 +2204,248 @@ export default function DrowsinessDetectionPage() {
                           min="1"
                           max="10"
                           step="1"
-                          value={config.consecutiveFrames / 2}
+                          value={config.lowEARDuration / 100}
                           onChange={(e) => updateSensitivity(Number.parseInt(e.target.value))}
                           className="flex-1"
                         />
                         <span className="text-sm text-gray-600 dark:text-gray-400 w-12">
-                          {Math.round(config.consecutiveFrames / 2)}
+                          {(config.lowEARDuration / 1000).toFixed(1)}s
                         </span>
                       </div>
                     </div>
 
-                    <div className="pt-2">
-                      <Button onClick={resetSettings} variant="outline" className="w-full bg-transparent">
-                        Reset Settings
-                      </Button>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Landmark Detector</label>
+                      <select
+                        value={detectorBackend}
+                        onChange={(e) => selectDetectorBackend(e.target.value as DetectorBackend)}
+                        disabled={isModelLoading}
+                        className="w-full rounded-md border px-2 py-1 text-sm bg-transparent"
+                      >
+                        {DETECTOR_BACKENDS.map(({ backend, label }) => (
+                          <option key={backend} value={backend}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      {!isModelLoading && activeBackend && activeBackend !== detectorBackend && (
+                        <p className="text-xs text-amber-600 dark:text-amber-400">
+                          {getDetectorLabel(detectorBackend)} failed to load; using {getDetectorLabel(activeBackend)}.
+                        </p>
+                      )}
+                      {activeBackend === "mock" && (
+                        <p className="text-xs text-amber-600 dark:text-amber-400">
+                          The synthetic detector ignores the camera. Use it for testing only.
+                        </p>
+                      )}
                     </div>
-                  </CardContent>
-                </Card>
 
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Alert Settings</CardTitle>
-                    <CardDescription>Configure alert notifications and sounds</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div className="flex items-center justify-between">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Monitored Person</label>
+                      <select
+                        value={driverSelection.rule}
+                        onChange={(e) =>
+                          updateDriverSelection({ rule: e.target.value as DriverSelectionRule, lockedId: null })
+                        }
+                        className="w-full rounded-md border px-2 py-1 text-sm bg-transparent"
+                      >
+                        <option value="largest">Largest face (closest to camera)</option>
+                        <option value="seat-region">Face nearest the driver seat</option>
+                        <option value="locked">Locked face (click it on the feed)</option>
+                      </select>
+                      {driverSelection.rule === "seat-region" && (
+                        <select
+                          value={SEAT_REGION_PRESETS.find(({ region }) => region.x === driverSelection.seatRegion.x)?.id}
+                          onChange={(e) =>
+                            updateDriverSelection({
+                              seatRegion: SEAT_REGION_PRESETS.find(({ id }) => id === e.target.value)!.region,
+                            })
+                          }
+                          className="w-full rounded-md border px-2 py-1 text-sm bg-transparent"
+                          aria-label="Driver seat position"
+                        >
+                          {SEAT_REGION_PRESETS.map(({ id, label }) => (
+                            <option key={id} value={id}>
+                              Driver seat: {label}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Analysis Rate</label>
+                      <select
+                        value={analysisFps}
+                        onChange={(e) => updateAnalysisFps(Number.parseInt(e.target.value))}
+                        className="w-full rounded-md border px-2 py-1 text-sm bg-transparent"
+                      >
+                        {ANALYSIS_FPS_OPTIONS.map((fps) => (
+                          <option key={fps} value={fps}>
+                            {fps} fps
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500">
+                        Lower rates reduce CPU load. Alert timing is unaffected, but below 10 fps the shortest blinks
+                        can fall between frames.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">PERCLOS Window</label>
                       <div className="flex items-center space-x-2">
-                        <Volume2 className="w-4 h-4" />
-                        <label className="text-sm font-medium">Audio Alerts</label>
+                        <input
+                          type="range"
+                          min="30"
+                          max="180"
+                          step="10"
+                          value={config.perclosWindow / 1000}
+                          onChange={(e) => updatePerclosWindow(Number.parseInt(e.target.value))}
+                          className="flex-1"
+                        />
+                        <span className="text-sm text-gray-600 dark:text-gray-400 w-12">
+                          {Math.round(config.perclosWindow / 1000)}s
+                        </span>
                       </div>
-                      <Switch
-                        checked={alertConfig.audioEnabled}
-                        onCheckedChange={(checked) => updateAlertConfig("audioEnabled", checked)}
-                      />
                     </div>
 
-                    {alertConfig.audioEnabled && (
-                      <div className="space-y-2 ml-6">
-                        <label className="text-sm font-medium">Volume</label>
-                        <div className="flex items-center space-x-2">
-                          <input
-                            type="range"
-                            min="0"
-                            max="1"
-                            step="0.1"
-                            value={alertConfig.volume}
-                            onChange={(e) => updateAlertConfig("volume", Number.parseFloat(e.target.value))}
-                            className="flex-1"
-                          />
-                          <span className="text-sm text-gray-600 dark:text-gray-400 w-8">
-                            {Math.round(alertConfig.volume * 100)}%
-                          </span>
-                        </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Head Drop Angle</label>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="range"
+                          min="8"
+                          max="30"
+                          step="1"
+                          value={config.headPitchThreshold}
+                          onChange={(e) => updateHeadPitchThreshold(Number.parseInt(e.target.value))}
+                          className="flex-1"
+                        />
+                        <span className="text-sm text-gray-600 dark:text-gray-400 w-12">
+                          {config.headPitchThreshold}°
+                        </span>
                       </div>
-                    )}
+                    </div>
 
-                    <div className="flex items-center justify-between">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Face-Lost Grace Period</label>
                       <div className="flex items-center space-x-2">
-                        <Bell className="w-4 h-4" />
-                        <label className="text-sm font-medium">Browser Notifications</label>
+                        <input
+                          type="range"
+                          min="1"
+                          max="10"
+                          step="1"
+                          value={config.faceLostGrace / 1000}
+                          onChange={(e) => updateFaceLostGrace(Number.parseInt(e.target.value))}
+                          className="flex-1"
+                        />
+                        <span className="text-sm text-gray-600 dark:text-gray-400 w-12">
+                          {Math.round(config.faceLostGrace / 1000)}s
+                        </span>
                       </div>
-                      <Switch
-                        checked={alertConfig.browserNotifications && notificationPermission === "granted"}
-                        onCheckedChange={(checked) => {
-                          if (checked && notificationPermission !== "granted") {
-                            Notification.requestPermission().then((permission) => {
-                              setNotificationPermission(permission)
-                              updateAlertConfig("browserNotifications", permission === "granted")
-                            })
-                          } else {
-                            updateAlertConfig("browserNotifications", checked)
-                          }
-                        }}
-                      />
+                      <p className="text-xs text-gray-500">
+                        How long the driver may be out of view or the camera blocked before alerting.
+                      </p>
                     </div>
 
-                    <div className="flex items-center justify-between">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Minimum Image Quality</label>
                       <div className="flex items-center space-x-2">
-                        <Smartphone className="w-4 h-4" />
-                        <label className="text-sm font-medium">Vibration (Mobile)</label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="80"
+                          step="10"
+                          value={Math.round(config.minImageQuality * 100)}
+                          onChange={(e) => updateMinImageQuality(Number.parseInt(e.target.value))}
+                          className="flex-1"
+                        />
+                        <span className="text-sm text-gray-600 dark:text-gray-400 w-12">
+                          {Math.round(config.minImageQuality * 100)}%
+                        </span>
                       </div>
-                      <Switch
-                        checked={alertConfig.vibrationEnabled && "vibrate" in navigator}
-                        onCheckedChange={(checked) => updateAlertConfig("vibrationEnabled", checked)}
-                        disabled={!("vibrate" in navigator)}
-                      />
+                      <p className="text-xs text-gray-500">
+                        Below this, eye-closure alerts are paused. Head and yawn alerts still run.
+                      </p>
                     </div>
 
-                    <div className="pt-2 space-y-2">
-                      <label className="text-sm font-medium">Test Alerts</label>
-                      <div className="grid grid-cols-2 gap-2">
-                        <Button onClick={() => testAlert("low")} variant="outline" size="sm">
-                          Low
-                        </Button>
-                        <Button onClick={() => testAlert("medium")} variant="outline" size="sm">
-                          Medium
-                        </Button>
-                        <Button onClick={() => testAlert("high")} variant="outline" size="sm">
-                          High
-                        </Button>
-                        <Button onClick={() => testAlert("critical")} variant="destructive" size="sm">
-                          Critical
-                        </Button>
-                      </div>
+                    <div className="pt-2">
+                      <Button onClick={resetSettings} variant="outline" className="w-full bg-transparent">
+                        Reset Settings
+                      </Button>
                     </div>
                   </CardContent>
                 </Card>
 
+                <CalibrationWizard
+                  isStreaming={isStreaming}
+                  calibrationRef={calibrationRef}
+                  profiles={profiles}
+                  activeProfileId={activeProfileId}
+                  onSaveProfile={handleSaveProfile}
+                  onUpdateProfile={handleUpdateProfile}
+                  onSelectProfile={handleSelectProfile}
+                  onDeleteProfile={handleDeleteProfile}
+                />
+
+                <EscalationPolicyEditor policy={escalationPolicy} onChange={updateEscalationPolicy} />
+
+                <AlertChannelsEditor
+                  channels={alertChannels}
+                  sounds={customSounds}
+                  context={channelContext}
+                  notificationPermission={notificationPermission}
+                  onChange={updateAlertChannels}
+                  onUploadSound={uploadSound}
+                  onDeleteSound={removeSound}
+                  onRequestNotificationPermission={requestNotificationPermission}
+                  onTestAlert={testAlert}
+                />
+
+                <WebhookSettings
+                  endpoints={webhookEndpoints}
+                  log={deliveryLog}
+                  queueSize={webhookQueueSize}
+                  onChange={updateWebhookEndpoints}
+                  onTest={(endpoint) => dispatcherRef.current?.sendTest(endpoint)}
+                  onRetry={() => dispatcherRef.current?.flush()}
+                  onClearLog={clearWebhookLog}
+                />
+
                 <Card>
                   <CardHeader>
                     <CardTitle>System Status</CardTitle>
                     <CardDescription>Real-time monitoring statistics</CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
+                    {performanceStats && (
+                      <div className="space-y-2">
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                            <div className="text-lg font-bold text-sky-600 dark:text-sky-400">
+                              {performanceStats.fps.toFixed(1)}
+                              <span className="text-xs font-normal text-gray-500"> / {analysisFps}</span>
+                            </div>
+                            <div className="text-xs text-gray-600 dark:text-gray-400">Analysis FPS</div>
+                          </div>
+                          <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                            <div className="text-lg font-bold text-sky-600 dark:text-sky-400">
+                              {performanceStats.latency.toFixed(0)} ms
+                            </div>
+                            <div className="text-xs text-gray-600 dark:text-gray-400">Inference Latency</div>
+                          </div>
+                        </div>
+                        {performanceStats.fps > 0 && performanceStats.fps < analysisFps * SLOW_FPS_RATIO && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400">
+                            This device is analysing fewer frames than targeted, so closures shorter than{" "}
+                            {Math.round(1000 / performanceStats.fps)} ms may be missed. Try a lower analysis rate or
+                            camera resolution.
+                          </p>
+                        )}
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-2 gap-4">
                       <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
                         <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">{stats.blinkCount}</div>
@@ -1240,15 +2470,84 @@ export default function DrowsinessDetectionPage() {
                       </div>
                     </div>
 
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div className="text-lg font-bold text-amber-600 dark:text-amber-400">{stats.yawnCount}</div>
+                        <div className="text-xs text-gray-600 dark:text-gray-400">Total Yawns</div>
+                      </div>
+                      <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div
+                          className={`text-lg font-bold ${
+                            stats.recentYawnCount >= config.yawnAlertCount
+                              ? "text-red-600 dark:text-red-400"
+                              : "text-amber-600 dark:text-amber-400"
+                          }`}
+                        >
+                          {stats.recentYawnCount}
+                        </div>
+                        <div className="text-xs text-gray-600 dark:text-gray-400">
+                          Yawns/{Math.round(config.yawnWindow / 60000)} Min
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div className="text-lg font-bold text-teal-600 dark:text-teal-400">{stats.nodCount}</div>
+                        <div className="text-xs text-gray-600 dark:text-gray-400">Head Nods</div>
+                      </div>
+                      <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div className="text-sm font-mono font-bold text-teal-600 dark:text-teal-400">
+                          {stats.headPose
+                            ? `${stats.headPose.pitch.toFixed(0)}° / ${stats.headPose.yaw.toFixed(0)}° / ${stats.headPose.roll.toFixed(0)}°`
+                            : "--"}
+                        </div>
+                        <div className="text-xs text-gray-600 dark:text-gray-400">Pitch / Yaw / Roll</div>
+                      </div>
+                    </div>
+
                     <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
                       <div
-                        className={`text-lg font-bold ${stats.faceDetected ? "text-green-600 dark:text-green-400" : "text-gray-400"}`}
+                        className={`text-lg font-bold ${
+                          stats.faceDetected
+                            ? "text-green-600 dark:text-green-400"
+                            : stats.faceStatus === "lost"
+                              ? "text-orange-600 dark:text-orange-400"
+                              : "text-gray-400"
+                        }`}
                       >
-                        {stats.faceDetected ? "DETECTED" : "NO FACE"}
+                        {stats.faceDetected ? "DETECTED" : stats.faceStatus === "lost" ? "LOST" : "NO FACE"}
+                      </div>
+                      <div className="text-xs text-gray-600 dark:text-gray-400">
+                        {stats.faceLossReason
+                          ? `${FACE_LOSS_LABELS[stats.faceLossReason]} · ${Math.round(stats.faceLostDuration / 1000)}s`
+                          : "Face Status"}
                       </div>
-                      <div className="text-xs text-gray-600 dark:text-gray-400">Face Status</div>
                     </div>
 
+                    {reactionSummary && (
+                      <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div
+                          className={`text-lg font-bold ${
+                            reactionSummary.lastReactionTime !== null &&
+                            reactionSummary.lastReactionTime < SLOW_REACTION_MS
+                              ? "text-green-600 dark:text-green-400"
+                              : "text-red-600 dark:text-red-400"
+                          }`}
+                        >
+                          {reactionSummary.lastReactionTime !== null
+                            ? `${(reactionSummary.lastReactionTime / 1000).toFixed(1)}s`
+                            : "--"}
+                        </div>
+                        <div className="text-xs text-gray-600 dark:text-gray-400">
+                          Last Reaction
+                          {reactionSummary.meanReactionTime !== null &&
+                            ` · avg ${(reactionSummary.meanReactionTime / 1000).toFixed(1)}s`}
+                          {reactionSummary.missed > 0 && ` · ${reactionSummary.missed} unanswered`}
+                        </div>
+                      </div>
+                    )}
+
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
                         <span>Eye Aspect Ratio</span>
@@ -1262,6 +2561,11 @@ export default function DrowsinessDetectionPage() {
                           style={{ width: `${Math.min(stats.eyeAspectRatio * 400, 100)}%` }}
                         ></div>
                       </div>
+                      <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+                        <span className="font-mono">L {stats.leftEAR.toFixed(3)}</span>
+                        {stats.eyeAsymmetry && <span className="text-orange-600">One eye occluded</span>}
+                        <span className="font-mono">R {stats.rightEAR.toFixed(3)}</span>
+                      </div>
                     </div>
 
                     <div className="space-y-2">
@@ -1282,6 +2586,21 @@ export default function DrowsinessDetectionPage() {
                         ></div>
                       </div>
                     </div>
+
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span>PERCLOS ({Math.round(config.perclosWindow / 1000)}s)</span>
+                        <span className="font-mono">{(stats.perclos * 100).toFixed(1)}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                        <div
+                          className={`h-2 rounded-full transition-all duration-300 ${
+                            stats.perclos >= config.perclosThreshold ? "bg-red-600" : "bg-blue-600"
+                          }`}
+                          style={{ width: `${Math.min(stats.perclos * 100, 100)}%` }}
+                        ></div>
+                      </div>
+                    </div>
                   </CardContent>
                 </Card>
               </div>
@@ -1315,7 +2634,7 @@ export default function DrowsinessDetectionPage() {
                   <CardDescription>Live monitoring session in progress</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                     <div className="text-center p-4 bg-blue-50 dark:bg-blue-950 rounded-lg">
                       <Clock className="w-6 h-6 mx-auto mb-2 text-blue-600" />
                       <div className="text-2xl font-bold text-blue-600">
@@ -1328,6 +2647,13 @@ export default function DrowsinessDetectionPage() {
                       <div className="text-2xl font-bold text-green-600">{stats.blinkCount}</div>
                       <div className="text-sm text-gray-600 dark:text-gray-400">Blinks</div>
                     </div>
+                    <div className="text-center p-4 bg-amber-50 dark:bg-amber-950 rounded-lg">
+                      <Activity className="w-6 h-6 mx-auto mb-2 text-amber-600" />
+                      <div className="text-2xl font-bold text-amber-600">
+                        {analytics.currentSession.yawnEvents.length}
+                      </div>
+                      <div className="text-sm text-gray-600 dark:text-gray-400">Yawns</div>
+                    </div>
                     <div className="text-center p-4 bg-orange-50 dark:bg-orange-950 rounded-lg">
                       <AlertTriangle className="w-6 h-6 mx-auto mb-2 text-orange-600" />
                       <div className="text-2xl font-bold text-orange-600">{stats.alertCount}</div>
@@ -1400,6 +2726,34 @@ export default function DrowsinessDetectionPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>PERCLOS Trend</CardTitle>
+                  <CardDescription>
+                    Percentage of time eyes were at least 80% closed over a rolling{" "}
+                    {Math.round(config.perclosWindow / 1000)} second window
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-40 flex items-end justify-between space-x-1">
+                    {analytics.realTimeData.slice(-60).map((point, index) => (
+                      <div
+                        key={index}
+                        className={`w-2 rounded-t transition-all duration-300 ${
+                          point.perclos >= config.perclosThreshold ? "bg-red-500" : "bg-indigo-500"
+                        }`}
+                        style={{ height: `${Math.max(point.perclos * 160, 4)}px` }}
+                        title={`PERCLOS: ${(point.perclos * 100).toFixed(1)}% at ${new Date(point.timestamp).toLocaleTimeString()}`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-xs text-gray-500 mt-2">
+                    <span>5 min ago</span>
+                    <span>Now</span>
+                  </div>
+                </CardContent>
+              </Card>
             </div>
 
             {/* Session History */}
@@ -1409,7 +2763,10 @@ export default function DrowsinessDetectionPage() {
                   <Calendar className="w-5 h-5" />
                   <span>Session History</span>
                 </CardTitle>
-                <CardDescription>Your recent monitoring sessions and performance</CardDescription>
+                <CardDescription>
+                  Your recent monitoring sessions and performance
+                  {analytics.totalSessions > 0 && ` (${analytics.sessions.length} of ${analytics.totalSessions})`}
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 {analytics.sessions.length === 0 ? (
@@ -1419,7 +2776,7 @@ export default function DrowsinessDetectionPage() {
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {analytics.sessions.slice(0, 10).map((session) => {
+                    {analytics.sessions.map((session) => {
                       const grade = getSessionGrade(session)
                       return (
                         <div
@@ -1445,6 +2802,26 @@ export default function DrowsinessDetectionPage() {
                                   <Eye className="w-3 h-3" />
                                   <span>{session.totalBlinks} blinks</span>
                                 </span>
+                                <span className="flex items-center space-x-1">
+                                  <Activity className="w-3 h-3" />
+                                  <span>{session.yawnEvents.length} yawns</span>
+                                </span>
+                                <span className="flex items-center space-x-1">
+                                  <TrendingUp className="w-3 h-3" />
+                                  <span>{session.nodEvents.length} nods</span>
+                                </span>
+                                {session.faceLostEvents.length > 0 && (
+                                  <span className="flex items-center space-x-1">
+                                    <EyeOff className="w-3 h-3" />
+                                    <span>{session.faceLostEvents.length} face losses</span>
+                                  </span>
+                                )}
+                                {session.acknowledgements.length > 0 && (
+                                  <span className="flex items-center space-x-1">
+                                    <Timer className="w-3 h-3" />
+                                    <span>{formatReactionSummary(session.acknowledgements)}</span>
+                                  </span>
+                                )}
                                 <span className="flex items-center space-x-1">
                                   <AlertTriangle className="w-3 h-3" />
                                   <span>{session.totalAlerts} alerts</span>
@@ -1452,17 +2829,36 @@ export default function DrowsinessDetectionPage() {
                               </div>
                               <div className="text-xs text-gray-500">
                                 Max Drowsiness: {session.maxDrowsinessScore.toFixed(1)}% | Avg EAR:{" "}
-                                {session.avgEAR.toFixed(3)}
+                                {session.avgEAR.toFixed(3)} | Max PERCLOS: {(session.maxPerclos * 100).toFixed(1)}%
                               </div>
                             </div>
                           </div>
-                          <div className="text-right">
-                            <div className={`text-lg font-bold ${grade.color}`}>{grade.grade}</div>
-                            <div className="text-xs text-gray-500">Performance</div>
+                          <div className="flex items-center space-x-4">
+                            <div className="text-right">
+                              <div className={`text-lg font-bold ${grade.color}`}>{grade.grade}</div>
+                              <div className="text-xs text-gray-500">Performance</div>
+                            </div>
+                            <Button
+                              onClick={() => removeSession(session.id)}
+                              variant="ghost"
+                              size="sm"
+                              aria-label="Delete session"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
                           </div>
                         </div>
                       )
                     })}
+                    {analytics.hasMoreSessions && (
+                      <Button
+                        onClick={() => loadSessions(analytics.sessions.length)}
+                        variant="outline"
+                        className="w-full bg-transparent"
+                      >
+                        Load More Sessions
+                      </Button>
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -1534,6 +2930,8 @@ export default function DrowsinessDetectionPage() {
         return "bg-green-500"
       case "drowsy":
         return "bg-red-500"
+      case "no-face":
+        return "bg-orange-500"
       default:
         return "bg-gray-500"
     }
@@ -1545,6 +2943,8 @@ export default function DrowsinessDetectionPage() {
         return "Alert & Active"
       case "drowsy":
         return "Drowsiness Detected"
+      case "no-face":
+        return "Driver Not Visible"
       default:
         return "System Idle"
     }
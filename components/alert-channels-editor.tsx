@@ -0,0 +1,401 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Switch } from "@/components/ui/switch"
+import { AlertTriangle, Bell, Monitor, Play, Plus, Smartphone, Speech, Trash2, Upload, Volume2 } from "lucide-react"
+import type { AlertLevel } from "@/lib/drowsiness"
+import {
+  createChannelConfig,
+  DEFAULT_ALERT_CHANNELS,
+  DEFAULT_VOICE_SETTINGS,
+  getAlertChannel,
+  listAlertChannels,
+  MAX_SOUND_BYTES,
+  playSoundFile,
+  ROTATING_SOUND,
+  testAlertChannel,
+  TEMPLATE_FIELDS,
+  TONE_LIBRARY,
+  watchVoices,
+  type AlertChannelConfig,
+  type AlertChannelContext,
+  type ChannelLevelSettings,
+  type CustomSound,
+  type VoiceSettings,
+} from "@/lib/alerts"
+import { ALERT_LEVELS, POLICY_METRICS } from "@/lib/escalation"
+
+interface AlertChannelsEditorProps {
+  channels: AlertChannelConfig[]
+  sounds: CustomSound[]
+  context: AlertChannelContext
+  notificationPermission: NotificationPermission
+  onChange: (channels: AlertChannelConfig[]) => void
+  onUploadSound: (file: File) => Promise<CustomSound>
+  onDeleteSound: (id: string) => void
+  onRequestNotificationPermission: () => Promise<NotificationPermission>
+  onTestAlert: (level: AlertLevel) => void
+}
+
+export const CHANNEL_ICONS: Record<string, typeof Bell> = {
+  sound: Volume2,
+  voice: Speech,
+  visual: Monitor,
+  notification: Bell,
+  vibration: Smartphone,
+}
+
+const TEMPLATE_PLACEHOLDERS = [...TEMPLATE_FIELDS, ...POLICY_METRICS.map(({ metric }) => metric)]
+  .map((name) => `{${name}}`)
+  .join(", ")
+
+const isBuiltIn = (channel: AlertChannelConfig) => DEFAULT_ALERT_CHANNELS.some(({ id }) => id === channel.id)
+
+export function AlertChannelsEditor({
+  channels,
+  sounds,
+  context,
+  notificationPermission,
+  onChange,
+  onUploadSound,
+  onDeleteSound,
+  onRequestNotificationPermission,
+  onTestAlert,
+}: AlertChannelsEditorProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([])
+
+  useEffect(() => watchVoices(setVoices), [])
+
+  const languages = [...new Set(voices.map((voice) => voice.lang))].sort()
+
+  const updateChannel = (id: string, update: Partial<AlertChannelConfig>) => {
+    onChange(channels.map((channel) => (channel.id === id ? { ...channel, ...update } : channel)))
+  }
+
+  const updateLevel = (channel: AlertChannelConfig, level: AlertLevel, update: Partial<ChannelLevelSettings>) => {
+    updateChannel(channel.id, { levels: { ...channel.levels, [level]: { ...channel.levels[level], ...update } } })
+  }
+
+  const updateVoice = (channel: AlertChannelConfig, update: Partial<VoiceSettings>) => {
+    updateChannel(channel.id, { voice: { ...DEFAULT_VOICE_SETTINGS, ...channel.voice, ...update } })
+  }
+
+  const toggleChannel = async (channel: AlertChannelConfig, enabled: boolean) => {
+    // Notifications need the browser's permission before switching them on means anything
+    if (enabled && channel.kind === "notification" && notificationPermission !== "granted") {
+      const permission = await onRequestNotificationPermission()
+      if (permission !== "granted") {
+        setError("Notifications are blocked for this site. Allow them in the browser settings.")
+        return
+      }
+    }
+    updateChannel(channel.id, { enabled })
+  }
+
+  const addChannel = (kind: string, label: string) => {
+    const count = channels.filter((channel) => channel.kind === kind).length
+    const channel = createChannelConfig(kind, `${label} ${count + 1}`)
+    onChange([...channels, channel])
+    setExpandedId(channel.id)
+  }
+
+  // Tests the most severe level the channel is on for, which is the one a driver most needs to notice
+  const testChannel = (channel: AlertChannelConfig) => {
+    const level = [...ALERT_LEVELS].reverse().find((candidate) => channel.levels[candidate].enabled) ?? "critical"
+    testAlertChannel(channel, level, context)
+  }
+
+  const uploadSound = async (file: File) => {
+    try {
+      const sound = await onUploadSound(file)
+      setError(null)
+      console.log(`[v0] Saved alert sound "${sound.name}"`)
+    } catch (err) {
+      console.error("[v0] Failed to save alert sound:", err)
+      setError(err instanceof Error ? err.message : "Failed to save the sound")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Alert Settings</CardTitle>
+        <CardDescription>Choose how each alert level reaches the driver</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {channels.map((channel) => {
+            const implementation = getAlertChannel(channel.kind)
+            const supported = implementation?.isSupported() ?? false
+            const Icon = CHANNEL_ICONS[channel.kind] ?? Bell
+            const expanded = expandedId === channel.id
+
+            return (
+              <div key={channel.id} className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Icon className="w-4 h-4" />
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expanded ? null : channel.id)}
+                    className="flex-1 text-left text-sm font-medium truncate"
+                  >
+                    {channel.name}
+                    {!supported && <span className="text-xs font-normal text-gray-500"> · not available here</span>}
+                  </button>
+                  <Button
+                    onClick={() => testChannel(channel)}
+                    variant="ghost"
+                    size="sm"
+                    disabled={!supported}
+                    aria-label={`Test ${channel.name}`}
+                  >
+                    <Play className="w-4 h-4" />
+                  </Button>
+                  <Switch
+                    checked={channel.enabled && supported}
+                    onCheckedChange={(checked) => toggleChannel(channel, checked)}
+                    disabled={!supported}
+                  />
+                </div>
+
+                {expanded && (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={channel.name}
+                      onChange={(e) => updateChannel(channel.id, { name: e.target.value })}
+                      placeholder="Channel name"
+                      className="w-full rounded-md border px-2 py-1 text-sm bg-transparent"
+                    />
+
+                    {(implementation?.playsSound || channel.kind === "voice") && (
+                      <div className="flex items-center space-x-2">
+                        <label className="text-xs text-gray-600 dark:text-gray-400 w-12">Volume</label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="1"
+                          step="0.1"
+                          value={channel.volume}
+                          onChange={(e) => updateChannel(channel.id, { volume: Number.parseFloat(e.target.value) })}
+                          className="flex-1"
+                        />
+                        <span className="text-sm text-gray-600 dark:text-gray-400 w-8">
+                          {Math.round(channel.volume * 100)}%
+                        </span>
+                      </div>
+                    )}
+
+                    {channel.kind === "voice" && (
+                      <div className="space-y-2">
+                        <div className="grid grid-cols-2 gap-2">
+                          <select
+                            value={channel.voice?.lang ?? ""}
+                            onChange={(e) => updateVoice(channel, { lang: e.target.value, voiceURI: "" })}
+                            className="w-full rounded-md border px-2 py-1 text-sm bg-transparent"
+                            aria-label="Language"
+                          >
+                            <option value="">Any language</option>
+                            {languages.map((lang) => (
+                              <option key={lang} value={lang}>
+                                {lang}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={channel.voice?.voiceURI ?? ""}
+                            onChange={(e) => updateVoice(channel, { voiceURI: e.target.value })}
+                            className="w-full rounded-md border px-2 py-1 text-sm bg-transparent"
+                            aria-label="Voice"
+                          >
+                            <option value="">Default voice</option>
+                            {voices
+                              .filter((voice) => !channel.voice?.lang || voice.lang === channel.voice.lang)
+                              .map((voice) => (
+                                <option key={voice.voiceURI} value={voice.voiceURI}>
+                                  {voice.name}
+                                </option>
+                              ))}
+                          </select>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <label className="text-xs text-gray-600 dark:text-gray-400 w-12">Rate</label>
+                          <input
+                            type="range"
+                            min="0.5"
+                            max="2"
+                            step="0.1"
+                            value={channel.voice?.rate ?? DEFAULT_VOICE_SETTINGS.rate}
+                            onChange={(e) => updateVoice(channel, { rate: Number.parseFloat(e.target.value) })}
+                            className="flex-1"
+                          />
+                          <span className="text-sm text-gray-600 dark:text-gray-400 w-8">
+                            {(channel.voice?.rate ?? DEFAULT_VOICE_SETTINGS.rate).toFixed(1)}x
+                          </span>
+                        </div>
+                      </div>
+                    )}
+
+                    {ALERT_LEVELS.map((level) => (
+                      <div key={level} className="flex items-center space-x-2">
+                        <Switch
+                          checked={channel.levels[level].enabled}
+                          onCheckedChange={(enabled) => updateLevel(channel, level, { enabled })}
+                        />
+                        <span className="text-sm capitalize w-16">{level}</span>
+                        {implementation?.playsSound && (
+                          <select
+                            value={channel.levels[level].sound}
+                            onChange={(e) => updateLevel(channel, level, { sound: e.target.value })}
+                            className="flex-1 min-w-0 rounded-md border px-2 py-1 text-sm bg-transparent"
+                          >
+                            <option value={ROTATING_SOUND}>Rotate through all</option>
+                            <optgroup label="Tones">
+                              {TONE_LIBRARY.map((tone) => (
+                                <option key={tone.id} value={tone.id}>
+                                  {tone.label}
+                                </option>
+                              ))}
+                            </optgroup>
+                            {sounds.length > 0 && (
+                              <optgroup label="Uploaded">
+                                {sounds.map((sound) => (
+                                  <option key={sound.id} value={sound.id}>
+                                    {sound.name}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            )}
+                          </select>
+                        )}
+                        {implementation?.hasTemplates && (
+                          <input
+                            type="text"
+                            value={channel.levels[level].template ?? ""}
+                            onChange={(e) => updateLevel(channel, level, { template: e.target.value })}
+                            placeholder="{message}"
+                            className="flex-1 min-w-0 rounded-md border px-2 py-1 text-sm bg-transparent"
+                          />
+                        )}
+                        <Button
+                          onClick={() => testAlertChannel(channel, level, context)}
+                          variant="ghost"
+                          size="sm"
+                          disabled={!supported}
+                          aria-label={`Test ${level} level`}
+                        >
+                          <Play className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    {implementation?.hasTemplates && (
+                      <p className="text-xs text-gray-500">Placeholders: {TEMPLATE_PLACEHOLDERS}</p>
+                    )}
+
+                    {!isBuiltIn(channel) && (
+                      <Button
+                        onClick={() => onChange(channels.filter((candidate) => candidate.id !== channel.id))}
+                        variant="outline"
+                        size="sm"
+                        className="w-full bg-transparent text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Remove Channel
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+
+          {listAlertChannels()
+            .filter((channel) => channel.multiple)
+            .map((channel) => (
+              <Button
+                key={channel.kind}
+                onClick={() => addChannel(channel.kind, channel.label)}
+                variant="outline"
+                size="sm"
+                className="w-full bg-transparent"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add {channel.label} Channel
+              </Button>
+            ))}
+          <p className="text-xs text-gray-500">
+            Drivers stop noticing a sound they hear all the time. Mix tones across levels, add a second sound channel,
+            or let a level rotate through the whole library.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Uploaded Sounds</label>
+          {sounds.map((sound) => (
+            <div key={sound.id} className="flex items-center space-x-2">
+              <span className="flex-1 text-sm truncate">{sound.name}</span>
+              <Button
+                onClick={() => playSoundFile(sound, 0.8)}
+                variant="ghost"
+                size="sm"
+                aria-label={`Play ${sound.name}`}
+              >
+                <Play className="w-4 h-4" />
+              </Button>
+              <Button onClick={() => onDeleteSound(sound.id)} variant="ghost" size="sm" aria-label="Delete sound">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <label className="flex items-center justify-center space-x-2 rounded-md border py-1 text-sm cursor-pointer">
+            <Upload className="w-4 h-4" />
+            <span>Upload Sound</span>
+            <input
+              type="file"
+              accept="audio/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) uploadSound(file)
+                e.target.value = ""
+              }}
+            />
+          </label>
+          <p className="text-xs text-gray-500">
+            Stored on this device only. Up to {MAX_SOUND_BYTES / 1024 / 1024} MB per file.
+          </p>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="pt-2 space-y-2">
+          <label className="text-sm font-medium">Test Alerts</label>
+          <div className="grid grid-cols-2 gap-2">
+            <Button onClick={() => onTestAlert("low")} variant="outline" size="sm">
+              Low
+            </Button>
+            <Button onClick={() => onTestAlert("medium")} variant="outline" size="sm">
+              Medium
+            </Button>
+            <Button onClick={() => onTestAlert("high")} variant="outline" size="sm">
+              High
+            </Button>
+            <Button onClick={() => onTestAlert("critical")} variant="destructive" size="sm">
+              Critical
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
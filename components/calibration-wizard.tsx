@@ -0,0 +1,266 @@
+"use client"
+
+import { useEffect, useState, type MutableRefObject } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { AlertTriangle, Crosshair, Trash2 } from "lucide-react"
+import {
+  CALIBRATION_STEPS,
+  computeCalibration,
+  createCalibrationSession,
+  getCalibrationProgress,
+  type CalibrationProgress,
+  type CalibrationResult,
+  type CalibrationSession,
+} from "@/lib/drowsiness"
+import type { CalibrationProfile } from "@/lib/profiles"
+
+interface CalibrationWizardProps {
+  isStreaming: boolean
+  calibrationRef: MutableRefObject<CalibrationSession | null>
+  profiles: CalibrationProfile[]
+  activeProfileId: string | null
+  onSaveProfile: (profile: CalibrationProfile) => void
+  onUpdateProfile: (profile: CalibrationProfile) => void
+  onSelectProfile: (id: string | null) => void
+  onDeleteProfile: (id: string) => void
+}
+
+type WizardStatus = "idle" | "running" | "done" | "error"
+
+export function CalibrationWizard({
+  isStreaming,
+  calibrationRef,
+  profiles,
+  activeProfileId,
+  onSaveProfile,
+  onUpdateProfile,
+  onSelectProfile,
+  onDeleteProfile,
+}: CalibrationWizardProps) {
+  const [status, setStatus] = useState<WizardStatus>("idle")
+  const [progress, setProgress] = useState<CalibrationProgress | null>(null)
+  const [result, setResult] = useState<CalibrationResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [profileName, setProfileName] = useState("")
+  const [wearsGlasses, setWearsGlasses] = useState(false)
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId) ?? null
+
+  useEffect(() => {
+    if (status !== "running") return
+
+    const interval = setInterval(() => {
+      const session = calibrationRef.current
+      if (!session) return
+
+      const current = getCalibrationProgress(session, Date.now())
+      setProgress(current)
+
+      if (!current.step) {
+        calibrationRef.current = null
+        try {
+          setResult(computeCalibration(session.samples))
+          setStatus("done")
+        } catch (err) {
+          setError(err instanceof Error ? err.message : "Calibration failed")
+          setStatus("error")
+        }
+      }
+    }, 200)
+
+    return () => clearInterval(interval)
+  }, [status, calibrationRef])
+
+  // Abort a running calibration if the camera stops
+  useEffect(() => {
+    if (!isStreaming && status === "running") {
+      calibrationRef.current = null
+      setError("Camera stopped during calibration")
+      setStatus("error")
+    }
+  }, [isStreaming, status, calibrationRef])
+
+  const startCalibration = () => {
+    calibrationRef.current = createCalibrationSession(Date.now())
+    setResult(null)
+    setError(null)
+    setProgress(null)
+    setStatus("running")
+  }
+
+  const cancelCalibration = () => {
+    calibrationRef.current = null
+    setStatus("idle")
+  }
+
+  const saveProfile = () => {
+    if (!result) return
+    const createdAt = Date.now()
+    onSaveProfile({
+      id: `profile_${createdAt}`,
+      name: profileName.trim() || `Profile ${new Date(createdAt).toLocaleDateString()}`,
+      createdAt,
+      earThreshold: result.earThreshold,
+      blinkThreshold: result.blinkThreshold,
+      openEAR: result.openEAR,
+      closedEAR: result.closedEAR,
+      wearsGlasses,
+    })
+    setProfileName("")
+    setWearsGlasses(false)
+    setResult(null)
+    setStatus("idle")
+  }
+
+  const totalDuration = CALIBRATION_STEPS.reduce((sum, step) => sum + step.durationMs, 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Crosshair className="w-5 h-5" />
+          <span>Personal Calibration</span>
+        </CardTitle>
+        <CardDescription>Derive EAR thresholds from your own eyes and camera setup</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status === "idle" && (
+          <Button onClick={startCalibration} disabled={!isStreaming} variant="outline" className="w-full bg-transparent">
+            {isStreaming ? "Start Calibration" : "Start detection to calibrate"}
+          </Button>
+        )}
+
+        {status === "running" && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Badge variant="secondary">
+                Step {Math.min((progress?.stepIndex ?? 0) + 1, CALIBRATION_STEPS.length)} of {CALIBRATION_STEPS.length}
+              </Badge>
+              <span className="text-sm font-mono">{Math.ceil((progress?.remainingMs ?? 0) / 1000)}s</span>
+            </div>
+            <p className="text-sm font-medium">{progress?.step?.instruction ?? CALIBRATION_STEPS[0].instruction}</p>
+            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+              <div
+                className="h-2 rounded-full bg-blue-600 transition-all duration-200"
+                style={{
+                  width: `${
+                    calibrationRef.current
+                      ? Math.min(100, ((Date.now() - calibrationRef.current.startTime) / totalDuration) * 100)
+                      : 100
+                  }%`,
+                }}
+              ></div>
+            </div>
+            <Button onClick={cancelCalibration} variant="outline" size="sm" className="w-full bg-transparent">
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {status === "done" && result && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-center text-xs">
+              <div className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="font-mono text-sm">{result.openEAR.toFixed(3)}</div>
+                <div className="text-gray-600 dark:text-gray-400">Open</div>
+              </div>
+              <div className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="font-mono text-sm">{result.blinkEAR.toFixed(3)}</div>
+                <div className="text-gray-600 dark:text-gray-400">Blink</div>
+              </div>
+              <div className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="font-mono text-sm">{result.closedEAR.toFixed(3)}</div>
+                <div className="text-gray-600 dark:text-gray-400">Closed</div>
+              </div>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span>EAR Threshold</span>
+              <span className="font-mono">{result.earThreshold.toFixed(3)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span>Blink Threshold</span>
+              <span className="font-mono">{result.blinkThreshold.toFixed(3)}</span>
+            </div>
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Profile name"
+              className="w-full rounded-md border px-3 py-1 text-sm bg-transparent"
+            />
+            <div className="flex items-center justify-between">
+              <label className="text-sm">I wear glasses</label>
+              <Switch checked={wearsGlasses} onCheckedChange={setWearsGlasses} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button onClick={saveProfile} size="sm">
+                Save Profile
+              </Button>
+              <Button onClick={() => setStatus("idle")} variant="outline" size="sm">
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status === "error" && (
+          <div className="space-y-3">
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+            <Button onClick={() => setStatus("idle")} variant="outline" size="sm" className="w-full bg-transparent">
+              Back
+            </Button>
+          </div>
+        )}
+
+        {profiles.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Active Profile</label>
+            <div className="flex items-center space-x-2">
+              <select
+                value={activeProfileId ?? ""}
+                onChange={(e) => onSelectProfile(e.target.value || null)}
+                className="flex-1 rounded-md border px-2 py-1 text-sm bg-transparent"
+              >
+                <option value="">Default thresholds</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name} (EAR {profile.earThreshold.toFixed(2)})
+                  </option>
+                ))}
+              </select>
+              {activeProfileId && (
+                <Button
+                  onClick={() => onDeleteProfile(activeProfileId)}
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Delete profile"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            {activeProfile && (
+              <div className="flex items-center justify-between">
+                <label className="text-sm">I wear glasses</label>
+                <Switch
+                  checked={activeProfile.wearsGlasses}
+                  onCheckedChange={(checked) => onUpdateProfile({ ...activeProfile, wearsGlasses: checked })}
+                />
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              The active profile is applied each time detection starts. With glasses on, alerts lean on head pose,
+              yawns and blink rhythm rather than how open the eyes look.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,455 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { AlertTriangle, Download, Plus, RotateCcw, ShieldAlert, Trash2, Upload, X } from "lucide-react"
+import type { AlertLevel } from "@/lib/drowsiness"
+import {
+  ALERT_LEVELS,
+  DEFAULT_ESCALATION_POLICY,
+  downloadPolicy,
+  parsePolicy,
+  POLICY_METRICS,
+  POLICY_OPERATORS,
+  type EscalationPolicy,
+  type PolicyCondition,
+  type PolicyMetric,
+  type PolicyOperator,
+  type PolicyRule,
+} from "@/lib/escalation"
+
+interface EscalationPolicyEditorProps {
+  policy: EscalationPolicy
+  onChange: (policy: EscalationPolicy) => void
+}
+
+const LEVEL_BADGE_CLASSES: Record<AlertLevel, string> = {
+  low: "bg-blue-600",
+  medium: "bg-yellow-600",
+  high: "bg-orange-600",
+  critical: "bg-red-600",
+}
+
+const inputClassName = "w-full rounded-md border px-2 py-1 text-sm bg-transparent"
+
+// Empty or invalid number fields fall back to zero rather than NaN
+const toNumber = (value: string) => (Number.isFinite(Number.parseFloat(value)) ? Number.parseFloat(value) : 0)
+
+export function EscalationPolicyEditor({ policy, onChange }: EscalationPolicyEditorProps) {
+  const [expandedRuleId, setExpandedRuleId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateRule = (id: string, update: Partial<PolicyRule>) => {
+    onChange({ ...policy, rules: policy.rules.map((rule) => (rule.id === id ? { ...rule, ...update } : rule)) })
+  }
+
+  const updateCondition = (rule: PolicyRule, index: number, update: Partial<PolicyCondition>) => {
+    updateRule(rule.id, {
+      conditions: rule.conditions.map((condition, i) => (i === index ? { ...condition, ...update } : condition)),
+    })
+  }
+
+  const addRule = () => {
+    const id = `rule_${Date.now()}`
+    onChange({
+      ...policy,
+      rules: [
+        ...policy.rules,
+        {
+          id,
+          name: "New rule",
+          enabled: true,
+          level: "medium",
+          conditions: [{ metric: "drowsinessScore", operator: ">=", value: 50 }],
+          holdSeconds: 0,
+          repeat: false,
+          message: "Drowsiness score at {drowsinessScore}.",
+        },
+      ],
+    })
+    setExpandedRuleId(id)
+  }
+
+  const deleteRule = (id: string) => {
+    onChange({ ...policy, rules: policy.rules.filter((rule) => rule.id !== id) })
+  }
+
+  const importPolicy = async (file: File) => {
+    try {
+      onChange(parsePolicy(await file.text()))
+      setError(null)
+      setExpandedRuleId(null)
+      console.log(`[v0] Imported escalation policy from ${file.name}`)
+    } catch (err) {
+      console.error("[v0] Failed to import escalation policy:", err)
+      setError(`Could not import ${file.name}: ${err instanceof Error ? err.message : "unknown error"}`)
+    }
+  }
+
+  const resetPolicy = () => {
+    onChange(DEFAULT_ESCALATION_POLICY)
+    setError(null)
+    setExpandedRuleId(null)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldAlert className="w-5 h-5" />
+          <span>Escalation Policy</span>
+        </CardTitle>
+        <CardDescription>Which signals raise which alert level, and how unanswered alerts escalate</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          type="text"
+          value={policy.name}
+          onChange={(e) => onChange({ ...policy, name: e.target.value })}
+          placeholder="Policy name"
+          className="w-full rounded-md border px-3 py-1 text-sm bg-transparent"
+        />
+
+        <div className="space-y-2">
+          {policy.rules.map((rule) => (
+            <div key={rule.id} className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+              <div className="flex items-center space-x-2">
+                <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule(rule.id, { enabled })} />
+                <button
+                  type="button"
+                  onClick={() => setExpandedRuleId(expandedRuleId === rule.id ? null : rule.id)}
+                  className={`flex-1 text-left text-sm truncate ${rule.enabled ? "" : "text-gray-500"}`}
+                >
+                  {rule.name}
+                </button>
+                <Badge className={LEVEL_BADGE_CLASSES[rule.level]}>{rule.level}</Badge>
+              </div>
+
+              {expandedRuleId === rule.id && (
+                <div className="space-y-2">
+                  <input
+                    type="text"
+                    value={rule.name}
+                    onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                    placeholder="Rule name"
+                    className={inputClassName}
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-xs text-gray-600 dark:text-gray-400">Level</label>
+                      <select
+                        value={rule.level}
+                        onChange={(e) => updateRule(rule.id, { level: e.target.value as AlertLevel })}
+                        className={inputClassName}
+                      >
+                        {ALERT_LEVELS.map((level) => (
+                          <option key={level} value={level}>
+                            {level}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-600 dark:text-gray-400">Hold (s)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={rule.holdSeconds}
+                        onChange={(e) => updateRule(rule.id, { holdSeconds: Math.max(0, toNumber(e.target.value)) })}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+
+                  <label className="text-xs text-gray-600 dark:text-gray-400">When all of these hold</label>
+                  {rule.conditions.map((condition, index) => (
+                    <div key={index} className="flex items-center space-x-1">
+                      <select
+                        value={condition.metric}
+                        onChange={(e) => updateCondition(rule, index, { metric: e.target.value as PolicyMetric })}
+                        className="flex-1 min-w-0 rounded-md border px-2 py-1 text-sm bg-transparent"
+                      >
+                        {POLICY_METRICS.map(({ metric, label, unit }) => (
+                          <option key={metric} value={metric}>
+                            {label} ({unit})
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={condition.operator}
+                        onChange={(e) => updateCondition(rule, index, { operator: e.target.value as PolicyOperator })}
+                        className="w-14 rounded-md border px-1 py-1 text-sm bg-transparent"
+                      >
+                        {POLICY_OPERATORS.map((operator) => (
+                          <option key={operator} value={operator}>
+                            {operator}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="any"
+                        value={condition.value}
+                        onChange={(e) => updateCondition(rule, index, { value: toNumber(e.target.value) })}
+                        className="w-16 rounded-md border px-2 py-1 text-sm bg-transparent"
+                      />
+                      <Button
+                        onClick={() =>
+                          updateRule(rule.id, { conditions: rule.conditions.filter((_, i) => i !== index) })
+                        }
+                        variant="ghost"
+                        size="sm"
+                        disabled={rule.conditions.length === 1}
+                        aria-label="Remove condition"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    onClick={() =>
+                      updateRule(rule.id, {
+                        conditions: [...rule.conditions, { metric: "drowsinessScore", operator: ">=", value: 50 }],
+                      })
+                    }
+                    variant="outline"
+                    size="sm"
+                    className="w-full bg-transparent"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Condition
+                  </Button>
+
+                  <div>
+                    <label className="text-xs text-gray-600 dark:text-gray-400">Message</label>
+                    <input
+                      type="text"
+                      value={rule.message}
+                      onChange={(e) => updateRule(rule.id, { message: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm">Repeat while active</label>
+                    <Switch checked={rule.repeat} onCheckedChange={(repeat) => updateRule(rule.id, { repeat })} />
+                  </div>
+                  <Button
+                    onClick={() => deleteRule(rule.id)}
+                    variant="outline"
+                    size="sm"
+                    className="w-full bg-transparent text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete Rule
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+          <Button onClick={addRule} variant="outline" size="sm" className="w-full bg-transparent">
+            <Plus className="w-4 h-4 mr-1" />
+            Add Rule
+          </Button>
+          <p className="text-xs text-gray-500">
+            The highest active level wins. Use {"{metricName}"} in a message to insert the current value, e.g.{" "}
+            {"{eyeClosureSeconds}"}.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Cooldown per Level (s)</label>
+          <div className="grid grid-cols-4 gap-2">
+            {ALERT_LEVELS.map((level) => (
+              <div key={level}>
+                <label className="text-xs text-gray-600 dark:text-gray-400 capitalize">{level}</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={policy.cooldownSeconds[level]}
+                  onChange={(e) =>
+                    onChange({
+                      ...policy,
+                      cooldownSeconds: { ...policy.cooldownSeconds, [level]: Math.max(0, toNumber(e.target.value)) },
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <label className="text-sm font-medium">Clear After</label>
+            <span className="text-sm font-mono">{policy.clearSeconds}s</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="10"
+            step="0.5"
+            value={policy.clearSeconds}
+            onChange={(e) => onChange({ ...policy, clearSeconds: Number.parseFloat(e.target.value) })}
+            className="w-full"
+          />
+          <p className="text-xs text-gray-500">How long a rule's conditions must stay false before it stops alerting</p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Escalate Unanswered Alerts</label>
+            <Switch
+              checked={policy.escalation.enabled}
+              onCheckedChange={(enabled) => onChange({ ...policy, escalation: { ...policy.escalation, enabled } })}
+            />
+          </div>
+          {policy.escalation.enabled && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-xs text-gray-600 dark:text-gray-400">After (s)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={policy.escalation.afterSeconds}
+                  onChange={(e) =>
+                    onChange({
+                      ...policy,
+                      escalation: { ...policy.escalation, afterSeconds: Math.max(1, toNumber(e.target.value)) },
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="text-xs text-gray-600 dark:text-gray-400">Up to</label>
+                <select
+                  value={policy.escalation.maxLevel}
+                  onChange={(e) =>
+                    onChange({
+                      ...policy,
+                      escalation: { ...policy.escalation, maxLevel: e.target.value as AlertLevel },
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  {ALERT_LEVELS.map((level) => (
+                    <option key={level} value={level}>
+                      {level}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">Dismissing an alert counts as a response and stops it escalating</p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Require Acknowledgement</label>
+            <Switch
+              checked={policy.acknowledgement.enabled}
+              onCheckedChange={(enabled) =>
+                onChange({ ...policy, acknowledgement: { ...policy.acknowledgement, enabled } })
+              }
+            />
+          </div>
+          {policy.acknowledgement.enabled && (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-xs text-gray-600 dark:text-gray-400">From level</label>
+                  <select
+                    value={policy.acknowledgement.minLevel}
+                    onChange={(e) =>
+                      onChange({
+                        ...policy,
+                        acknowledgement: { ...policy.acknowledgement, minLevel: e.target.value as AlertLevel },
+                      })
+                    }
+                    className={inputClassName}
+                  >
+                    {ALERT_LEVELS.map((level) => (
+                      <option key={level} value={level}>
+                        {level}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-600 dark:text-gray-400">Answer within (s)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={policy.acknowledgement.timeoutSeconds}
+                    onChange={(e) =>
+                      onChange({
+                        ...policy,
+                        acknowledgement: {
+                          ...policy.acknowledgement,
+                          timeoutSeconds: Math.max(1, toNumber(e.target.value)),
+                        },
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="text-sm">Accept a double blink</label>
+                <Switch
+                  checked={policy.acknowledgement.doubleBlink}
+                  onCheckedChange={(doubleBlink) =>
+                    onChange({ ...policy, acknowledgement: { ...policy.acknowledgement, doubleBlink } })
+                  }
+                />
+              </div>
+            </>
+          )}
+          <p className="text-xs text-gray-500">
+            Alerts at this level can't be dismissed: the driver has to tap a target that moves each time. No answer in
+            time raises the next level, and every reaction time is logged to the session.
+          </p>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <Button onClick={() => downloadPolicy(policy)} variant="outline" size="sm" className="bg-transparent">
+            <Download className="w-4 h-4 mr-1" />
+            Export
+          </Button>
+          <label className="inline-flex items-center justify-center rounded-md border px-3 text-sm cursor-pointer">
+            <Upload className="w-4 h-4 mr-1" />
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) importPolicy(file)
+                e.target.value = ""
+              }}
+            />
+          </label>
+          <Button onClick={resetPolicy} variant="outline" size="sm" className="bg-transparent">
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reset
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,224 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { KeyRound, Plus, RefreshCw, Send, Trash2, Webhook } from "lucide-react"
+import {
+  createWebhookEndpoint,
+  generateSecret,
+  WEBHOOK_EVENT_TYPES,
+  type DeliveryLogEntry,
+  type DeliveryStatus,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from "@/lib/webhooks"
+
+interface WebhookSettingsProps {
+  endpoints: WebhookEndpoint[]
+  log: DeliveryLogEntry[]
+  queueSize: number
+  onChange: (endpoints: WebhookEndpoint[]) => void
+  onTest: (endpoint: WebhookEndpoint) => void
+  onRetry: () => void
+  onClearLog: () => void
+}
+
+const STATUS_VARIANTS: Record<DeliveryStatus, "default" | "secondary" | "destructive"> = {
+  delivered: "default",
+  retrying: "secondary",
+  failed: "destructive",
+}
+
+const isValidUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === "http:" || protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+export function WebhookSettings({
+  endpoints,
+  log,
+  queueSize,
+  onChange,
+  onTest,
+  onRetry,
+  onClearLog,
+}: WebhookSettingsProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const updateEndpoint = (id: string, changes: Partial<WebhookEndpoint>) => {
+    onChange(endpoints.map((endpoint) => (endpoint.id === id ? { ...endpoint, ...changes } : endpoint)))
+  }
+
+  const toggleEvent = (endpoint: WebhookEndpoint, type: WebhookEventType, enabled: boolean) => {
+    const events = enabled ? [...endpoint.events, type] : endpoint.events.filter((event) => event !== type)
+    updateEndpoint(endpoint.id, { events })
+  }
+
+  const addEndpoint = () => {
+    const endpoint = createWebhookEndpoint()
+    onChange([...endpoints, endpoint])
+    setExpandedId(endpoint.id)
+  }
+
+  const removeEndpoint = (id: string) => {
+    onChange(endpoints.filter((endpoint) => endpoint.id !== id))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>Forward alerts and session events to a dispatch system</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {endpoints.map((endpoint) => {
+            const validUrl = isValidUrl(endpoint.url)
+            const expanded = expandedId === endpoint.id
+
+            return (
+              <div key={endpoint.id} className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Webhook className="w-4 h-4" />
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expanded ? null : endpoint.id)}
+                    className="flex-1 text-left text-sm font-medium truncate"
+                  >
+                    {endpoint.name}
+                    {!validUrl && <span className="text-xs font-normal text-gray-500"> · needs a URL</span>}
+                  </button>
+                  <Button
+                    onClick={() => onTest(endpoint)}
+                    variant="ghost"
+                    size="sm"
+                    disabled={!validUrl}
+                    aria-label={`Send a test event to ${endpoint.name}`}
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                  <Switch
+                    checked={endpoint.enabled && validUrl}
+                    onCheckedChange={(checked) => updateEndpoint(endpoint.id, { enabled: checked })}
+                    disabled={!validUrl}
+                  />
+                </div>
+
+                {expanded && (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={endpoint.name}
+                      onChange={(e) => updateEndpoint(endpoint.id, { name: e.target.value })}
+                      placeholder="Endpoint name"
+                      className="w-full rounded-md border px-2 py-1 text-sm bg-transparent"
+                    />
+                    <input
+                      type="url"
+                      value={endpoint.url}
+                      onChange={(e) => updateEndpoint(endpoint.id, { url: e.target.value.trim() })}
+                      placeholder="https://dispatch.example.com/hooks/drowsiness"
+                      className="w-full rounded-md border px-2 py-1 text-sm bg-transparent"
+                    />
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={endpoint.secret}
+                        onChange={(e) => updateEndpoint(endpoint.id, { secret: e.target.value })}
+                        placeholder="Signing secret (leave empty to send unsigned)"
+                        className="flex-1 rounded-md border px-2 py-1 text-sm font-mono bg-transparent"
+                      />
+                      <Button
+                        onClick={() => updateEndpoint(endpoint.id, { secret: generateSecret() })}
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Generate a new secret"
+                      >
+                        <KeyRound className="w-4 h-4" />
+                      </Button>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      {WEBHOOK_EVENT_TYPES.map(({ type, label }) => (
+                        <label key={type} className="flex items-center justify-between text-xs">
+                          <span>{label}</span>
+                          <Switch
+                            checked={endpoint.events.includes(type)}
+                            onCheckedChange={(checked) => toggleEvent(endpoint, type, checked)}
+                          />
+                        </label>
+                      ))}
+                    </div>
+
+                    <Button
+                      onClick={() => removeEndpoint(endpoint.id)}
+                      variant="ghost"
+                      size="sm"
+                      className="w-full text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Remove Endpoint
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+
+          <Button onClick={addEndpoint} variant="outline" size="sm" className="w-full bg-transparent">
+            <Plus className="w-4 h-4 mr-1" />
+            Add Endpoint
+          </Button>
+          <p className="text-xs text-gray-500">
+            Payloads are JSON, signed with HMAC-SHA256 in the X-Drowsiness-Signature header. Only live camera
+            sessions are forwarded. Run <code>npm run webhooks</code> for a local test receiver.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span>
+            Queued deliveries: <span className="font-medium">{queueSize}</span>
+          </span>
+          <Button onClick={onRetry} variant="outline" size="sm" disabled={queueSize === 0}>
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Retry Now
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Delivery Log</label>
+            <Button onClick={onClearLog} variant="ghost" size="sm" disabled={log.length === 0}>
+              Clear
+            </Button>
+          </div>
+          {log.length === 0 ? (
+            <p className="text-xs text-gray-500">No deliveries yet</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {log.map((entry) => (
+                <div key={entry.id} className="flex items-center space-x-2 text-xs">
+                  <Badge variant={STATUS_VARIANTS[entry.status]}>{entry.status}</Badge>
+                  <span className="flex-1 truncate">
+                    {entry.eventType} → {entry.endpointName}
+                    {entry.error && <span className="text-gray-500"> · {entry.error}</span>}
+                  </span>
+                  <span className="text-gray-500">
+                    #{entry.attempt} {new Date(entry.timestamp).toLocaleTimeString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
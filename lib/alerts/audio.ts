@@ -0,0 +1,110 @@
+import { getTone, ROTATING_SOUND, TONE_LIBRARY, type Tone } from "./tones"
+import type { CustomSound } from "./types"
+
+// One context for the whole app: browsers cap how many can be open, and each needs a user gesture to start
+let audioContext: AudioContext | null = null
+const playingNodes = new Set<OscillatorNode>()
+const playingElements = new Set<HTMLAudioElement>()
+const soundUrls = new WeakMap<Blob, string>()
+const rotation = new Map<string, number>()
+
+export function supportsAudio() {
+  return typeof window !== "undefined" && ("AudioContext" in window || "webkitAudioContext" in window)
+}
+
+function getAudioContext() {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext
+    audioContext = new AudioContextClass()
+  }
+  if (audioContext.state === "suspended") {
+    audioContext.resume().catch(() => {})
+  }
+  return audioContext
+}
+
+export function playTone(tone: Tone, volume: number) {
+  const context = getAudioContext()
+  const startAt = context.currentTime
+
+  for (const note of tone.notes) {
+    const oscillator = context.createOscillator()
+    const gainNode = context.createGain()
+    oscillator.connect(gainNode)
+    gainNode.connect(context.destination)
+
+    const start = startAt + note.start / 1000
+    const end = start + note.duration / 1000
+    oscillator.type = note.wave ?? "sine"
+    oscillator.frequency.setValueAtTime(note.frequency, start)
+    if (note.endFrequency) {
+      oscillator.frequency.linearRampToValueAtTime(note.endFrequency, end)
+    }
+
+    gainNode.gain.setValueAtTime(0, start)
+    gainNode.gain.linearRampToValueAtTime(volume, start + 0.01)
+    gainNode.gain.exponentialRampToValueAtTime(0.001, end)
+
+    oscillator.onended = () => playingNodes.delete(oscillator)
+    playingNodes.add(oscillator)
+    oscillator.start(start)
+    oscillator.stop(end)
+  }
+}
+
+export function getSoundUrl(sound: CustomSound) {
+  let url = soundUrls.get(sound.data)
+  if (!url) {
+    url = URL.createObjectURL(sound.data)
+    soundUrls.set(sound.data, url)
+  }
+  return url
+}
+
+export function playSoundFile(sound: CustomSound, volume: number) {
+  const audio = new Audio(getSoundUrl(sound))
+  audio.volume = volume
+  audio.onended = () => playingElements.delete(audio)
+  playingElements.add(audio)
+  audio.play().catch((err) => {
+    playingElements.delete(audio)
+    console.error(`[v0] Could not play sound "${sound.name}":`, err)
+  })
+}
+
+// Plays a library tone or an uploaded sound; the rotating choice moves on each time the same key plays
+export function playSound(soundId: string, volume: number, sounds: CustomSound[], rotationKey = soundId) {
+  if (soundId === ROTATING_SOUND) {
+    const choices = [...TONE_LIBRARY.map((tone) => tone.id), ...sounds.map((sound) => sound.id)]
+    const next = ((rotation.get(rotationKey) ?? -1) + 1) % choices.length
+    rotation.set(rotationKey, next)
+    soundId = choices[next]
+  }
+
+  const sound = sounds.find((candidate) => candidate.id === soundId)
+  if (sound) {
+    playSoundFile(sound, volume)
+    return
+  }
+  // A deleted upload still has to make some noise
+  const tone = getTone(soundId)
+  if (!tone) {
+    console.error(`[v0] Unknown alert sound "${soundId}", playing the default tone`)
+  }
+  playTone(tone ?? TONE_LIBRARY[0], volume)
+}
+
+export function stopSounds() {
+  for (const oscillator of playingNodes) {
+    try {
+      oscillator.stop()
+    } catch {
+      // Already stopped
+    }
+  }
+  playingNodes.clear()
+  for (const audio of playingElements) {
+    audio.pause()
+  }
+  playingElements.clear()
+}
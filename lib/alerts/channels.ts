@@ -0,0 +1,94 @@
+import { playSound, stopSounds, supportsAudio } from "./audio"
+import { DEFAULT_VOICE_SETTINGS, speak, stopSpeech, supportsSpeech } from "./speech"
+import { formatAlertTemplate } from "./template"
+import type { AlertChannel } from "./types"
+
+const VIBRATION_PATTERNS = {
+  low: [200],
+  medium: [200, 100, 200],
+  high: [300, 100, 300, 100, 300],
+  critical: [500, 200, 500, 200, 500, 200, 500],
+}
+
+export const soundChannel: AlertChannel = {
+  kind: "sound",
+  label: "Sound",
+  playsSound: true,
+  hasTemplates: false,
+  multiple: true,
+  isSupported: supportsAudio,
+  deliver: (alert, config, context) => {
+    playSound(config.levels[alert.level].sound, config.volume, context.sounds, `${config.id}:${alert.level}`)
+  },
+  stop: stopSounds,
+}
+
+export const visualChannel: AlertChannel = {
+  kind: "visual",
+  label: "On-screen banner",
+  playsSound: false,
+  hasTemplates: false,
+  multiple: false,
+  isSupported: () => true,
+  deliver: (alert, _config, context) => context.showVisual(alert),
+}
+
+export const notificationChannel: AlertChannel = {
+  kind: "notification",
+  label: "Browser notification",
+  playsSound: false,
+  hasTemplates: false,
+  multiple: false,
+  isSupported: () => typeof window !== "undefined" && "Notification" in window,
+  deliver: (alert) => {
+    if (Notification.permission !== "granted") return
+    const notification = new Notification("Drowsiness Alert", {
+      body: alert.message,
+      icon: "/icons/icon-192.png",
+      badge: "/icons/icon-192.png",
+      tag: "drowsiness-alert",
+      requireInteraction: alert.level === "critical",
+      // Sound comes from the sound channels, so the system chime doesn't double up
+      silent: true,
+    })
+
+    notification.onclick = () => {
+      window.focus()
+      notification.close()
+    }
+
+    // Auto-close notification after 5 seconds unless critical
+    if (alert.level !== "critical") {
+      setTimeout(() => notification.close(), 5000)
+    }
+  },
+}
+
+export const vibrationChannel: AlertChannel = {
+  kind: "vibration",
+  label: "Vibration",
+  playsSound: false,
+  hasTemplates: false,
+  multiple: false,
+  isSupported: () => typeof navigator !== "undefined" && "vibrate" in navigator,
+  deliver: (alert) => {
+    navigator.vibrate(VIBRATION_PATTERNS[alert.level])
+  },
+  stop: () => {
+    if ("vibrate" in navigator) navigator.vibrate(0)
+  },
+}
+
+export const voiceChannel: AlertChannel = {
+  kind: "voice",
+  label: "Voice",
+  playsSound: false,
+  hasTemplates: true,
+  multiple: false,
+  isSupported: supportsSpeech,
+  deliver: (alert, config) => {
+    const text = formatAlertTemplate(config.levels[alert.level].template || "{message}", alert)
+    speak(text, alert.level, config.voice ?? DEFAULT_VOICE_SETTINGS, config.volume)
+  },
+  stop: stopSpeech,
+}
@@ -0,0 +1,60 @@
+import type { AlertLevel } from "@/lib/drowsiness"
+import { DEFAULT_VOICE_SETTINGS } from "./speech"
+import type { AlertChannelConfig, ChannelLevelSettings } from "./types"
+
+const allLevels = (sounds: Record<AlertLevel, string>): Record<AlertLevel, ChannelLevelSettings> => ({
+  low: { enabled: true, sound: sounds.low },
+  medium: { enabled: true, sound: sounds.medium },
+  high: { enabled: true, sound: sounds.high },
+  critical: { enabled: true, sound: sounds.critical },
+})
+
+const NO_SOUNDS: Record<AlertLevel, string> = { low: "", medium: "", high: "", critical: "" }
+
+// The built-in channels, with the beep patterns the app always used
+export const DEFAULT_ALERT_CHANNELS: AlertChannelConfig[] = [
+  {
+    id: "sound",
+    kind: "sound",
+    name: "Sound",
+    enabled: true,
+    volume: 0.8,
+    levels: allLevels({ low: "beep", medium: "double-beep", high: "triple-beep", critical: "alarm" }),
+  },
+  {
+    id: "voice",
+    kind: "voice",
+    name: "Voice",
+    enabled: true,
+    volume: 1,
+    // Spoken only for the levels where looking at the screen is least safe to ask for
+    levels: {
+      low: { enabled: false, sound: "", template: "{message}" },
+      medium: { enabled: false, sound: "", template: "{message}" },
+      high: { enabled: true, sound: "", template: "{message}" },
+      critical: { enabled: true, sound: "", template: "Wake up! {message}" },
+    },
+    voice: DEFAULT_VOICE_SETTINGS,
+  },
+  { id: "visual", kind: "visual", name: "On-screen banner", enabled: true, volume: 0, levels: allLevels(NO_SOUNDS) },
+  {
+    id: "notification",
+    kind: "notification",
+    name: "Browser notification",
+    enabled: true,
+    volume: 0,
+    levels: allLevels(NO_SOUNDS),
+  },
+  { id: "vibration", kind: "vibration", name: "Vibration", enabled: true, volume: 0, levels: allLevels(NO_SOUNDS) },
+]
+
+export function createChannelConfig(kind: string, name: string): AlertChannelConfig {
+  return {
+    id: `channel_${Date.now()}`,
+    kind,
+    name,
+    enabled: true,
+    volume: 0.8,
+    levels: allLevels({ low: "chime", medium: "chime", high: "siren", critical: "siren" }),
+  }
+}
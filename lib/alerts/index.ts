@@ -0,0 +1,9 @@
+export * from "./types"
+export * from "./tones"
+export * from "./audio"
+export * from "./speech"
+export * from "./template"
+export * from "./channels"
+export * from "./registry"
+export * from "./defaults"
+export * from "./store"
@@ -0,0 +1,59 @@
+import type { AlertLevel } from "@/lib/drowsiness"
+import { notificationChannel, soundChannel, vibrationChannel, visualChannel, voiceChannel } from "./channels"
+import type { AlertChannel, AlertChannelConfig, AlertChannelContext, AlertDispatch } from "./types"
+
+const channels = new Map<string, AlertChannel>()
+
+// Further channel kinds plug in here; configs naming a kind that isn't registered are kept but skipped
+export function registerAlertChannel(channel: AlertChannel) {
+  channels.set(channel.kind, channel)
+}
+
+export function getAlertChannel(kind: string) {
+  return channels.get(kind) ?? null
+}
+
+export function listAlertChannels() {
+  return [...channels.values()]
+}
+
+for (const channel of [soundChannel, voiceChannel, visualChannel, notificationChannel, vibrationChannel]) {
+  registerAlertChannel(channel)
+}
+
+function deliver(
+  channel: AlertChannel,
+  alert: AlertDispatch,
+  config: AlertChannelConfig,
+  context: AlertChannelContext,
+) {
+  // One broken channel must not keep the alert from reaching the others
+  try {
+    channel.deliver(alert, config, context)
+  } catch (err) {
+    console.error(`[v0] Alert channel "${config.name}" failed:`, err)
+  }
+}
+
+export function dispatchAlert(configs: AlertChannelConfig[], alert: AlertDispatch, context: AlertChannelContext) {
+  for (const config of configs) {
+    const channel = getAlertChannel(config.kind)
+    if (!channel || !config.enabled || !config.levels[alert.level]?.enabled || !channel.isSupported()) continue
+    deliver(channel, alert, config, context)
+  }
+}
+
+// Delivers to one channel even when it is switched off, so settings can be tried before enabling them
+export function testAlertChannel(config: AlertChannelConfig, level: AlertLevel, context: AlertChannelContext) {
+  const channel = getAlertChannel(config.kind)
+  if (!channel?.isSupported()) return
+  const timestamp = Date.now()
+  const message = `Test: ${config.name} at ${level} level`
+  deliver(channel, { level, message, timestamp, test: true, values: {} }, config, context)
+}
+
+export function stopAlertChannels() {
+  for (const channel of channels.values()) {
+    channel.stop?.()
+  }
+}
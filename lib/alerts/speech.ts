@@ -0,0 +1,93 @@
+import type { AlertLevel } from "@/lib/drowsiness"
+import type { VoiceSettings } from "./types"
+
+interface QueuedSpeech {
+  text: string
+  level: AlertLevel
+  queuedAt: number
+  settings: VoiceSettings
+  volume: number
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { voiceURI: "", lang: "", rate: 1 }
+
+const PRIORITY: Record<AlertLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 }
+// Prompts waiting longer than this describe a moment that has passed
+const STALE_MS = 10000
+// Beyond this the least urgent prompts are dropped rather than talking on for a minute
+const MAX_QUEUED = 3
+
+let speaking: QueuedSpeech | null = null
+const queue: QueuedSpeech[] = []
+
+export function supportsSpeech() {
+  return typeof window !== "undefined" && "speechSynthesis" in window
+}
+
+export function listVoices() {
+  return supportsSpeech() ? speechSynthesis.getVoices() : []
+}
+
+// Browsers load their voice list asynchronously, so the first call can come back empty
+export function watchVoices(onChange: (voices: SpeechSynthesisVoice[]) => void) {
+  if (!supportsSpeech()) return () => {}
+  const update = () => onChange(speechSynthesis.getVoices())
+  update()
+  speechSynthesis.addEventListener("voiceschanged", update)
+  return () => speechSynthesis.removeEventListener("voiceschanged", update)
+}
+
+function speakNext() {
+  speaking = null
+  const now = Date.now()
+  let next = queue.shift()
+  while (next && now - next.queuedAt > STALE_MS) {
+    next = queue.shift()
+  }
+  if (!next) return
+
+  const item = next
+  const utterance = new SpeechSynthesisUtterance(item.text)
+  const voice = speechSynthesis.getVoices().find((candidate) => candidate.voiceURI === item.settings.voiceURI)
+  if (voice) utterance.voice = voice
+  utterance.lang = item.settings.lang || voice?.lang || ""
+  utterance.rate = item.settings.rate
+  utterance.volume = item.volume
+  // A cancelled utterance still reports its end, which must not skip whatever replaced it
+  utterance.onend = () => {
+    if (speaking === item) speakNext()
+  }
+  utterance.onerror = (event) => {
+    if (event.error !== "interrupted" && event.error !== "canceled") {
+      console.error(`[v0] Speech synthesis failed: ${event.error}`)
+    }
+    if (speaking === item) speakNext()
+  }
+
+  speaking = item
+  speechSynthesis.speak(utterance)
+}
+
+// Queues a prompt so it never talks over another one. More urgent prompts go first, repeats of a prompt that is
+// still waiting are dropped, and a critical prompt cuts off anything less urgent.
+export function speak(text: string, level: AlertLevel, settings: VoiceSettings, volume: number) {
+  if (!supportsSpeech() || !text) return
+  if (speaking?.text === text || queue.some((item) => item.text === text)) return
+
+  const item: QueuedSpeech = { text, level, queuedAt: Date.now(), settings, volume }
+  const index = queue.findIndex((queued) => PRIORITY[queued.level] < PRIORITY[level])
+  queue.splice(index === -1 ? queue.length : index, 0, item)
+  queue.splice(MAX_QUEUED)
+
+  if (speaking && level === "critical" && speaking.level !== "critical") {
+    speaking = null
+    speechSynthesis.cancel()
+  }
+  if (!speaking) speakNext()
+}
+
+export function stopSpeech() {
+  queue.length = 0
+  speaking = null
+  if (supportsSpeech()) speechSynthesis.cancel()
+}
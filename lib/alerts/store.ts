@@ -0,0 +1,47 @@
+import { deleteRecord, getAllRecords, loadPreference, putRecord, savePreference, SOUND_STORE } from "@/lib/storage"
+import { DEFAULT_ALERT_CHANNELS } from "./defaults"
+import type { AlertChannelConfig, CustomSound } from "./types"
+
+const CHANNELS_KEY = "alertChannels"
+
+// Uploaded sounds live in IndexedDB, so this keeps the whole library small enough for mobile storage quotas
+export const MAX_SOUND_BYTES = 2 * 1024 * 1024
+
+// Built-in channels removed from storage come back, so a bad save can't silence every alert
+export function loadAlertChannels() {
+  const saved = loadPreference<AlertChannelConfig[] | null>(CHANNELS_KEY, null)
+  if (!Array.isArray(saved)) return DEFAULT_ALERT_CHANNELS
+  const missing = DEFAULT_ALERT_CHANNELS.filter((builtIn) => !saved.some((config) => config.id === builtIn.id))
+  return [...saved, ...missing]
+}
+
+export function saveAlertChannels(channels: AlertChannelConfig[]) {
+  savePreference(CHANNELS_KEY, channels)
+}
+
+export function listSounds() {
+  return getAllRecords<CustomSound>(SOUND_STORE, "createdAt")
+}
+
+export async function saveSoundFile(file: File): Promise<CustomSound> {
+  if (!file.type.startsWith("audio/")) {
+    throw new Error(`${file.name} is not an audio file`)
+  }
+  if (file.size > MAX_SOUND_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_SOUND_BYTES / 1024 / 1024} MB`)
+  }
+  const createdAt = Date.now()
+  const sound: CustomSound = {
+    id: `sound_${createdAt}`,
+    name: file.name.replace(/\.[^.]+$/, ""),
+    type: file.type,
+    data: file,
+    createdAt,
+  }
+  await putRecord(SOUND_STORE, sound)
+  return sound
+}
+
+export function deleteSound(id: string) {
+  return deleteRecord(SOUND_STORE, id)
+}
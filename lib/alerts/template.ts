@@ -0,0 +1,17 @@
+import type { AlertDispatch } from "./types"
+
+// Placeholders every template can use besides the live values
+export const TEMPLATE_FIELDS = ["message", "level"]
+
+// Fills {message}, {level} and {value} placeholders. Values missing from this alert (e.g. in a test) are left out
+// rather than read aloud as a literal placeholder.
+export function formatAlertTemplate(template: string, alert: AlertDispatch) {
+  return template
+    .replace(/\{(\w+)\}/g, (_placeholder, name: string) => {
+      if (name === "message") return alert.message
+      if (name === "level") return alert.level
+      return name in alert.values ? String(Math.round(alert.values[name])) : ""
+    })
+    .replace(/\s+/g, " ")
+    .trim()
+}
@@ -0,0 +1,68 @@
+export interface ToneNote {
+  start: number // ms from the start of the tone
+  duration: number // ms
+  frequency: number
+  endFrequency?: number // sweeps linearly to this frequency when set
+  wave?: OscillatorType
+}
+
+export interface Tone {
+  id: string
+  label: string
+  notes: ToneNote[]
+}
+
+// Plays a different tone from the library each time, so drivers don't tune out one familiar beep
+export const ROTATING_SOUND = "rotate"
+
+const repeat = (count: number, interval: number, notes: ToneNote[]) =>
+  Array.from({ length: count }, (_, i) => notes.map((note) => ({ ...note, start: note.start + i * interval }))).flat()
+
+export const TONE_LIBRARY: Tone[] = [
+  { id: "beep", label: "Beep", notes: [{ start: 0, duration: 300, frequency: 600 }] },
+  { id: "double-beep", label: "Double beep", notes: repeat(2, 500, [{ start: 0, duration: 400, frequency: 800 }]) },
+  { id: "triple-beep", label: "Triple beep", notes: repeat(3, 600, [{ start: 0, duration: 500, frequency: 1000 }]) },
+  {
+    id: "alarm",
+    label: "Alarm",
+    notes: repeat(4, 500, [
+      { start: 0, duration: 200, frequency: 1200 },
+      { start: 250, duration: 200, frequency: 800 },
+    ]),
+  },
+  {
+    id: "chime",
+    label: "Chime",
+    notes: [
+      { start: 0, duration: 500, frequency: 880, wave: "triangle" },
+      { start: 250, duration: 700, frequency: 660, wave: "triangle" },
+    ],
+  },
+  {
+    id: "siren",
+    label: "Siren",
+    notes: repeat(2, 1200, [
+      { start: 0, duration: 600, frequency: 600, endFrequency: 1200, wave: "sawtooth" },
+      { start: 600, duration: 600, frequency: 1200, endFrequency: 600, wave: "sawtooth" },
+    ]),
+  },
+  {
+    id: "rising",
+    label: "Rising sweep",
+    notes: [{ start: 0, duration: 900, frequency: 400, endFrequency: 1600, wave: "square" }],
+  },
+  {
+    id: "pulse",
+    label: "Rapid pulse",
+    notes: repeat(8, 150, [{ start: 0, duration: 80, frequency: 1500, wave: "square" }]),
+  },
+  {
+    id: "klaxon",
+    label: "Klaxon",
+    notes: repeat(3, 500, [{ start: 0, duration: 400, frequency: 440, wave: "sawtooth" }]),
+  },
+]
+
+export function getTone(id: string) {
+  return TONE_LIBRARY.find((tone) => tone.id === id) ?? null
+}
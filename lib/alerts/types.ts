@@ -0,0 +1,56 @@
+import type { AlertLevel } from "@/lib/drowsiness"
+
+export interface AlertDispatch {
+  level: AlertLevel
+  message: string
+  timestamp: number
+  test: boolean // raised from a test button rather than by monitoring
+  values: Record<string, number> // live readings at the time of the alert, for message templates
+}
+
+export interface ChannelLevelSettings {
+  enabled: boolean
+  sound: string // tone or uploaded sound id, for channels that play sound
+  template?: string // text with {placeholders}, for channels that take one; empty uses the alert message
+}
+
+export interface VoiceSettings {
+  voiceURI: string // empty picks the browser's default voice for the language
+  lang: string // BCP 47 tag; empty follows the chosen voice
+  rate: number
+}
+
+export interface AlertChannelConfig {
+  id: string
+  kind: string // the registered channel that delivers it
+  name: string
+  enabled: boolean
+  volume: number // 0-1, for channels that play sound
+  levels: Record<AlertLevel, ChannelLevelSettings>
+  voice?: VoiceSettings // for speaking channels
+}
+
+export interface CustomSound {
+  id: string
+  name: string
+  type: string // MIME type of the uploaded file
+  data: Blob
+  createdAt: number
+}
+
+// What the app hands a channel besides the alert itself
+export interface AlertChannelContext {
+  sounds: CustomSound[]
+  showVisual: (alert: AlertDispatch) => void
+}
+
+export interface AlertChannel {
+  kind: string
+  label: string
+  playsSound: boolean // offers a sound choice per level
+  hasTemplates: boolean // offers a message template per level
+  multiple: boolean // users can add their own channels of this kind
+  isSupported: () => boolean
+  deliver: (alert: AlertDispatch, config: AlertChannelConfig, context: AlertChannelContext) => void
+  stop?: () => void // silence anything still running once the alert is dismissed
+}
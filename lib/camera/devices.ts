@@ -0,0 +1,96 @@
+import { loadPreference, savePreference } from "@/lib/storage"
+
+export interface CameraResolution {
+  width: number
+  height: number
+}
+
+export interface CameraSettings {
+  deviceId: string | null // null lets the browser pick the front camera
+  resolution: CameraResolution
+  frameRate: number
+}
+
+export interface VideoDevice {
+  deviceId: string
+  label: string
+}
+
+export const RESOLUTION_OPTIONS: CameraResolution[] = [
+  { width: 320, height: 240 },
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+  { width: 1920, height: 1080 },
+]
+
+export const FRAME_RATE_OPTIONS = [15, 24, 30, 60]
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: { width: 640, height: 480 },
+  frameRate: 30,
+}
+
+const SELECTED_DEVICE_KEY = "camera:selectedDevice"
+const deviceSettingsKey = (deviceId: string | null) => `camera:settings:${deviceId ?? "default"}`
+
+export async function listVideoDevices(): Promise<VideoDevice[]> {
+  if (typeof navigator === "undefined" || !navigator.mediaDevices?.enumerateDevices) return []
+
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices
+    .filter((device) => device.kind === "videoinput")
+    // Labels stay empty until camera permission has been granted once
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Camera ${index + 1}` }))
+}
+
+// The last used camera, with the resolution and frame rate last chosen for it
+export function loadCameraSettings(): CameraSettings {
+  const deviceId = loadPreference<string | null>(SELECTED_DEVICE_KEY, null)
+  return loadDeviceSettings(deviceId)
+}
+
+export function loadDeviceSettings(deviceId: string | null): CameraSettings {
+  const saved = loadPreference<Partial<CameraSettings> | null>(deviceSettingsKey(deviceId), null)
+  return { ...DEFAULT_CAMERA_SETTINGS, ...saved, deviceId }
+}
+
+export function saveCameraSettings(settings: CameraSettings) {
+  savePreference(SELECTED_DEVICE_KEY, settings.deviceId)
+  savePreference(deviceSettingsKey(settings.deviceId), {
+    resolution: settings.resolution,
+    frameRate: settings.frameRate,
+  })
+}
+
+export function buildVideoConstraints(settings: CameraSettings): MediaTrackConstraints {
+  return {
+    width: { ideal: settings.resolution.width },
+    height: { ideal: settings.resolution.height },
+    frameRate: { ideal: settings.frameRate },
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: "user" }),
+  }
+}
+
+export function openCameraStream(settings: CameraSettings) {
+  return navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(settings) })
+}
+
+export function describeCameraError(err: unknown, deviceLabel?: string) {
+  const name = err instanceof DOMException || err instanceof Error ? err.name : ""
+  const camera = deviceLabel ? `"${deviceLabel}"` : "The camera"
+
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "Camera access was denied. Please allow camera permissions for this site."
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return `${camera} is not available. It may have been unplugged; select another camera.`
+    case "NotReadableError":
+    case "AbortError":
+      return `${camera} is in use by another application or could not be started.`
+    default:
+      return "Failed to access camera. Please ensure camera permissions are granted."
+  }
+}
@@ -0,0 +1,113 @@
+import { eyeLandmarkConfidence, MEDIAPIPE_FACE_MESH_LANDMARKS, type LandmarkFrame, type Point } from "@/lib/drowsiness"
+import { createSampleContext, meanOf, ramp, readLuminance, standardDeviation } from "./luminance"
+
+type FaceBox = NonNullable<LandmarkFrame["box"]>
+
+export type EyewearKind = "none" | "glasses" | "sunglasses" // glasses: lens reflections seen over the eyes
+
+export const EYEWEAR_LABELS: Record<EyewearKind, string> = {
+  none: "No eyewear",
+  glasses: "Lens glare",
+  sunglasses: "Sunglasses",
+}
+
+export interface EyewearAssessment {
+  kind: EyewearKind
+  reliability: number // 0-1, smoothed; how far eye landmarks can be trusted
+  glare: number // share of near-white pixels in the eye band
+  darkness: number // how much darker the eye band is than the face, as a share of the face brightness
+  contrast: number // luminance standard deviation inside the eye band
+  landmarkConfidence: number | null
+}
+
+export interface EyewearSampler {
+  eyeCtx: CanvasRenderingContext2D | null
+  faceCtx: CanvasRenderingContext2D | null
+  lastCheck: number
+  reliability: number | null
+  lastResult: EyewearAssessment | null
+}
+
+const EYE_BAND_WIDTH = 48
+const EYE_BAND_HEIGHT = 16
+const FACE_SAMPLE_SIZE = 16
+const CHECK_INTERVAL_MS = 500
+// Luminance counted as a specular reflection off a lens
+const GLARE_LUMINANCE = 240
+// How quickly the reliability follows new checks, so one reflection doesn't flip the mode
+const RELIABILITY_SMOOTHING = 0.3
+
+export function createEyewearSampler(): EyewearSampler {
+  return {
+    eyeCtx: createSampleContext(EYE_BAND_WIDTH, EYE_BAND_HEIGHT),
+    faceCtx: createSampleContext(FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE),
+    lastCheck: -Infinity,
+    reliability: null,
+    lastResult: null,
+  }
+}
+
+// Both eyes plus some brow and cheek, where lens rims and reflections show up
+function getEyeBand(keypoints: Point[], videoWidth: number, videoHeight: number) {
+  const { leftEye, rightEye } = MEDIAPIPE_FACE_MESH_LANDMARKS
+  const points = [...leftEye.contour, ...rightEye.contour].map((index) => keypoints[index]).filter(Boolean)
+  if (points.length === 0) return null
+
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  const padding = (Math.max(...ys) - Math.min(...ys)) * 0.5 + 2
+  const x = Math.max(0, Math.min(...xs) - padding)
+  const y = Math.max(0, Math.min(...ys) - padding)
+  const width = Math.min(videoWidth, Math.max(...xs) + padding) - x
+  const height = Math.min(videoHeight, Math.max(...ys) + padding) - y
+  return width > 0 && height > 0 ? { x, y, width, height } : null
+}
+
+// Looks for signs that glasses or sunglasses hide the eyes: glare spots, an eye band much darker and flatter
+// than the rest of the face, and low landmark confidence where the detector reports it
+export function assessEyewear(
+  sampler: EyewearSampler,
+  video: HTMLVideoElement,
+  keypoints: Point[],
+  box: FaceBox,
+  timestamp: number,
+): EyewearAssessment | null {
+  if (timestamp - sampler.lastCheck < CHECK_INTERVAL_MS) return sampler.lastResult
+  sampler.lastCheck = timestamp
+
+  const { eyeCtx, faceCtx } = sampler
+  const band = getEyeBand(keypoints, video.videoWidth, video.videoHeight)
+  if (!eyeCtx || !faceCtx || !band) return null
+
+  eyeCtx.drawImage(video, band.x, band.y, band.width, band.height, 0, 0, EYE_BAND_WIDTH, EYE_BAND_HEIGHT)
+  faceCtx.drawImage(video, box.xMin, box.yMin, box.width, box.height, 0, 0, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE)
+  const eye = readLuminance(eyeCtx, EYE_BAND_WIDTH, EYE_BAND_HEIGHT)
+  const face = readLuminance(faceCtx, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE)
+
+  const eyeMean = meanOf(eye)
+  const faceMean = meanOf(face)
+  const contrast = standardDeviation(eye, eyeMean)
+  const glare = eye.filter((value) => value >= GLARE_LUMINANCE).length / eye.length
+  const darkness = faceMean > 0 ? Math.max(0, (faceMean - eyeMean) / faceMean) : 0
+  const landmarkConfidence = eyeLandmarkConfidence(keypoints)
+
+  // Tinted lenses make the eye band both dark and featureless; normal eye sockets are only somewhat darker
+  const sunglasses = ramp(darkness, 0.3, 0.55) * ramp(contrast, 20, 8)
+  const reflections = ramp(glare, 0.005, 0.04)
+  const landmarks = landmarkConfidence === null ? 1 : ramp(landmarkConfidence, 0.3, 0.7)
+  const raw = Math.min(1 - sunglasses, 1 - reflections, landmarks)
+
+  sampler.reliability =
+    sampler.reliability === null ? raw : sampler.reliability + (raw - sampler.reliability) * RELIABILITY_SMOOTHING
+
+  const result: EyewearAssessment = {
+    kind: sunglasses > 0.5 ? "sunglasses" : reflections > 0.5 ? "glasses" : "none",
+    reliability: sampler.reliability,
+    glare,
+    darkness,
+    contrast,
+    landmarkConfidence,
+  }
+  sampler.lastResult = result
+  return result
+}
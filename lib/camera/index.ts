@@ -0,0 +1,4 @@
+export * from "./devices"
+export * from "./obstruction"
+export * from "./quality"
+export * from "./eyewear"
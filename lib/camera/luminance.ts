@@ -0,0 +1,30 @@
+// Shared by the image checks, which all work on small downscaled copies of the video frame
+
+export function createSampleContext(width: number, height: number) {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  return canvas.getContext("2d", { willReadFrequently: true })
+}
+
+export function readLuminance(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  const { data } = ctx.getImageData(0, 0, width, height)
+  const luminance = new Float32Array(width * height)
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return luminance
+}
+
+export function meanOf(values: Float32Array) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+export function standardDeviation(values: Float32Array, mean = meanOf(values)) {
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length)
+}
+
+// 0 at `bad`, 1 at `good`, linear in between. Works in either direction.
+export function ramp(value: number, bad: number, good: number) {
+  return Math.min(1, Math.max(0, (value - bad) / (good - bad)))
+}
@@ -0,0 +1,79 @@
+import type { FaceLossReason } from "@/lib/drowsiness"
+import { createSampleContext, meanOf, readLuminance, standardDeviation } from "./luminance"
+
+export type ObstructionKind = Exclude<FaceLossReason, "no-face">
+
+export interface FrameSampler {
+  ctx: CanvasRenderingContext2D | null
+  previous: Float32Array | null
+  unchangedSince: number | null
+  lastCheck: number
+  lastResult: ObstructionKind | null
+}
+
+// A thumbnail is plenty to judge brightness and uniformity, and cheap enough to take on the main thread
+const SAMPLE_WIDTH = 32
+const SAMPLE_HEIGHT = 24
+const CHECK_INTERVAL_MS = 250
+
+// Mean luminance (0-255) below which the driver can't be seen
+const DARK_LUMINANCE = 25
+// Luminance spread below which the image is featureless, e.g. a hand or tape over the lens
+const COVERED_STD_DEV = 6
+// A live sensor never produces two identical frames; this long without any change means the feed is stuck
+const FROZEN_MS = 2000
+
+export function createFrameSampler(): FrameSampler {
+  return {
+    ctx: createSampleContext(SAMPLE_WIDTH, SAMPLE_HEIGHT),
+    previous: null,
+    unchangedSince: null,
+    lastCheck: -Infinity,
+    lastResult: null,
+  }
+}
+
+export function sampleLuminance(sampler: FrameSampler, video: HTMLVideoElement) {
+  const { ctx } = sampler
+  if (!ctx) return null
+  ctx.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT)
+  return readLuminance(ctx, SAMPLE_WIDTH, SAMPLE_HEIGHT)
+}
+
+// Detects a camera image that can't show the driver even if they are there. Checked a few times a second;
+// calls in between return the previous result.
+export function checkObstruction(
+  sampler: FrameSampler,
+  video: HTMLVideoElement,
+  timestamp: number,
+): ObstructionKind | null {
+  if (timestamp - sampler.lastCheck < CHECK_INTERVAL_MS) return sampler.lastResult
+  sampler.lastCheck = timestamp
+
+  const luminance = sampleLuminance(sampler, video)
+  if (!luminance) return null
+
+  const mean = meanOf(luminance)
+
+  const previous = sampler.previous
+  const unchanged = previous !== null && luminance.every((value, i) => value === previous[i])
+  sampler.previous = luminance
+  if (!unchanged) {
+    sampler.unchangedSince = null
+  } else if (sampler.unchangedSince === null) {
+    sampler.unchangedSince = timestamp
+  }
+
+  // A covered lens also gives identical (black) frames, so uniformity is checked before freezing
+  let result: ObstructionKind | null = null
+  if (standardDeviation(luminance, mean) < COVERED_STD_DEV) {
+    result = "covered"
+  } else if (sampler.unchangedSince !== null && timestamp - sampler.unchangedSince >= FROZEN_MS) {
+    result = "frozen"
+  } else if (mean < DARK_LUMINANCE) {
+    result = "dark"
+  }
+
+  sampler.lastResult = result
+  return result
+}
@@ -0,0 +1,120 @@
+import type { LandmarkFrame } from "@/lib/drowsiness"
+import { createSampleContext, meanOf, ramp, readLuminance, standardDeviation } from "./luminance"
+
+type FaceBox = NonNullable<LandmarkFrame["box"]>
+
+export type QualityIssue = "too-dark" | "too-bright" | "backlit" | "low-contrast" | "blurry" | "too-far" | "too-close"
+
+export interface ImageQuality {
+  brightness: number // mean luminance of the face, 0-255
+  contrast: number // luminance standard deviation across the face
+  sharpness: number // variance of the Laplacian over the face crop, higher is sharper
+  faceSize: number // face width as a fraction of the frame width
+  backlight: number // how much brighter the whole frame is than the face
+  score: number // 0-1, set by the worst factor since any one of them can throw the landmarks off
+  issues: QualityIssue[] // worst first
+}
+
+export const QUALITY_GUIDANCE: Record<QualityIssue, string> = {
+  "too-dark": "Too dark: turn on a cabin light or use an IR camera",
+  "too-bright": "Too bright: shade the camera from direct sunlight",
+  backlit: "Strong backlight: avoid a window or the sun behind you",
+  "low-contrast": "Washed-out image: check the lighting and clean the lens",
+  blurry: "Image is blurry: clean the lens and mount the device firmly",
+  "too-far": "Move closer to the camera",
+  "too-close": "Move back from the camera",
+}
+
+export interface QualitySampler {
+  faceCtx: CanvasRenderingContext2D | null
+  frameCtx: CanvasRenderingContext2D | null
+  lastCheck: number
+  lastResult: ImageQuality | null
+}
+
+// The face is resampled to a fixed size so sharpness is comparable at any distance or resolution
+const FACE_SIZE = 64
+const FRAME_WIDTH = 16
+const FRAME_HEIGHT = 12
+// Lighting changes slowly, so a couple of checks a second is enough
+const CHECK_INTERVAL_MS = 500
+// Factors scoring below this are reported as issues
+const ISSUE_SCORE = 0.5
+
+export function createQualitySampler(): QualitySampler {
+  return {
+    faceCtx: createSampleContext(FACE_SIZE, FACE_SIZE),
+    frameCtx: createSampleContext(FRAME_WIDTH, FRAME_HEIGHT),
+    lastCheck: -Infinity,
+    lastResult: null,
+  }
+}
+
+function laplacianVariance(luminance: Float32Array, size: number) {
+  const responses: number[] = []
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const i = y * size + x
+      responses.push(
+        luminance[i - size] + luminance[i + size] + luminance[i - 1] + luminance[i + 1] - 4 * luminance[i],
+      )
+    }
+  }
+  const mean = responses.reduce((sum, value) => sum + value, 0) / responses.length
+  return responses.reduce((sum, value) => sum + (value - mean) ** 2, 0) / responses.length
+}
+
+// Judges whether the driver's face is lit, sharp and large enough for eye landmarks to be trusted
+export function assessImageQuality(
+  sampler: QualitySampler,
+  video: HTMLVideoElement,
+  box: FaceBox,
+  timestamp: number,
+): ImageQuality | null {
+  if (timestamp - sampler.lastCheck < CHECK_INTERVAL_MS) return sampler.lastResult
+  sampler.lastCheck = timestamp
+
+  const { faceCtx, frameCtx } = sampler
+  const { videoWidth, videoHeight } = video
+  if (!faceCtx || !frameCtx || videoWidth === 0 || videoHeight === 0) return null
+
+  // Detector boxes can reach past the frame edges
+  const x = Math.max(0, box.xMin)
+  const y = Math.max(0, box.yMin)
+  const width = Math.min(videoWidth, box.xMin + box.width) - x
+  const height = Math.min(videoHeight, box.yMin + box.height) - y
+  if (width <= 0 || height <= 0) return null
+
+  faceCtx.drawImage(video, x, y, width, height, 0, 0, FACE_SIZE, FACE_SIZE)
+  frameCtx.drawImage(video, 0, 0, FRAME_WIDTH, FRAME_HEIGHT)
+  const face = readLuminance(faceCtx, FACE_SIZE, FACE_SIZE)
+
+  const brightness = meanOf(face)
+  const contrast = standardDeviation(face, brightness)
+  const sharpness = laplacianVariance(face, FACE_SIZE)
+  const faceSize = box.width / videoWidth
+  const backlight = Math.max(0, meanOf(readLuminance(frameCtx, FRAME_WIDTH, FRAME_HEIGHT)) - brightness)
+
+  const factors: Array<[QualityIssue, number]> = [
+    ["too-dark", ramp(brightness, 25, 70)],
+    ["too-bright", ramp(brightness, 245, 200)],
+    ["backlit", ramp(backlight, 90, 40)],
+    ["low-contrast", ramp(contrast, 8, 30)],
+    ["blurry", ramp(sharpness, 15, 60)],
+    ["too-far", ramp(faceSize, 0.06, 0.15)],
+    ["too-close", ramp(faceSize, 0.8, 0.6)],
+  ]
+  factors.sort((a, b) => a[1] - b[1])
+
+  const result: ImageQuality = {
+    brightness,
+    contrast,
+    sharpness,
+    faceSize,
+    backlight,
+    score: factors[0][1],
+    issues: factors.filter(([, score]) => score < ISSUE_SCORE).map(([issue]) => issue),
+  }
+  sampler.lastResult = result
+  return result
+}
@@ -0,0 +1,94 @@
+export type CalibrationPhase = "open" | "blink" | "closed"
+
+export interface CalibrationStep {
+  phase: CalibrationPhase
+  durationMs: number
+  instruction: string
+}
+
+export const CALIBRATION_STEPS: CalibrationStep[] = [
+  { phase: "open", durationMs: 5000, instruction: "Look at the camera with your eyes open normally" },
+  { phase: "blink", durationMs: 8000, instruction: "Keep looking at the camera and blink naturally" },
+  { phase: "closed", durationMs: 4000, instruction: "Gently close your eyes and keep them closed" },
+]
+
+// Samples taken right after a phase change are discarded while the user reacts to the prompt
+const SETTLE_TIME_MS = 1000
+const MIN_SAMPLES_PER_PHASE = 10
+const MIN_EAR_RANGE = 0.05
+
+export interface CalibrationSession {
+  startTime: number
+  samples: Record<CalibrationPhase, number[]>
+}
+
+export interface CalibrationProgress {
+  step: CalibrationStep | null // null once all steps have elapsed
+  stepIndex: number
+  elapsedInStep: number
+  remainingMs: number
+}
+
+export interface CalibrationResult {
+  openEAR: number
+  blinkEAR: number
+  closedEAR: number
+  earThreshold: number
+  blinkThreshold: number
+}
+
+export function createCalibrationSession(startTime: number): CalibrationSession {
+  return { startTime, samples: { open: [], blink: [], closed: [] } }
+}
+
+export function getCalibrationProgress(session: CalibrationSession, timestamp: number): CalibrationProgress {
+  let stepStart = session.startTime
+  for (let i = 0; i < CALIBRATION_STEPS.length; i++) {
+    const step = CALIBRATION_STEPS[i]
+    if (timestamp < stepStart + step.durationMs) {
+      return {
+        step,
+        stepIndex: i,
+        elapsedInStep: timestamp - stepStart,
+        remainingMs: stepStart + step.durationMs - timestamp,
+      }
+    }
+    stepStart += step.durationMs
+  }
+  return { step: null, stepIndex: CALIBRATION_STEPS.length, elapsedInStep: 0, remainingMs: 0 }
+}
+
+export function recordCalibrationSample(session: CalibrationSession, ear: number, timestamp: number) {
+  const progress = getCalibrationProgress(session, timestamp)
+  if (!progress.step || progress.elapsedInStep < SETTLE_TIME_MS || ear <= 0) return
+  session.samples[progress.step.phase].push(ear)
+}
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)))
+  return sorted[index]
+}
+
+export function computeCalibration(samples: CalibrationSession["samples"]): CalibrationResult {
+  for (const step of CALIBRATION_STEPS) {
+    if (samples[step.phase].length < MIN_SAMPLES_PER_PHASE) {
+      throw new Error(`Not enough face samples during the "${step.phase}" step. Keep your face in view and retry.`)
+    }
+  }
+
+  const openEAR = percentile(samples.open, 0.5)
+  const closedEAR = percentile(samples.closed, 0.5)
+  // The bottom of the blink dips, not the open-eye frames between blinks
+  const blinkEAR = percentile(samples.blink, 0.1)
+
+  const range = openEAR - closedEAR
+  if (range < MIN_EAR_RANGE) {
+    throw new Error("Open and closed eye measurements are too similar. Check lighting and camera angle, then retry.")
+  }
+
+  const earThreshold = closedEAR + range * 0.5
+  const blinkThreshold = Math.min(earThreshold - 0.01, Math.max(blinkEAR, closedEAR) + range * 0.2)
+
+  return { openEAR, blinkEAR, closedEAR, earThreshold, blinkThreshold }
+}
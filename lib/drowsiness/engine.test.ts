@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest"
+import { analyzeDrowsinessPattern, createDrowsinessState, DEFAULT_DROWSINESS_CONFIG, markDetectionGap } from "./engine"
+import type { DrowsinessAnalysis, DrowsinessState } from "./types"
+
+const OPEN = 0.3
+const SHUT = 0.1
+
+interface Segment {
+  ear: number | ((frame: number) => number)
+  duration: number // ms
+  quality?: number
+}
+
+// Plays EAR segments through the engine at a fixed frame rate, like a camera would deliver them
+function play(segments: Segment[], fps = 30, state: DrowsinessState = createDrowsinessState(), start = 0) {
+  const analyses: Array<DrowsinessAnalysis & { timestamp: number }> = []
+  let segmentStart = start
+  for (const { ear, duration, quality = 1 } of segments) {
+    for (let frame = 0; segmentStart + (frame * 1000) / fps < segmentStart + duration; frame++) {
+      const timestamp = segmentStart + Math.round((frame * 1000) / fps)
+      const value = typeof ear === "function" ? ear(frame) : ear
+      const analysis = analyzeDrowsinessPattern(state, DEFAULT_DROWSINESS_CONFIG, value, timestamp, 0, [], { quality })
+      analyses.push({ ...analysis, timestamp })
+    }
+    segmentStart += duration
+  }
+  return { analyses, state, end: segmentStart }
+}
+
+const countBlinks = (analyses: DrowsinessAnalysis[]) => analyses.filter((analysis) => analysis.blinkDetected).length
+
+describe("blink detection", () => {
+  it("counts a brief closure as one blink once the eyes reopen", () => {
+    const { analyses, state } = play([
+      { ear: OPEN, duration: 1000 },
+      { ear: SHUT, duration: 150 },
+      { ear: OPEN, duration: 500 },
+    ])
+
+    expect(countBlinks(analyses)).toBe(1)
+    const blinkFrame = analyses.find((analysis) => analysis.blinkDetected)!
+    expect(blinkFrame.timestamp).toBeGreaterThanOrEqual(1150)
+    expect(blinkFrame.eyesOpen).toBe(true)
+    // The blink is timed from its onset
+    expect(state.recentBlinks).toEqual([1000])
+  })
+
+  it("never counts eyes held shut as blinks", () => {
+    const { analyses } = play([
+      { ear: OPEN, duration: 500 },
+      { ear: SHUT, duration: 5000 },
+    ])
+
+    expect(countBlinks(analyses)).toBe(0)
+    expect(analyses.at(-1)!.blinkRate).toBe(0)
+    expect(analyses.at(-1)!.isSustainedClosure).toBe(true)
+    expect(analyses.at(-1)!.eyesOpen).toBe(false)
+  })
+
+  it("ignores landmark jitter on shut eyes", () => {
+    const { analyses } = play([
+      { ear: OPEN, duration: 500 },
+      { ear: (frame) => (frame % 2 === 0 ? SHUT : 0.22), duration: 5000 },
+    ])
+
+    expect(countBlinks(analyses)).toBe(0)
+  })
+
+  it("does not count a long closure as a blink when the eyes reopen", () => {
+    const { analyses } = play([
+      { ear: OPEN, duration: 500 },
+      { ear: SHUT, duration: 800 },
+      { ear: OPEN, duration: 500 },
+    ])
+
+    expect(countBlinks(analyses)).toBe(0)
+  })
+
+  it("drops a closure in progress when the image becomes untrustworthy", () => {
+    const { analyses } = play([
+      { ear: OPEN, duration: 500 },
+      { ear: SHUT, duration: 100 },
+      { ear: SHUT, duration: 50, quality: 0.1 },
+      { ear: OPEN, duration: 500 },
+    ])
+
+    expect(countBlinks(analyses)).toBe(0)
+  })
+
+  it("forgets a closure in progress across a detection gap", () => {
+    const { state, end } = play([
+      { ear: OPEN, duration: 500 },
+      { ear: SHUT, duration: 100 },
+    ])
+    markDetectionGap(state)
+    const { analyses } = play([{ ear: OPEN, duration: 500 }], 30, state, end)
+
+    expect(countBlinks(analyses)).toBe(0)
+  })
+})
+
+describe("eye closure", () => {
+  it("reports an alert driver with open eyes as not drowsy", () => {
+    const last = play([{ ear: OPEN, duration: 5000 }]).analyses.at(-1)!
+
+    expect(last.isDrowsy).toBe(false)
+    expect(last.eyeClosureDuration).toBe(0)
+    expect(last.avgEAR).toBeCloseTo(OPEN)
+  })
+
+  it("times a closure and remembers its length once the eyes reopen", () => {
+    const { analyses, state } = play([
+      { ear: OPEN, duration: 1000 },
+      { ear: SHUT, duration: 1200 },
+      { ear: OPEN, duration: 100 },
+    ])
+
+    expect(Math.max(...analyses.map((analysis) => analysis.eyeClosureDuration))).toBeGreaterThanOrEqual(1150)
+    expect(state.lastEyeClosureDuration).toBeGreaterThanOrEqual(1150)
+    expect(analyses.at(-1)!.eyeClosureDuration).toBe(0)
+  })
+
+  it("raises the score to critical after three seconds of closed eyes", () => {
+    const { analyses } = play([
+      { ear: OPEN, duration: 1000 },
+      { ear: SHUT, duration: 3100 },
+    ])
+
+    expect(analyses.at(-1)!.isSustainedClosure).toBe(true)
+    expect(analyses.at(-1)!.isDrowsy).toBe(true)
+    expect(analyses.at(-1)!.drowsinessScore).toBeGreaterThanOrEqual(95)
+  })
+
+  it("ignores closed-looking eyes in images too poor to trust", () => {
+    const { analyses } = play([
+      { ear: OPEN, duration: 1000 },
+      { ear: SHUT, duration: 3100, quality: 0.1 },
+    ])
+
+    expect(analyses.at(-1)!.eyeSignalsTrusted).toBe(false)
+    expect(analyses.at(-1)!.isDrowsy).toBe(false)
+    expect(analyses.at(-1)!.isSustainedClosure).toBe(false)
+  })
+})
+
+describe("frame rate independence", () => {
+  it.each([10, 15, 30])("flags low EAR held past lowEARDuration at %i fps", (fps) => {
+    const short = play(
+      [
+        { ear: OPEN, duration: 1000 },
+        { ear: SHUT, duration: 300 },
+      ],
+      fps,
+    ).analyses.at(-1)!
+    const held = play(
+      [
+        { ear: OPEN, duration: 1000 },
+        { ear: SHUT, duration: 700 },
+      ],
+      fps,
+    ).analyses.at(-1)!
+
+    expect(short.isDrowsy).toBe(false)
+    expect(held.isDrowsy).toBe(true)
+  })
+
+  it("measures the same blink rate at any frame rate", () => {
+    const blinks = Array.from({ length: 10 }, () => [
+      { ear: OPEN, duration: 2850 },
+      { ear: SHUT, duration: 150 },
+    ]).flat()
+    const segments = [...blinks, { ear: OPEN, duration: 500 }]
+
+    const slow = play(segments, 10).analyses.at(-1)!
+    const fast = play(segments, 30).analyses.at(-1)!
+    expect(slow.blinkRate).toBe(10)
+    expect(fast.blinkRate).toBe(10)
+    // Average EAR depends a little on which frames sampled the blinks, the blink score not at all
+    expect(fast.drowsinessScore).toBeCloseTo(slow.drowsinessScore, 0)
+  })
+})
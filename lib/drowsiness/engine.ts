@@ -0,0 +1,337 @@
+import { EYEWEAR_RELIABILITY, isEyewearActive, measureBlinkIrregularity } from "./eyewear"
+import { updateHeadPoseState } from "./head-pose"
+import {
+  MEDIAPIPE_FACE_MESH_LANDMARKS,
+  selectContour,
+  selectEyeLandmarks,
+  selectMouthLandmarks,
+  type FaceLandmarkMap,
+} from "./landmarks"
+import { calculateEyeAspectRatio, calculateMouthAspectRatio, combineEyeAspectRatios } from "./metrics"
+import { computePerclos, getPerclosClosedEAR } from "./perclos"
+import { updateYawnState } from "./yawn"
+import type {
+  DrowsinessAnalysis,
+  DrowsinessConfig,
+  DrowsinessState,
+  FrameAnalysis,
+  LandmarkFrame,
+  Point,
+} from "./types"
+
+export const DEFAULT_DROWSINESS_CONFIG: DrowsinessConfig = {
+  earThreshold: 0.25,
+  lowEARDuration: 500, // milliseconds of mostly-low EAR that count as drowsy
+  blinkThreshold: 0.2, // EAR threshold for blink detection
+  yawnThreshold: 0.6, // mouth aspect ratio for yawn detection
+  perclosWindow: 60000, // milliseconds of history PERCLOS is measured over
+  perclosThreshold: 0.15, // PERCLOS fraction considered drowsy
+  baselineOpenEAR: 0.3, // typical open-eye EAR, replaced by calibration
+  baselineClosedEAR: 0.1, // typical closed-eye EAR, replaced by calibration
+  yawnMinDuration: 1500, // milliseconds the mouth must stay open to count as a yawn
+  yawnWindow: 300000, // milliseconds over which yawn frequency is measured
+  yawnAlertCount: 3, // yawns within the window that count as drowsy
+  headPitchThreshold: 15, // degrees of pitch drop below the neutral posture
+  headDownDuration: 2000, // milliseconds of head drop that count as sustained rather than a nod
+  nodWindow: 120000, // milliseconds over which head nods are counted
+  eyeAsymmetryTolerance: 0.35, // relative left/right EAR difference treated as one eye occluded
+  faceLostGrace: 2000, // milliseconds the face may be missing before it counts as lost
+  minImageQuality: 0.4, // image quality below which eye closure can't be told from bad landmarks
+  eyewearMode: false, // set from the active profile's "I wear glasses"
+}
+
+// Share of samples in the low-EAR window that must be below threshold
+const LOW_EAR_RATIO = 0.8
+// Window for the rolling EAR average, roughly the old 100-frame buffer at 30 fps
+const EAR_AVERAGE_WINDOW_MS = 3000
+// Blink rate is always measured per minute
+const BLINK_WINDOW_MS = 60000
+// Each yawn in the window raises the score, up to a cap so yawns alone can't reach "critical"
+const YAWN_SCORE_WEIGHT = 10
+const MAX_YAWN_SCORE = 40
+// Nodding is a late fatigue sign, so it weighs more than yawning
+const NOD_SCORE_WEIGHT = 20
+const MAX_NOD_SCORE = 60
+// Image quality from which eye-based scores count in full; between the minimum and this they are scaled down
+const FULL_CONFIDENCE_QUALITY = 0.7
+// In eyewear mode the EAR level only nudges the score, while yawns and nods count for more
+const EYEWEAR_EAR_WEIGHT = 0.3
+const EYEWEAR_HEAD_WEIGHT = 1.5
+// Lenses shift the EAR level, so in eyewear mode a blink is a dip below this share of the rolling average
+const EYEWEAR_BLINK_DIP = 0.65
+// ...and the eyes count as open again above this share
+const EYEWEAR_OPEN_LEVEL = 0.85
+// Closures longer than this are the eyes staying shut, not a blink
+const MAX_BLINK_MS = 500
+// Blink irregularity (coefficient of variation) where it starts and stops adding to the score in eyewear mode
+const BLINK_IRREGULARITY_ONSET = 0.5
+const BLINK_IRREGULARITY_FULL = 1.2
+const MAX_BLINK_IRREGULARITY_SCORE = 30
+
+export function createDrowsinessState(): DrowsinessState {
+  return {
+    earValues: [],
+    timestamps: [],
+    eyeClosureStartTime: null,
+    lastEyeClosureDuration: 0,
+    blinkStartTime: null,
+    yawnStartTime: null,
+    yawnLastOpenTime: null,
+    recentYawns: [],
+    pitchBaseline: null,
+    headDownStartTime: null,
+    lastUprightTime: null,
+    recentNods: [],
+    recentBlinks: [],
+    faceLostSince: null,
+    faceLossReason: null,
+  }
+}
+
+// Call when frames stopped arriving for a while (tab hidden, camera lost). Closures, yawns and head drops
+// in progress can't be assumed to have lasted through the gap, so their timers restart.
+export function markDetectionGap(state: DrowsinessState) {
+  state.eyeClosureStartTime = null
+  state.blinkStartTime = null
+  state.yawnStartTime = null
+  state.yawnLastOpenTime = null
+  state.headDownStartTime = null
+}
+
+export function analyzeDrowsinessPattern(
+  state: DrowsinessState,
+  config: DrowsinessConfig,
+  currentEAR: number,
+  timestamp: number,
+  mouthAR = 0,
+  keypoints: Point[] = [],
+  signals: Pick<LandmarkFrame, "quality" | "eyeReliability"> = {},
+): DrowsinessAnalysis {
+  const { quality: imageQuality = 1, eyeReliability = 1 } = signals
+
+  // Add current values to history
+  state.earValues.push(currentEAR)
+  state.timestamps.push(timestamp)
+
+  // Keep only as much history as the longest time window needs
+  const historyStart = timestamp - Math.max(config.perclosWindow, BLINK_WINDOW_MS)
+  while (state.timestamps.length > 0 && state.timestamps[0] < historyStart) {
+    state.earValues.shift()
+    state.timestamps.shift()
+  }
+  while (state.recentBlinks.length > 0 && state.recentBlinks[0] < timestamp - BLINK_WINDOW_MS) {
+    state.recentBlinks.shift()
+  }
+
+  // Dark or blurry frames make the eyelid landmarks collapse, which reads as closed eyes
+  const eyeSignalsTrusted = imageQuality >= config.minImageQuality
+  const eyewearActive = isEyewearActive(config, eyeReliability)
+  // Closure can still be timed through clear lenses, but not through glare or tinted lenses
+  const eyesVisible = eyeSignalsTrusted && eyeReliability >= EYEWEAR_RELIABILITY
+  // Lenses shift the absolute EAR level, so threshold-based signals only count in full without eyewear
+  const earLevelTrusted = eyesVisible && !eyewearActive
+  const eyeConfidence = earLevelTrusted
+    ? Math.min(1, imageQuality / FULL_CONFIDENCE_QUALITY)
+    : eyesVisible
+      ? EYEWEAR_EAR_WEIGHT
+      : 0
+
+  const isEyesClosed = eyesVisible && currentEAR < config.earThreshold
+  let eyeClosureDuration = 0
+
+  if (isEyesClosed) {
+    // Eyes are closed
+    if (state.eyeClosureStartTime === null) {
+      // Start tracking eye closure
+      state.eyeClosureStartTime = timestamp
+    }
+    eyeClosureDuration = timestamp - state.eyeClosureStartTime
+  } else {
+    // Eyes are open
+    if (state.eyeClosureStartTime !== null) {
+      // Eyes just opened, record the closure duration
+      state.lastEyeClosureDuration = timestamp - state.eyeClosureStartTime
+      state.eyeClosureStartTime = null
+    }
+    eyeClosureDuration = 0
+  }
+
+  const isSustainedClosure = eyeClosureDuration >= 3000 // 3 seconds or more
+
+  // Calculate average EAR over recent history
+  const averageStart = timestamp - EAR_AVERAGE_WINDOW_MS
+  const recentEARs = state.earValues.filter((_, index) => state.timestamps[index] >= averageStart)
+  const avgEAR = recentEARs.length > 0 ? recentEARs.reduce((sum, ear) => sum + ear, 0) / recentEARs.length : 0
+
+  // A blink is counted once it completes: below the blink level, then back above the open level. The gap between
+  // the two levels keeps landmark jitter on shut eyes from reading as blinks.
+  const blinkLevel = eyewearActive ? avgEAR * EYEWEAR_BLINK_DIP : config.blinkThreshold
+  const openLevel = eyewearActive ? avgEAR * EYEWEAR_OPEN_LEVEL : config.earThreshold
+  const eyesOpen = eyeSignalsTrusted && currentEAR >= openLevel
+  let blinkDetected = false
+  if (!eyeSignalsTrusted) {
+    // The eyes can't be followed through a bad frame, so a closure in progress can't complete as a blink
+    state.blinkStartTime = null
+  } else if (currentEAR < blinkLevel) {
+    state.blinkStartTime ??= timestamp
+  } else if (eyesOpen && state.blinkStartTime !== null) {
+    blinkDetected = timestamp - state.blinkStartTime <= MAX_BLINK_MS
+    if (blinkDetected) state.recentBlinks.push(state.blinkStartTime)
+    state.blinkStartTime = null
+  }
+  // Blink events in the last minute, so the rate doesn't depend on how many frames each blink spans
+  const recentBlinks = state.recentBlinks.length
+
+  // PERCLOS only counts once at least half of its window is backed by samples
+  const { perclos, coverage } = computePerclos(
+    state.timestamps,
+    state.earValues,
+    getPerclosClosedEAR(config),
+    config.perclosWindow,
+    timestamp,
+  )
+  const perclosReady = coverage >= config.perclosWindow / 2
+  const isPerclosDrowsy = earLevelTrusted && perclosReady && perclos >= config.perclosThreshold
+
+  const yawn = updateYawnState(state, config, mouthAR, timestamp)
+  // Alert when a yawn completes with the window already at the limit, not on every frame after
+  const isYawnDrowsy = yawn.completedYawn !== null && yawn.recentYawnCount >= config.yawnAlertCount
+
+  // Head pose catches drivers nodding off with their eyes still partly open
+  const head = updateHeadPoseState(state, config, keypoints, timestamp)
+
+  // Check for sustained low EAR (drowsiness indicator), over a time window so it holds at any frame rate
+  const lowEARStart = timestamp - config.lowEARDuration
+  const windowEARs = state.earValues.filter((_, index) => state.timestamps[index] >= lowEARStart)
+  const recentLowEARCount = windowEARs.filter((ear) => ear < config.earThreshold).length
+  const isLowEARWindowCovered = state.timestamps[0] <= lowEARStart
+  const isDrowsy =
+    earLevelTrusted && isLowEARWindowCovered && recentLowEARCount >= windowEARs.length * LOW_EAR_RATIO
+
+  // Calculate drowsiness score (0-100)
+  const earScore = Math.max(0, ((config.earThreshold - avgEAR) / config.earThreshold) * 100)
+  const blinkScore = Math.max(0, ((15 - recentBlinks) / 15) * 100) // Normal blink rate ~15-20/min
+  let drowsinessScore = Math.min(100, ((earScore + blinkScore) / 2) * eyeConfidence)
+
+  if (isSustainedClosure) {
+    drowsinessScore = Math.max(drowsinessScore, 95) // Force high score for 3+ second closure
+  }
+
+  const headWeight = eyewearActive ? EYEWEAR_HEAD_WEIGHT : 1
+  drowsinessScore = Math.min(
+    100,
+    drowsinessScore + Math.min(MAX_YAWN_SCORE, yawn.recentYawnCount * YAWN_SCORE_WEIGHT) * headWeight,
+  )
+  drowsinessScore = Math.min(
+    100,
+    drowsinessScore + Math.min(MAX_NOD_SCORE, head.recentNodCount * NOD_SCORE_WEIGHT) * headWeight,
+  )
+
+  const blinkIrregularity = measureBlinkIrregularity(state.recentBlinks)
+  if (eyewearActive) {
+    const excess = (blinkIrregularity - BLINK_IRREGULARITY_ONSET) / (BLINK_IRREGULARITY_FULL - BLINK_IRREGULARITY_ONSET)
+    drowsinessScore = Math.min(100, drowsinessScore + Math.min(1, Math.max(0, excess)) * MAX_BLINK_IRREGULARITY_SCORE)
+  }
+
+  if (head.isHeadDown) {
+    drowsinessScore = Math.max(drowsinessScore, 95)
+  }
+
+  if (perclosReady) {
+    // Reaching the PERCLOS threshold alone scores in the default policy's "high" range
+    drowsinessScore = Math.max(
+      drowsinessScore,
+      Math.min(100, (perclos / config.perclosThreshold) * 65) * eyeConfidence,
+    )
+  }
+
+  return {
+    isDrowsy:
+      isDrowsy || isSustainedClosure || isPerclosDrowsy || isYawnDrowsy || head.isHeadDown || head.completedNod !== null,
+    blinkRate: recentBlinks,
+    avgEAR,
+    drowsinessScore,
+    eyeClosureDuration,
+    isSustainedClosure,
+    perclos,
+    perclosReady,
+    imageQuality,
+    eyeSignalsTrusted,
+    eyewearActive,
+    blinkIrregularity,
+    blinkDetected,
+    eyesOpen,
+    ...yawn,
+    ...head,
+  }
+}
+
+export function analyzeFrame(
+  state: DrowsinessState,
+  config: DrowsinessConfig,
+  frame: LandmarkFrame,
+  landmarkMap: FaceLandmarkMap = MEDIAPIPE_FACE_MESH_LANDMARKS,
+): FrameAnalysis {
+  const { keypoints, timestamp } = frame
+
+  const leftEyeEARPoints = selectEyeLandmarks(keypoints, landmarkMap.leftEye)
+  const rightEyeEARPoints = selectEyeLandmarks(keypoints, landmarkMap.rightEye)
+
+  const leftEAR = calculateEyeAspectRatio(leftEyeEARPoints)
+  const rightEAR = calculateEyeAspectRatio(rightEyeEARPoints)
+  const { ear: currentEAR, asymmetric: eyeAsymmetry } = combineEyeAspectRatios(
+    leftEAR,
+    rightEAR,
+    config.eyeAsymmetryTolerance,
+  )
+  const mouthAR = calculateMouthAspectRatio(selectMouthLandmarks(keypoints, landmarkMap.mouth))
+
+  const analysis = analyzeDrowsinessPattern(
+    state,
+    config,
+    currentEAR,
+    timestamp,
+    mouthAR,
+    keypoints,
+    frame,
+  )
+
+  return {
+    ...analysis,
+    timestamp,
+    leftEAR,
+    rightEAR,
+    eyeAsymmetry,
+    currentEAR,
+    mouthAR,
+    leftEyePoints: selectContour(keypoints, landmarkMap.leftEye.contour),
+    rightEyePoints: selectContour(keypoints, landmarkMap.rightEye.contour),
+    mouthPoints: selectContour(keypoints, landmarkMap.mouth.contour),
+    leftEyeEARPoints: leftEyeEARPoints ?? [],
+    rightEyeEARPoints: rightEyeEARPoints ?? [],
+  }
+}
+
+// EAR of any face in view, e.g. passengers who are tracked but not analysed
+export function measureFaceEAR(
+  keypoints: Point[],
+  config: DrowsinessConfig,
+  landmarkMap: FaceLandmarkMap = MEDIAPIPE_FACE_MESH_LANDMARKS,
+) {
+  const leftEAR = calculateEyeAspectRatio(selectEyeLandmarks(keypoints, landmarkMap.leftEye))
+  const rightEAR = calculateEyeAspectRatio(selectEyeLandmarks(keypoints, landmarkMap.rightEye))
+  return combineEyeAspectRatios(leftEAR, rightEAR, config.eyeAsymmetryTolerance).ear
+}
+
+// Runs a sequence of frames through a fresh engine state, e.g. for headless evaluation
+export function analyzeFrames(
+  frames: Iterable<LandmarkFrame>,
+  config: DrowsinessConfig = DEFAULT_DROWSINESS_CONFIG,
+  state: DrowsinessState = createDrowsinessState(),
+): FrameAnalysis[] {
+  const results: FrameAnalysis[] = []
+  for (const frame of frames) {
+    results.push(analyzeFrame(state, config, frame))
+  }
+  return results
+}
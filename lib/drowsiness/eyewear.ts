@@ -0,0 +1,34 @@
+import { MEDIAPIPE_FACE_MESH_LANDMARKS, type FaceLandmarkMap } from "./landmarks"
+import type { DrowsinessConfig, Point } from "./types"
+
+// Eye reliability below which the eyes count as hidden behind eyewear, even without the profile setting
+export const EYEWEAR_RELIABILITY = 0.5
+
+// Blink regularity needs a few intervals before its spread means anything
+const MIN_BLINKS_FOR_REGULARITY = 5
+
+export function isEyewearActive(config: DrowsinessConfig, eyeReliability = 1) {
+  return config.eyewearMode || eyeReliability < EYEWEAR_RELIABILITY
+}
+
+// Mean detector confidence over the EAR points of both eyes, or null when the detector reports none
+export function eyeLandmarkConfidence(
+  keypoints: Point[],
+  landmarkMap: FaceLandmarkMap = MEDIAPIPE_FACE_MESH_LANDMARKS,
+) {
+  const scores = [...landmarkMap.leftEye.ear, ...landmarkMap.rightEye.ear]
+    .map((index) => keypoints[index]?.score)
+    .filter((score): score is number => typeof score === "number")
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null
+}
+
+// Coefficient of variation of the gaps between blinks: alert drivers blink at a fairly steady rhythm, tired ones
+// in irregular clusters. Only needs blink timing, so it survives lenses that throw off the EAR level.
+export function measureBlinkIrregularity(blinkTimes: number[]) {
+  if (blinkTimes.length < MIN_BLINKS_FOR_REGULARITY) return 0
+  const intervals = blinkTimes.slice(1).map((time, i) => time - blinkTimes[i])
+  const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length
+  if (mean === 0) return 0
+  const variance = intervals.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) / intervals.length
+  return Math.sqrt(variance) / mean
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest"
+import { createDrowsinessState, DEFAULT_DROWSINESS_CONFIG } from "./engine"
+import { estimateHeadPose, updateHeadPoseState, type HeadPoseUpdate } from "./head-pose"
+import type { Point } from "./types"
+
+// Forehead, chin, nose tip and outer eye corners of a face mesh, pitched down by the given angle in degrees
+function face(pitch: number, yaw = 0): Point[] {
+  const keypoints: Point[] = Array.from({ length: 468 }, () => ({ x: 0, y: 0, z: 0 }))
+  const depth = 100 * Math.tan((pitch * Math.PI) / 180)
+  const turn = 50 * Math.tan((yaw * Math.PI) / 180)
+  keypoints[10] = { x: 0, y: -100, z: -depth }
+  keypoints[152] = { x: 0, y: 100, z: depth }
+  keypoints[1] = { x: 0, y: 20, z: -20 }
+  keypoints[33] = { x: -50, y: 0, z: -turn }
+  keypoints[263] = { x: 50, y: 0, z: turn }
+  return keypoints
+}
+
+// Feeds head pitch at 30 fps, as [pitch, duration in ms] segments
+function play(segments: Array<[number, number]>) {
+  const state = createDrowsinessState()
+  const updates: HeadPoseUpdate[] = []
+  let timestamp = 0
+  for (const [pitch, duration] of segments) {
+    for (const end = timestamp + duration; timestamp < end; timestamp += 33) {
+      updates.push(updateHeadPoseState(state, DEFAULT_DROWSINESS_CONFIG, face(pitch), timestamp))
+    }
+  }
+  return { updates, state }
+}
+
+const completed = (updates: HeadPoseUpdate[]) => updates.flatMap((update) => update.completedNod ?? [])
+
+describe("head pose", () => {
+  it("estimates pitch and yaw from 3D landmarks", () => {
+    const pose = estimateHeadPose(face(20, -10))!
+
+    expect(pose.pitch).toBeCloseTo(20)
+    expect(pose.yaw).toBeCloseTo(-10)
+    expect(pose.roll).toBeCloseTo(0)
+  })
+
+  it("needs the forehead, chin, nose and eye corners", () => {
+    expect(estimateHeadPose([])).toBeNull()
+  })
+
+  it("counts a sudden brief drop as a nod once the head comes back up", () => {
+    const { updates } = play([
+      [0, 1000],
+      [25, 600],
+      [0, 500],
+    ])
+
+    const nods = completed(updates)
+    expect(nods).toHaveLength(1)
+    expect(nods[0].duration).toBeGreaterThanOrEqual(550)
+    expect(updates.at(-1)!.recentNodCount).toBe(1)
+  })
+
+  it("reports a sustained head drop instead of a nod", () => {
+    const { updates } = play([
+      [0, 1000],
+      [25, 2500],
+      [0, 500],
+    ])
+
+    expect(updates.some((update) => update.isHeadDown)).toBe(true)
+    expect(completed(updates)).toHaveLength(0)
+  })
+
+  it("measures the drop from the driver's own neutral posture", () => {
+    const { updates } = play([[10, 2000]])
+
+    expect(updates.at(-1)!.pitchDelta).toBeCloseTo(0)
+    expect(updates.at(-1)!.isHeadDown).toBe(false)
+  })
+
+  it("ignores pitch while the head is turned to check a mirror", () => {
+    const state = createDrowsinessState()
+    updateHeadPoseState(state, DEFAULT_DROWSINESS_CONFIG, face(0), 0)
+    const update = updateHeadPoseState(state, DEFAULT_DROWSINESS_CONFIG, face(25, 45), 33)
+
+    expect(update.pitchDelta).toBe(0)
+    expect(state.headDownStartTime).toBeNull()
+  })
+})
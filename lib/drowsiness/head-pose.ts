@@ -0,0 +1,109 @@
+import type { DrowsinessConfig, DrowsinessState, HeadNodEvent, HeadPose, Point } from "./types"
+
+// MediaPipe face mesh indices
+const FOREHEAD = 10
+const CHIN = 152
+const NOSE_TIP = 1
+const LEFT_EYE_OUTER = 33
+const RIGHT_EYE_OUTER = 263
+
+// A drop that reaches the threshold within this time of the head being upright counts as sudden
+const NOD_ONSET_MS = 700
+// Head turned further than this (checking mirrors) makes pitch unreliable
+const MAX_YAW_FOR_PITCH = 30
+// How quickly the neutral pitch follows slow posture changes
+const BASELINE_ADAPTATION = 0.02
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+export function estimateHeadPose(keypoints: Point[]): HeadPose | null {
+  const forehead = keypoints[FOREHEAD]
+  const chin = keypoints[CHIN]
+  const nose = keypoints[NOSE_TIP]
+  const leftEye = keypoints[LEFT_EYE_OUTER]
+  const rightEye = keypoints[RIGHT_EYE_OUTER]
+  if (!forehead || !chin || !nose || !leftEye || !rightEye) return null
+
+  const eyeX = rightEye.x - leftEye.x
+  const eyeY = rightEye.y - leftEye.y
+  const roll = toDegrees(Math.atan2(eyeY, eyeX))
+
+  const has3D = [forehead, chin, leftEye, rightEye].every((point) => typeof point.z === "number")
+  if (has3D) {
+    // Positive pitch is head tilted down (forehead towards the camera), positive yaw is turned to the right
+    const pitch = toDegrees(Math.atan2(chin.z! - forehead.z!, chin.y - forehead.y))
+    const yaw = toDegrees(Math.atan2(rightEye.z! - leftEye.z!, eyeX))
+    return { pitch, yaw, roll }
+  }
+
+  // 2D fallback: where the nose sits between the eye line and the chin, and left/right of the eye midpoint
+  const eyeMidX = (leftEye.x + rightEye.x) / 2
+  const eyeMidY = (leftEye.y + rightEye.y) / 2
+  const eyeDistance = Math.sqrt(eyeX * eyeX + eyeY * eyeY) || 1
+  const faceHeight = chin.y - eyeMidY || 1
+  const pitch = ((nose.y - eyeMidY) / faceHeight - 0.45) * 120
+  const yaw = ((nose.x - eyeMidX) / eyeDistance) * 90
+  return { pitch, yaw, roll }
+}
+
+export interface HeadPoseUpdate {
+  headPose: HeadPose | null
+  pitchDelta: number
+  isHeadDown: boolean
+  headDownDuration: number
+  completedNod: HeadNodEvent | null
+  recentNodCount: number
+}
+
+export function updateHeadPoseState(
+  state: DrowsinessState,
+  config: DrowsinessConfig,
+  keypoints: Point[],
+  timestamp: number,
+): HeadPoseUpdate {
+  const headPose = estimateHeadPose(keypoints)
+  let completedNod: HeadNodEvent | null = null
+  let pitchDelta = 0
+
+  if (headPose && Math.abs(headPose.yaw) <= MAX_YAW_FOR_PITCH) {
+    if (state.pitchBaseline === null) {
+      state.pitchBaseline = headPose.pitch
+    }
+    pitchDelta = headPose.pitch - state.pitchBaseline
+
+    if (pitchDelta > config.headPitchThreshold) {
+      if (state.headDownStartTime === null) {
+        state.headDownStartTime = timestamp
+      }
+    } else if (pitchDelta < config.headPitchThreshold / 2) {
+      // Hysteresis: the head must come most of the way back up before the drop ends
+      if (state.headDownStartTime !== null) {
+        const duration = timestamp - state.headDownStartTime
+        const wasSudden = state.lastUprightTime !== null && state.headDownStartTime - state.lastUprightTime <= NOD_ONSET_MS
+        if (duration < config.headDownDuration && wasSudden) {
+          completedNod = { timestamp: state.headDownStartTime, duration }
+          state.recentNods.push(state.headDownStartTime)
+        }
+        state.headDownStartTime = null
+      }
+      state.lastUprightTime = timestamp
+      state.pitchBaseline += (headPose.pitch - state.pitchBaseline) * BASELINE_ADAPTATION
+    }
+  }
+
+  const windowStart = timestamp - config.nodWindow
+  while (state.recentNods.length > 0 && state.recentNods[0] < windowStart) {
+    state.recentNods.shift()
+  }
+
+  const headDownDuration = state.headDownStartTime !== null ? timestamp - state.headDownStartTime : 0
+
+  return {
+    headPose,
+    pitchDelta,
+    isHeadDown: headDownDuration >= config.headDownDuration,
+    headDownDuration,
+    completedNod,
+    recentNodCount: state.recentNods.length,
+  }
+}
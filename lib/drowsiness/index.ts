@@ -0,0 +1,10 @@
+export * from "./types"
+export * from "./metrics"
+export * from "./landmarks"
+export * from "./engine"
+export * from "./perclos"
+export * from "./yawn"
+export * from "./head-pose"
+export * from "./presence"
+export * from "./eyewear"
+export * from "./calibration"
@@ -0,0 +1,67 @@
+import type { Point } from "./types"
+
+// Six-point eye model: P1 and P4 are the corners, P2/P6 and P3/P5 are the upper/lower lid pairs
+export type EyeLandmarkIndices = [p1: number, p2: number, p3: number, p4: number, p5: number, p6: number]
+
+export interface EyeLandmarkMap {
+  ear: EyeLandmarkIndices
+  contour: number[]
+}
+
+export interface MouthLandmarkMap {
+  corners: [left: number, right: number]
+  verticalPairs: Array<[upper: number, lower: number]>
+  contour: number[]
+}
+
+export interface FaceLandmarkMap {
+  leftEye: EyeLandmarkMap
+  rightEye: EyeLandmarkMap
+  mouth: MouthLandmarkMap
+}
+
+// MediaPipe face mesh (468/478 points). "Left" and "right" are as seen in the image.
+export const MEDIAPIPE_FACE_MESH_LANDMARKS: FaceLandmarkMap = {
+  leftEye: {
+    ear: [33, 160, 158, 133, 153, 144],
+    contour: [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246],
+  },
+  rightEye: {
+    ear: [362, 385, 387, 263, 373, 380],
+    contour: [362, 382, 381, 380, 374, 373, 390, 249, 263, 466, 388, 387, 386, 385, 384, 398],
+  },
+  mouth: {
+    // Inner lip line, so a closed mouth reads close to zero regardless of lip thickness
+    corners: [78, 308],
+    verticalPairs: [
+      [81, 178],
+      [13, 14],
+      [311, 402],
+    ],
+    contour: [61, 84, 17, 314, 405, 320, 307, 375, 321, 308, 324, 318],
+  },
+}
+
+// Returns null unless every requested landmark is present, so partial meshes never produce a ratio
+export function selectLandmarks(keypoints: Point[], indices: readonly number[]): Point[] | null {
+  const points: Point[] = []
+  for (const index of indices) {
+    const point = keypoints[index]
+    if (!point) return null
+    points.push(point)
+  }
+  return points
+}
+
+export function selectEyeLandmarks(keypoints: Point[], eye: EyeLandmarkMap) {
+  return selectLandmarks(keypoints, eye.ear)
+}
+
+// Ordered as [left corner, right corner, upper1, lower1, upper2, lower2, ...]
+export function selectMouthLandmarks(keypoints: Point[], mouth: MouthLandmarkMap) {
+  return selectLandmarks(keypoints, [...mouth.corners, ...mouth.verticalPairs.flat()])
+}
+
+export function selectContour(keypoints: Point[], indices: number[]) {
+  return indices.map((i) => keypoints[i]).filter(Boolean)
+}
@@ -0,0 +1,48 @@
+import type { Point } from "./types"
+
+export const distance = (a: Point, b: Point) => Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2))
+
+// Expects the six-point eye model [P1..P6] from selectEyeLandmarks
+export function calculateEyeAspectRatio(eyePoints: Point[] | null) {
+  if (!eyePoints || eyePoints.length < 6) return 0
+
+  // Calculate vertical distances (P2-P6, P3-P5)
+  const v1 = distance(eyePoints[1], eyePoints[5])
+  const v2 = distance(eyePoints[2], eyePoints[4])
+
+  // Calculate horizontal distance (P1-P4)
+  const h = distance(eyePoints[0], eyePoints[3])
+  if (h === 0) return 0
+
+  // Eye aspect ratio
+  return (v1 + v2) / (2.0 * h)
+}
+
+// Expects [left corner, right corner, upper1, lower1, upper2, lower2, ...] from selectMouthLandmarks
+export function calculateMouthAspectRatio(mouthPoints: Point[] | null) {
+  if (!mouthPoints || mouthPoints.length < 4 || mouthPoints.length % 2 !== 0) return 0
+
+  // Calculate horizontal distance (mouth width)
+  const h = distance(mouthPoints[0], mouthPoints[1])
+  if (h === 0) return 0
+
+  // Average the vertical distances (mouth height)
+  let vertical = 0
+  const pairs = (mouthPoints.length - 2) / 2
+  for (let i = 2; i < mouthPoints.length; i += 2) {
+    vertical += distance(mouthPoints[i], mouthPoints[i + 1])
+  }
+
+  return vertical / (pairs * h)
+}
+
+// One eye reading much lower than the other is usually occlusion or a turned head, not a closing eye,
+// so in that case only the more open eye is trusted. A missing eye (EAR 0) falls back to the other one.
+export function combineEyeAspectRatios(leftEAR: number, rightEAR: number, asymmetryTolerance: number) {
+  if (leftEAR <= 0 || rightEAR <= 0) {
+    return { ear: Math.max(leftEAR, rightEAR), asymmetric: leftEAR !== rightEAR }
+  }
+
+  const asymmetric = Math.abs(leftEAR - rightEAR) / Math.max(leftEAR, rightEAR) > asymmetryTolerance
+  return { ear: asymmetric ? Math.max(leftEAR, rightEAR) : (leftEAR + rightEAR) / 2, asymmetric }
+}
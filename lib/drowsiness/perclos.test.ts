@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_DROWSINESS_CONFIG } from "./engine"
+import { computePerclos, getPerclosClosedEAR } from "./perclos"
+
+// One sample every `interval` ms from 0 to `duration`, closed for the given share at the end
+function samples(duration: number, interval: number, closedShare: number) {
+  const timestamps: number[] = []
+  const earValues: number[] = []
+  for (let t = 0; t < duration; t += interval) {
+    timestamps.push(t)
+    earValues.push(t >= duration * (1 - closedShare) ? 0.1 : 0.3)
+  }
+  return { timestamps, earValues }
+}
+
+describe("PERCLOS", () => {
+  it("uses the P80 point between the open and closed baselines", () => {
+    expect(getPerclosClosedEAR(DEFAULT_DROWSINESS_CONFIG)).toBeCloseTo(0.14)
+  })
+
+  it.each([33, 100, 200])("measures the closed share of the window with samples every %i ms", (interval) => {
+    const { timestamps, earValues } = samples(60000, interval, 0.25)
+    const { perclos, coverage } = computePerclos(timestamps, earValues, 0.14, 60000, 60000)
+
+    expect(perclos).toBeCloseTo(0.25, 2)
+    expect(coverage).toBe(60000)
+  })
+
+  it("only looks at the window", () => {
+    const { timestamps, earValues } = samples(60000, 100, 0.5)
+    expect(computePerclos(timestamps, earValues, 0.14, 30000, 60000).perclos).toBe(1)
+  })
+
+  it("caps the weight of a sample that arrives after a long stall", () => {
+    const result = computePerclos([0, 10000], [0.1, 0.3], 0.14, 60000, 10100)
+
+    expect(result.coverage).toBe(600)
+    expect(result.perclos).toBeCloseTo(500 / 600)
+  })
+
+  it("reports no coverage without samples", () => {
+    expect(computePerclos([], [], 0.14, 60000, 1000)).toEqual({ perclos: 0, coverage: 0 })
+  })
+})
@@ -0,0 +1,38 @@
+import type { DrowsinessConfig } from "./types"
+
+// A frame longer than this (tab throttled, detector stalled) only counts for this long
+const MAX_SAMPLE_DURATION_MS = 500
+
+export interface PerclosResult {
+  perclos: number // fraction 0-1 of the covered time with eyes at least 80% closed
+  coverage: number // milliseconds of the window actually backed by samples
+}
+
+// EAR at which the eyelid covers 80% of the open-to-closed range (the P80 criterion)
+export function getPerclosClosedEAR(config: DrowsinessConfig) {
+  return config.baselineClosedEAR + (config.baselineOpenEAR - config.baselineClosedEAR) * 0.2
+}
+
+export function computePerclos(
+  timestamps: number[],
+  earValues: number[],
+  closedEAR: number,
+  windowMs: number,
+  now: number,
+): PerclosResult {
+  const windowStart = now - windowMs
+  let closedTime = 0
+  let coverage = 0
+
+  for (let i = 0; i < timestamps.length; i++) {
+    if (timestamps[i] < windowStart) continue
+    const next = i + 1 < timestamps.length ? timestamps[i + 1] : now
+    const duration = Math.min(next - timestamps[i], MAX_SAMPLE_DURATION_MS)
+    coverage += duration
+    if (earValues[i] <= closedEAR) {
+      closedTime += duration
+    }
+  }
+
+  return { perclos: coverage > 0 ? closedTime / coverage : 0, coverage }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+import { createDrowsinessState, DEFAULT_DROWSINESS_CONFIG } from "./engine"
+import { closeFaceLoss, updateFacePresence } from "./presence"
+
+const config = DEFAULT_DROWSINESS_CONFIG
+
+describe("face presence", () => {
+  it("searches during the grace period and reports the face lost after it", () => {
+    const state = createDrowsinessState()
+    updateFacePresence(state, config, true, "no-face", 0)
+
+    expect(updateFacePresence(state, config, false, "no-face", 1000).status).toBe("searching")
+    const lost = updateFacePresence(state, config, false, "covered", 1000 + config.faceLostGrace)
+    expect(lost).toMatchObject({ status: "lost", lostDuration: config.faceLostGrace, reason: "covered" })
+  })
+
+  it("records the loss with its latest reason once the face returns", () => {
+    const state = createDrowsinessState()
+    updateFacePresence(state, config, false, "no-face", 1000)
+    updateFacePresence(state, config, false, "dark", 4000)
+
+    const back = updateFacePresence(state, config, true, "no-face", 6000)
+    expect(back.status).toBe("present")
+    expect(back.completedLoss).toEqual({ timestamp: 1000, duration: 5000, reason: "dark" })
+  })
+
+  it("doesn't record a face that was only missing briefly", () => {
+    const state = createDrowsinessState()
+    updateFacePresence(state, config, false, "no-face", 1000)
+
+    expect(updateFacePresence(state, config, true, "no-face", 1500).completedLoss).toBeNull()
+    expect(state.faceLostSince).toBeNull()
+  })
+
+  it("closes a loss still in progress when monitoring stops", () => {
+    const state = createDrowsinessState()
+    updateFacePresence(state, config, false, "frozen", 0)
+
+    expect(closeFaceLoss(state, config, 10000)).toEqual({ timestamp: 0, duration: 10000, reason: "frozen" })
+    expect(closeFaceLoss(state, config, 11000)).toBeNull()
+  })
+})
@@ -0,0 +1,54 @@
+import type { DrowsinessConfig, DrowsinessState, FaceLossReason, FaceLostEvent, FacePresenceStatus } from "./types"
+
+export const FACE_LOSS_LABELS: Record<FaceLossReason, string> = {
+  "no-face": "Driver not visible",
+  dark: "Camera image too dark",
+  covered: "Camera covered",
+  frozen: "Camera image frozen",
+}
+
+export interface FacePresenceUpdate {
+  status: FacePresenceStatus
+  lostDuration: number
+  reason: FaceLossReason | null
+  completedLoss: FaceLostEvent | null // set on the frame the face returns after being lost
+}
+
+// Tracks how long the face has been missing. Once past the grace period it counts as lost, which the escalation
+// policy can alert on.
+export function updateFacePresence(
+  state: DrowsinessState,
+  config: DrowsinessConfig,
+  faceFound: boolean,
+  reason: FaceLossReason,
+  timestamp: number,
+): FacePresenceUpdate {
+  if (faceFound) {
+    const completedLoss = closeFaceLoss(state, config, timestamp)
+    return { status: "present", lostDuration: 0, reason: null, completedLoss }
+  }
+
+  if (state.faceLostSince === null) {
+    state.faceLostSince = timestamp
+  }
+  state.faceLossReason = reason
+
+  const lostDuration = timestamp - state.faceLostSince
+  const status = lostDuration < config.faceLostGrace ? "searching" : "lost"
+  return { status, lostDuration, reason, completedLoss: null }
+}
+
+// Ends any loss in progress, e.g. when the face returns or monitoring stops. Losses shorter than the grace period
+// were never alerted on and aren't recorded.
+export function closeFaceLoss(state: DrowsinessState, config: DrowsinessConfig, timestamp: number) {
+  let loss: FaceLostEvent | null = null
+  if (state.faceLostSince !== null) {
+    const duration = timestamp - state.faceLostSince
+    if (duration >= config.faceLostGrace) {
+      loss = { timestamp: state.faceLostSince, duration, reason: state.faceLossReason ?? "no-face" }
+    }
+  }
+  state.faceLostSince = null
+  state.faceLossReason = null
+  return loss
+}
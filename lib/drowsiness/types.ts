@@ -0,0 +1,123 @@
+export interface Point {
+  x: number
+  y: number
+  z?: number
+  score?: number // detector confidence in this landmark, 0-1, when the detector reports one
+}
+
+export interface LandmarkFrame {
+  timestamp: number
+  keypoints: Point[]
+  box?: { xMin: number; yMin: number; width: number; height: number }
+  quality?: number // 0-1 confidence in the camera image; missing means not assessed
+  eyeReliability?: number // 0-1, low when glasses glare or tinted lenses hide the eyes
+}
+
+export interface YawnEvent {
+  timestamp: number // yawn onset
+  duration: number
+}
+
+export interface HeadPose {
+  pitch: number // degrees, positive is head down
+  yaw: number // degrees, positive is turned right
+  roll: number // degrees, positive is tilted clockwise in the image
+}
+
+export interface HeadNodEvent {
+  timestamp: number // start of the pitch drop
+  duration: number
+}
+
+export type AlertLevel = "low" | "medium" | "high" | "critical"
+
+// Why the driver's face couldn't be analysed. Everything but "no-face" comes from the camera image itself.
+export type FaceLossReason = "no-face" | "dark" | "covered" | "frozen"
+
+export type FacePresenceStatus = "present" | "searching" | "lost" // searching: missing, still within the grace period
+
+export interface FaceLostEvent {
+  timestamp: number // when the face went missing
+  duration: number
+  reason: FaceLossReason
+}
+
+export interface DrowsinessConfig {
+  earThreshold: number
+  lowEARDuration: number
+  blinkThreshold: number
+  yawnThreshold: number
+  perclosWindow: number
+  perclosThreshold: number
+  baselineOpenEAR: number
+  baselineClosedEAR: number
+  yawnMinDuration: number
+  yawnWindow: number
+  yawnAlertCount: number
+  headPitchThreshold: number
+  headDownDuration: number
+  nodWindow: number
+  eyeAsymmetryTolerance: number
+  faceLostGrace: number
+  minImageQuality: number
+  eyewearMode: boolean // the driver wears glasses, so absolute EAR levels aren't trusted
+}
+
+export interface DrowsinessState {
+  earValues: number[]
+  timestamps: number[]
+  eyeClosureStartTime: number | null
+  lastEyeClosureDuration: number
+  blinkStartTime: number | null // eyes dropped below the blink level and haven't reopened yet
+  yawnStartTime: number | null
+  yawnLastOpenTime: number | null
+  recentYawns: number[]
+  pitchBaseline: number | null
+  headDownStartTime: number | null
+  lastUprightTime: number | null
+  recentNods: number[]
+  recentBlinks: number[]
+  faceLostSince: number | null
+  faceLossReason: FaceLossReason | null
+}
+
+export interface DrowsinessAnalysis {
+  isDrowsy: boolean
+  blinkRate: number
+  avgEAR: number
+  drowsinessScore: number
+  eyeClosureDuration: number
+  isSustainedClosure: boolean
+  perclos: number
+  perclosReady: boolean
+  imageQuality: number
+  eyeSignalsTrusted: boolean // false when the image is too poor for EAR-based alerts
+  eyewearActive: boolean // leaning on head pose, yawns and blink rhythm instead of the EAR level
+  blinkIrregularity: number
+  blinkDetected: boolean // a blink completed on this frame: the eyes closed briefly and have just reopened
+  eyesOpen: boolean // eyes visible and clearly open, not just rising back through the blink level
+  isYawning: boolean
+  yawnDuration: number
+  recentYawnCount: number
+  completedYawn: YawnEvent | null
+  headPose: HeadPose | null
+  pitchDelta: number
+  isHeadDown: boolean
+  headDownDuration: number
+  completedNod: HeadNodEvent | null
+  recentNodCount: number
+}
+
+export interface FrameAnalysis extends DrowsinessAnalysis {
+  timestamp: number
+  leftEAR: number
+  rightEAR: number
+  eyeAsymmetry: boolean // eyes disagree enough that only the more open one is trusted
+  currentEAR: number
+  mouthAR: number
+  leftEyePoints: Point[]
+  rightEyePoints: Point[]
+  mouthPoints: Point[]
+  leftEyeEARPoints: Point[]
+  rightEyeEARPoints: Point[]
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import { createDrowsinessState, DEFAULT_DROWSINESS_CONFIG } from "./engine"
+import { updateYawnState, type YawnUpdate } from "./yawn"
+import type { DrowsinessState } from "./types"
+
+const OPEN = 0.8
+const CLOSED = 0.2
+
+// Feeds mouth aspect ratios at 30 fps, as [mouthAR, duration in ms] segments
+function play(segments: Array<[number, number]>, state: DrowsinessState = createDrowsinessState(), start = 0) {
+  const updates: YawnUpdate[] = []
+  let timestamp = start
+  for (const [mouthAR, duration] of segments) {
+    for (const end = timestamp + duration; timestamp < end; timestamp += 33) {
+      updates.push(updateYawnState(state, DEFAULT_DROWSINESS_CONFIG, mouthAR, timestamp))
+    }
+  }
+  return { updates, state, end: timestamp }
+}
+
+const completed = (updates: YawnUpdate[]) => updates.flatMap((update) => update.completedYawn ?? [])
+
+describe("yawns", () => {
+  it("reports one yawn once the mouth has closed", () => {
+    const { updates } = play([
+      [CLOSED, 1000],
+      [OPEN, 2000],
+      [CLOSED, 1000],
+    ])
+
+    const yawns = completed(updates)
+    expect(yawns).toHaveLength(1)
+    expect(yawns[0].timestamp).toBeGreaterThanOrEqual(1000)
+    expect(yawns[0].duration).toBeGreaterThanOrEqual(1900)
+    expect(updates.at(-1)!.recentYawnCount).toBe(1)
+  })
+
+  it("marks the driver as yawning only after the minimum duration", () => {
+    const { updates } = play([[OPEN, 1000]])
+    expect(updates.at(-1)!.isYawning).toBe(false)
+
+    const longer = play([[OPEN, 1600]])
+    expect(longer.updates.at(-1)!.isYawning).toBe(true)
+  })
+
+  it("ignores talking and short mouth movements", () => {
+    const { updates } = play([
+      [OPEN, 400],
+      [CLOSED, 600],
+      [OPEN, 300],
+      [CLOSED, 600],
+    ])
+
+    expect(completed(updates)).toHaveLength(0)
+  })
+
+  it("keeps a yawn whole across a brief dip", () => {
+    const { updates } = play([
+      [OPEN, 1000],
+      [CLOSED, 300],
+      [OPEN, 1000],
+      [CLOSED, 1000],
+    ])
+
+    const yawns = completed(updates)
+    expect(yawns).toHaveLength(1)
+    expect(yawns[0].duration).toBeGreaterThanOrEqual(2200)
+  })
+
+  it("forgets yawns that fall out of the window", () => {
+    const first = play([
+      [OPEN, 2000],
+      [CLOSED, 1000],
+    ])
+    const { updates } = play([[CLOSED, 1000]], first.state, DEFAULT_DROWSINESS_CONFIG.yawnWindow + 1000)
+
+    expect(updates.at(-1)!.recentYawnCount).toBe(0)
+  })
+})
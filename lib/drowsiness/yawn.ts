@@ -0,0 +1,56 @@
+import type { DrowsinessConfig, DrowsinessState, YawnEvent } from "./types"
+
+// Mouth must stay below the yawn threshold this long before a yawn is considered over,
+// so a brief dip mid-yawn doesn't split one yawn into two events
+const YAWN_RELEASE_MS = 500
+
+export interface YawnUpdate {
+  isYawning: boolean
+  yawnDuration: number
+  recentYawnCount: number
+  completedYawn: YawnEvent | null
+}
+
+export function updateYawnState(
+  state: DrowsinessState,
+  config: DrowsinessConfig,
+  mouthAR: number,
+  timestamp: number,
+): YawnUpdate {
+  let completedYawn: YawnEvent | null = null
+
+  if (mouthAR > config.yawnThreshold) {
+    if (state.yawnStartTime === null) {
+      state.yawnStartTime = timestamp
+    }
+    state.yawnLastOpenTime = timestamp
+  } else if (
+    state.yawnStartTime !== null &&
+    state.yawnLastOpenTime !== null &&
+    timestamp - state.yawnLastOpenTime > YAWN_RELEASE_MS
+  ) {
+    const duration = state.yawnLastOpenTime - state.yawnStartTime
+    // Talking and short mouth movements don't last long enough to count
+    if (duration >= config.yawnMinDuration) {
+      completedYawn = { timestamp: state.yawnStartTime, duration }
+      state.recentYawns.push(state.yawnStartTime)
+    }
+    state.yawnStartTime = null
+    state.yawnLastOpenTime = null
+  }
+
+  const windowStart = timestamp - config.yawnWindow
+  while (state.recentYawns.length > 0 && state.recentYawns[0] < windowStart) {
+    state.recentYawns.shift()
+  }
+
+  const yawnDuration =
+    state.yawnStartTime !== null && state.yawnLastOpenTime !== null ? state.yawnLastOpenTime - state.yawnStartTime : 0
+
+  return {
+    isYawning: yawnDuration >= config.yawnMinDuration,
+    yawnDuration,
+    recentYawnCount: state.recentYawns.length,
+    completedYawn,
+  }
+}
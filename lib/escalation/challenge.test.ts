@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest"
+import { analyzeDrowsinessPattern, createDrowsinessState, DEFAULT_DROWSINESS_CONFIG } from "@/lib/drowsiness"
+import {
+  createChallenge,
+  nextAlertLevel,
+  recordChallengeBlink,
+  requiresAcknowledgement,
+  resolveChallenge,
+  summarizeAcknowledgements,
+} from "./challenge"
+import type { AcknowledgementSettings } from "./types"
+
+const SETTINGS: AcknowledgementSettings = { enabled: true, minLevel: "critical", timeoutSeconds: 8, doubleBlink: true }
+const OPEN = 0.3
+const SHUT = 0.1
+
+// Runs an EAR trace at 30 fps through the engine and hands each completed blink to the challenge, the way the page
+// does. Returns the time the challenge was answered, or null.
+function answerWithEyes(trace: Array<[ear: number | ((frame: number) => number), duration: number]>) {
+  const state = createDrowsinessState()
+  const challenge = createChallenge(SETTINGS, "critical", 0)
+  let segmentStart = 0
+  for (const [ear, duration] of trace) {
+    for (let frame = 0; frame * 33 < duration; frame++) {
+      const timestamp = segmentStart + frame * 33
+      const value = typeof ear === "function" ? ear(frame) : ear
+      const analysis = analyzeDrowsinessPattern(state, DEFAULT_DROWSINESS_CONFIG, value, timestamp)
+      if (analysis.blinkDetected && recordChallengeBlink(challenge, timestamp, analysis.eyesOpen)) return timestamp
+    }
+    segmentStart += duration
+  }
+  return null
+}
+
+describe("acknowledgement challenge", () => {
+  it("only applies from the configured level, and only when enabled", () => {
+    expect(requiresAcknowledgement(SETTINGS, "critical")).toBe(true)
+    expect(requiresAcknowledgement(SETTINGS, "high")).toBe(false)
+    expect(requiresAcknowledgement({ ...SETTINGS, enabled: false }, "critical")).toBe(false)
+    expect(requiresAcknowledgement({ ...SETTINGS, minLevel: "medium" }, "high")).toBe(true)
+  })
+
+  it("escalates one level at a time and stops at critical", () => {
+    expect(nextAlertLevel("low")).toBe("medium")
+    expect(nextAlertLevel("high")).toBe("critical")
+    expect(nextAlertLevel("critical")).toBe("critical")
+  })
+
+  it("places the tap target inside the margins and sets the deadline", () => {
+    const low = createChallenge(SETTINGS, "critical", 1000, () => 0)
+    const high = createChallenge(SETTINGS, "critical", 1000, () => 0.999999)
+
+    expect(low.target).toEqual({ x: 15, y: 15 })
+    expect(high.target.x).toBeCloseTo(85)
+    expect(low.deadline).toBe(9000)
+    expect(createChallenge({ ...SETTINGS, doubleBlink: false }, "critical", 0).methods).toEqual(["tap"])
+  })
+
+  it("accepts two deliberate blinks within a second with the eyes open", () => {
+    const challenge = createChallenge(SETTINGS, "critical", 0)
+    expect(recordChallengeBlink(challenge, 1000, true)).toBe(false)
+    expect(recordChallengeBlink(challenge, 1600, true)).toBe(true)
+  })
+
+  it("rejects reflex blinks, slow pairs, closed eyes and disabled double-blink", () => {
+    const reflex = createChallenge(SETTINGS, "critical", 0)
+    expect(recordChallengeBlink(reflex, 100, true)).toBe(false)
+    expect(recordChallengeBlink(reflex, 900, true)).toBe(false)
+
+    const slow = createChallenge(SETTINGS, "critical", 0)
+    recordChallengeBlink(slow, 1000, true)
+    expect(recordChallengeBlink(slow, 2500, true)).toBe(false)
+
+    const closed = createChallenge(SETTINGS, "critical", 0)
+    recordChallengeBlink(closed, 1000, true)
+    expect(recordChallengeBlink(closed, 1500, false)).toBe(false)
+
+    const tapOnly = createChallenge({ ...SETTINGS, doubleBlink: false }, "critical", 0)
+    recordChallengeBlink(tapOnly, 1000, true)
+    expect(recordChallengeBlink(tapOnly, 1500, true)).toBe(false)
+  })
+
+  it("is never answered by a driver whose eyes stay shut", () => {
+    expect(answerWithEyes([[SHUT, 8000]])).toBeNull()
+    // Landmark jitter on shut eyes must not read as blinking either
+    expect(answerWithEyes([[(frame) => (frame % 3 === 0 ? 0.22 : SHUT), 8000]])).toBeNull()
+  })
+
+  it("is answered by an awake driver's double blink", () => {
+    const answeredAt = answerWithEyes([
+      [OPEN, 1000],
+      [SHUT, 130],
+      [OPEN, 300],
+      [SHUT, 130],
+      [OPEN, 500],
+    ])
+
+    expect(answeredAt).not.toBeNull()
+    expect(answeredAt!).toBeGreaterThan(1430)
+  })
+
+  it("records reaction times and summarises them", () => {
+    const challenge = createChallenge(SETTINGS, "critical", 1000)
+    challenge.missedTaps = 2
+    const answered = resolveChallenge(challenge, "tap", 2500)
+    const missed = resolveChallenge(createChallenge(SETTINGS, "high", 5000), null, 13000)
+
+    expect(answered).toEqual({ timestamp: 1000, level: "critical", method: "tap", reactionTime: 1500, missedTaps: 2 })
+    expect(missed.reactionTime).toBeNull()
+    expect(summarizeAcknowledgements([answered, missed])).toEqual({
+      answered: 1,
+      missed: 1,
+      meanReactionTime: 1500,
+      lastReactionTime: 1500,
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import type { AlertLevel } from "@/lib/drowsiness"
+import { ALERT_LEVELS, alertLevelRank } from "./defaults"
+import type {
+  AcknowledgementChallenge,
+  AcknowledgementEvent,
+  AcknowledgementMethod,
+  AcknowledgementSettings,
+} from "./types"
+
+// Percent kept clear at each edge so the tap target is never clipped
+const TARGET_MARGIN = 15
+// A startle blink right as the alarm sounds is a reflex, not a response
+const REFLEX_BLINK_MS = 400
+// Two blinks this close together count as deliberate; spontaneous blinks are usually seconds apart
+const DOUBLE_BLINK_WINDOW_MS = 1000
+// Responses slower than this are flagged, since slowing reactions are themselves a sign of fatigue
+export const SLOW_REACTION_MS = 2500
+
+export function requiresAcknowledgement(settings: AcknowledgementSettings, level: AlertLevel) {
+  return settings.enabled && alertLevelRank(level) >= alertLevelRank(settings.minLevel)
+}
+
+export function nextAlertLevel(level: AlertLevel): AlertLevel {
+  return ALERT_LEVELS[Math.min(alertLevelRank(level) + 1, ALERT_LEVELS.length - 1)]
+}
+
+// The target moves every time so a reflexive tap on a fixed spot doesn't count as being awake
+export function createChallenge(
+  settings: AcknowledgementSettings,
+  level: AlertLevel,
+  timestamp: number,
+  random: () => number = Math.random,
+): AcknowledgementChallenge {
+  const position = () => TARGET_MARGIN + random() * (100 - 2 * TARGET_MARGIN)
+  return {
+    level,
+    issuedAt: timestamp,
+    deadline: timestamp + settings.timeoutSeconds * 1000,
+    methods: settings.doubleBlink ? ["tap", "double-blink"] : ["tap"],
+    target: { x: position(), y: position() },
+    blinks: [],
+    missedTaps: 0,
+  }
+}
+
+// Pass only completed blinks (closed, then reopened). Returns true once they make a deliberate double blink and
+// the eyes are open, so eyes that simply stay shut can never answer the challenge.
+export function recordChallengeBlink(challenge: AcknowledgementChallenge, timestamp: number, eyesOpen: boolean) {
+  if (!challenge.methods.includes("double-blink") || timestamp - challenge.issuedAt < REFLEX_BLINK_MS) return false
+  challenge.blinks = challenge.blinks.filter((blink) => timestamp - blink <= DOUBLE_BLINK_WINDOW_MS)
+  challenge.blinks.push(timestamp)
+  return eyesOpen && challenge.blinks.length >= 2
+}
+
+// Pass no method when the deadline passed without a valid response
+export function resolveChallenge(
+  challenge: AcknowledgementChallenge,
+  method: AcknowledgementMethod | null,
+  timestamp: number,
+): AcknowledgementEvent {
+  return {
+    timestamp: challenge.issuedAt,
+    level: challenge.level,
+    method,
+    reactionTime: method ? timestamp - challenge.issuedAt : null,
+    missedTaps: challenge.missedTaps,
+  }
+}
+
+export function describeAcknowledgement(event: AcknowledgementEvent) {
+  if (!event.method || event.reactionTime === null) return "No response before the deadline"
+  const method = event.method === "tap" ? "tap" : "double blink"
+  const misses = event.missedTaps > 0 ? `, ${event.missedTaps} missed taps` : ""
+  return `Answered by ${method} in ${(event.reactionTime / 1000).toFixed(1)}s${misses}`
+}
+
+export function summarizeAcknowledgements(events: AcknowledgementEvent[]) {
+  const reactionTimes = events.flatMap((event) => (event.reactionTime === null ? [] : [event.reactionTime]))
+  return {
+    answered: reactionTimes.length,
+    missed: events.length - reactionTimes.length,
+    meanReactionTime:
+      reactionTimes.length > 0 ? reactionTimes.reduce((sum, time) => sum + time, 0) / reactionTimes.length : null,
+    lastReactionTime: reactionTimes.length > 0 ? reactionTimes[reactionTimes.length - 1] : null,
+  }
+}
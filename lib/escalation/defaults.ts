@@ -0,0 +1,164 @@
+import type { AlertLevel } from "@/lib/drowsiness"
+import { POLICY_FORMAT_VERSION, type EscalationPolicy, type PolicyMetric, type PolicyOperator } from "./types"
+
+export const ALERT_LEVELS: AlertLevel[] = ["low", "medium", "high", "critical"]
+
+export const alertLevelRank = (level: AlertLevel) => ALERT_LEVELS.indexOf(level)
+
+export const POLICY_OPERATORS: PolicyOperator[] = [">=", ">", "<=", "<"]
+
+export const POLICY_METRICS: Array<{ metric: PolicyMetric; label: string; unit: string }> = [
+  { metric: "drowsy", label: "Drowsiness sign present", unit: "1 = yes" },
+  { metric: "drowsinessScore", label: "Drowsiness score", unit: "0-100" },
+  { metric: "eyeClosureSeconds", label: "Eye closure", unit: "s" },
+  { metric: "perclosPercent", label: "PERCLOS", unit: "%" },
+  { metric: "recentYawns", label: "Recent yawns", unit: "count" },
+  { metric: "recentNods", label: "Recent head nods", unit: "count" },
+  { metric: "headDownSeconds", label: "Head down", unit: "s" },
+  { metric: "faceLostSeconds", label: "Face lost", unit: "s" },
+]
+
+// Matches the alerts the app raised before policies were configurable: the score only picks the level, it takes
+// a drowsiness sign (low EAR, PERCLOS, yawns, head drops) to raise one
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  version: POLICY_FORMAT_VERSION,
+  name: "Default",
+  rules: [
+    {
+      id: "sustained-closure",
+      name: "Sustained eye closure",
+      enabled: true,
+      level: "critical",
+      conditions: [{ metric: "eyeClosureSeconds", operator: ">=", value: 3 }],
+      holdSeconds: 0,
+      repeat: true,
+      message: "Eyes closed for {eyeClosureSeconds} seconds! Wake up immediately!",
+    },
+    {
+      id: "head-drop",
+      name: "Head dropped",
+      enabled: true,
+      level: "critical",
+      conditions: [{ metric: "headDownSeconds", operator: ">=", value: 2 }],
+      holdSeconds: 0,
+      repeat: true,
+      message: "Head dropped for {headDownSeconds} seconds! Wake up immediately!",
+    },
+    {
+      id: "severe-drowsiness",
+      name: "Severe drowsiness",
+      enabled: true,
+      level: "critical",
+      conditions: [
+        { metric: "drowsy", operator: ">=", value: 1 },
+        { metric: "drowsinessScore", operator: ">", value: 80 },
+      ],
+      holdSeconds: 0,
+      repeat: true,
+      message: "Severe drowsiness detected! Please stop and rest immediately.",
+    },
+    {
+      id: "face-lost-long",
+      name: "Driver out of view (long)",
+      enabled: true,
+      level: "critical",
+      conditions: [{ metric: "faceLostSeconds", operator: ">=", value: 10 }],
+      holdSeconds: 0,
+      repeat: true,
+      message: "Driver not visible or camera blocked for {faceLostSeconds} seconds.",
+    },
+    {
+      id: "head-nodding",
+      name: "Head nodding",
+      enabled: true,
+      level: "high",
+      conditions: [{ metric: "recentNods", operator: ">=", value: 1 }],
+      holdSeconds: 0,
+      repeat: false,
+      message: "Head nodding detected. Pull over and take a break.",
+    },
+    {
+      id: "perclos",
+      name: "High PERCLOS",
+      enabled: true,
+      level: "high",
+      conditions: [
+        { metric: "perclosPercent", operator: ">=", value: 15 },
+        { metric: "drowsinessScore", operator: ">", value: 60 },
+      ],
+      holdSeconds: 0,
+      repeat: true,
+      message: "Eyes closed {perclosPercent}% of the time recently. Consider taking a break.",
+    },
+    {
+      id: "significant-drowsiness",
+      name: "Significant drowsiness",
+      enabled: true,
+      level: "high",
+      conditions: [
+        { metric: "drowsy", operator: ">=", value: 1 },
+        { metric: "drowsinessScore", operator: ">", value: 60 },
+      ],
+      holdSeconds: 0,
+      repeat: true,
+      message: "Significant drowsiness detected. Consider taking a break.",
+    },
+    {
+      id: "face-lost-medium",
+      name: "Driver out of view",
+      enabled: true,
+      level: "high",
+      conditions: [{ metric: "faceLostSeconds", operator: ">=", value: 5 }],
+      holdSeconds: 0,
+      repeat: true,
+      message: "Driver not visible or camera blocked for {faceLostSeconds} seconds.",
+    },
+    {
+      id: "repeated-yawning",
+      name: "Repeated yawning",
+      enabled: true,
+      level: "medium",
+      conditions: [{ metric: "recentYawns", operator: ">=", value: 3 }],
+      holdSeconds: 0,
+      repeat: false,
+      message: "{recentYawns} yawns recently. Stay alert.",
+    },
+    {
+      id: "drowsiness-signs",
+      name: "Drowsiness signs",
+      enabled: true,
+      level: "medium",
+      conditions: [
+        { metric: "drowsy", operator: ">=", value: 1 },
+        { metric: "drowsinessScore", operator: ">", value: 40 },
+      ],
+      holdSeconds: 0,
+      repeat: true,
+      message: "Drowsiness signs detected. Stay alert.",
+    },
+    {
+      id: "face-lost",
+      name: "Face lost",
+      enabled: true,
+      level: "medium",
+      conditions: [{ metric: "faceLostSeconds", operator: ">", value: 0 }],
+      holdSeconds: 0,
+      repeat: false,
+      message: "Driver not visible or camera blocked.",
+    },
+    {
+      id: "eyes-closing",
+      name: "Eyes closing",
+      enabled: true,
+      level: "low",
+      conditions: [{ metric: "eyeClosureSeconds", operator: ">=", value: 1 }],
+      holdSeconds: 0,
+      repeat: false,
+      message: "Mild drowsiness detected.",
+    },
+  ],
+  cooldownSeconds: { low: 10, medium: 5, high: 3, critical: 3 },
+  clearSeconds: 2,
+  escalation: { enabled: true, afterSeconds: 10, maxLevel: "critical" },
+  acknowledgement: { enabled: false, minLevel: "critical", timeoutSeconds: 8, doubleBlink: true },
+}
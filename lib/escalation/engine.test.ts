@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest"
+import { analyzeDrowsinessPattern, createDrowsinessState, DEFAULT_DROWSINESS_CONFIG } from "@/lib/drowsiness"
+import { DEFAULT_ESCALATION_POLICY } from "./defaults"
+import {
+  acknowledgePolicyAlert,
+  buildPolicyMetrics,
+  createPolicyState,
+  evaluatePolicy,
+  formatPolicyMessage,
+} from "./engine"
+import type { EscalationPolicy, PolicyAlert, PolicyMetrics, PolicyRule } from "./types"
+
+const OPEN = 0.3
+const SHUT = 0.1
+
+// Runs an EAR trace at 30 fps through the engine and the policy, the way the page does
+function drive(trace: Array<[ear: number, duration: number]>, policy = DEFAULT_ESCALATION_POLICY) {
+  const drowsiness = createDrowsinessState()
+  const state = createPolicyState()
+  const alerts: Array<PolicyAlert & { timestamp: number }> = []
+  let timestamp = 0
+  for (const [ear, duration] of trace) {
+    for (const end = timestamp + duration; timestamp < end; timestamp += 33) {
+      const analysis = analyzeDrowsinessPattern(drowsiness, DEFAULT_DROWSINESS_CONFIG, ear, timestamp)
+      const alert = evaluatePolicy(state, policy, buildPolicyMetrics(analysis, 0), timestamp)
+      if (alert) alerts.push({ ...alert, timestamp })
+    }
+  }
+  return alerts
+}
+
+const metrics = (values: Partial<PolicyMetrics>): PolicyMetrics => ({ ...buildPolicyMetrics(null, 0), ...values })
+
+const RULE: PolicyRule = {
+  id: "closure",
+  name: "Eye closure",
+  enabled: true,
+  level: "medium",
+  conditions: [{ metric: "eyeClosureSeconds", operator: ">=", value: 2 }],
+  holdSeconds: 0,
+  repeat: false,
+  message: "Eyes closed for {eyeClosureSeconds} seconds",
+}
+
+const policyWith = (rule: Partial<PolicyRule>, changes: Partial<EscalationPolicy> = {}): EscalationPolicy => ({
+  ...DEFAULT_ESCALATION_POLICY,
+  rules: [{ ...RULE, ...rule }],
+  escalation: { ...DEFAULT_ESCALATION_POLICY.escalation, enabled: false },
+  ...changes,
+})
+
+describe("default escalation policy", () => {
+  it("stays quiet for an alert driver blinking normally", () => {
+    const blinks = Array.from({ length: 15 }, (): Array<[number, number]> => [
+      [OPEN, 3850],
+      [SHUT, 150],
+    ]).flat()
+
+    expect(drive(blinks)).toEqual([])
+  })
+
+  it("alerts on closed eyes and reaches critical on a sustained closure", () => {
+    const alerts = drive([
+      [OPEN, 2000],
+      [SHUT, 6000],
+    ])
+
+    expect(alerts[0].timestamp).toBeGreaterThan(2000)
+    expect(alerts.at(-1)!.level).toBe("critical")
+    expect(alerts.some((alert) => alert.ruleId === "sustained-closure")).toBe(true)
+  })
+})
+
+describe("policy rules", () => {
+  it("fires once the conditions have held for the hold time", () => {
+    const policy = policyWith({ holdSeconds: 1 })
+    const state = createPolicyState()
+
+    expect(evaluatePolicy(state, policy, metrics({ eyeClosureSeconds: 2 }), 0)).toBeNull()
+    expect(evaluatePolicy(state, policy, metrics({ eyeClosureSeconds: 3 }), 1000)?.message).toBe(
+      "MODERATE: Eyes closed for 3 seconds",
+    )
+  })
+
+  it("repeats at the level's cooldown only for repeating rules", () => {
+    const closed = metrics({ eyeClosureSeconds: 2 })
+    const fire = (policy: EscalationPolicy) => {
+      const state = createPolicyState()
+      return [0, 1000, 5000, 10000].filter((timestamp) => evaluatePolicy(state, policy, closed, timestamp))
+    }
+
+    expect(fire(policyWith({ repeat: true }))).toEqual([0, 5000, 10000])
+    expect(fire(policyWith({ repeat: false }))).toEqual([0])
+  })
+
+  it("clears only after the conditions have been false for the clear time", () => {
+    const policy = policyWith({})
+    const state = createPolicyState()
+    evaluatePolicy(state, policy, metrics({ eyeClosureSeconds: 2 }), 0)
+
+    evaluatePolicy(state, policy, metrics({}), 1000)
+    expect(state.rules.closure.active).toBe(true)
+    evaluatePolicy(state, policy, metrics({}), 3000)
+    expect(state.rules.closure.active).toBe(false)
+  })
+
+  it("escalates an alert nobody responds to, until acknowledged", () => {
+    const policy = policyWith({}, { escalation: { enabled: true, afterSeconds: 10, maxLevel: "critical" } })
+    const state = createPolicyState()
+    const closed = metrics({ eyeClosureSeconds: 2 })
+    evaluatePolicy(state, policy, closed, 0)
+
+    const escalated = evaluatePolicy(state, policy, closed, 10000)!
+    expect(escalated).toMatchObject({ level: "high", escalated: true })
+    expect(escalated.message).toMatch(/^HIGH ALERT: No response\./)
+
+    acknowledgePolicyAlert(state, 11000)
+    expect(state.level).toBe("medium")
+    expect(evaluatePolicy(state, policy, closed, 12000)).toBeNull()
+  })
+
+  it("fills in metric placeholders and leaves unknown ones alone", () => {
+    expect(formatPolicyMessage("{recentYawns} yawns, {unknown}", metrics({ recentYawns: 3.4 }))).toBe(
+      "3 yawns, {unknown}",
+    )
+  })
+})
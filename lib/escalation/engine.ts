@@ -0,0 +1,177 @@
+import type { AlertLevel, DrowsinessAnalysis } from "@/lib/drowsiness"
+import { ALERT_LEVELS, alertLevelRank as rank } from "./defaults"
+import type {
+  EscalationPolicy,
+  PolicyAlert,
+  PolicyCondition,
+  PolicyMetrics,
+  PolicyRule,
+  PolicyRuleState,
+  PolicyState,
+} from "./types"
+
+const LEVEL_PREFIX: Record<AlertLevel, string> = {
+  low: "NOTICE",
+  medium: "MODERATE",
+  high: "HIGH ALERT",
+  critical: "CRITICAL",
+}
+
+export function createPolicyState(): PolicyState {
+  return { rules: {}, baseLevel: null, level: null, levelSince: null, lastAlertAt: {} }
+}
+
+// Metrics for one frame. Without an analysis (no face) the eye and head metrics read zero, so their rules clear.
+export function buildPolicyMetrics(analysis: DrowsinessAnalysis | null, faceLostDuration: number): PolicyMetrics {
+  // PERCLOS is only meaningful once its window is filled and the EAR level can be trusted
+  const perclosUsable = analysis?.perclosReady && analysis.eyeSignalsTrusted && !analysis.eyewearActive
+  return {
+    drowsy: analysis?.isDrowsy ? 1 : 0,
+    drowsinessScore: analysis?.drowsinessScore ?? 0,
+    eyeClosureSeconds: (analysis?.eyeClosureDuration ?? 0) / 1000,
+    perclosPercent: perclosUsable ? analysis.perclos * 100 : 0,
+    recentYawns: analysis?.recentYawnCount ?? 0,
+    recentNods: analysis?.recentNodCount ?? 0,
+    headDownSeconds: (analysis?.headDownDuration ?? 0) / 1000,
+    faceLostSeconds: faceLostDuration / 1000,
+  }
+}
+
+function conditionHolds({ metric, operator, value }: PolicyCondition, metrics: PolicyMetrics) {
+  const current = metrics[metric]
+  switch (operator) {
+    case ">=":
+      return current >= value
+    case ">":
+      return current > value
+    case "<=":
+      return current <= value
+    case "<":
+      return current < value
+  }
+}
+
+export function formatPolicyMessage(template: string, metrics: PolicyMetrics) {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in metrics ? String(Math.round(metrics[name as keyof PolicyMetrics])) : placeholder,
+  )
+}
+
+function updateRuleState(
+  ruleState: PolicyRuleState,
+  rule: PolicyRule,
+  policy: EscalationPolicy,
+  metrics: PolicyMetrics,
+  timestamp: number,
+) {
+  if (rule.conditions.every((condition) => conditionHolds(condition, metrics))) {
+    ruleState.clearingSince = null
+    ruleState.matchingSince ??= timestamp
+    if (!ruleState.active && timestamp - ruleState.matchingSince >= rule.holdSeconds * 1000) {
+      ruleState.active = true
+      ruleState.firedAt = null
+    }
+    return
+  }
+
+  ruleState.matchingSince = null
+  if (!ruleState.active) return
+  // Hysteresis: a rule flickering around its threshold stays active instead of re-alerting each time
+  ruleState.clearingSince ??= timestamp
+  if (timestamp - ruleState.clearingSince >= policy.clearSeconds * 1000) {
+    ruleState.active = false
+    ruleState.clearingSince = null
+  }
+}
+
+// Runs every frame. Returns the alert to raise now, if any.
+export function evaluatePolicy(
+  state: PolicyState,
+  policy: EscalationPolicy,
+  metrics: PolicyMetrics,
+  timestamp: number,
+): PolicyAlert | null {
+  let top: PolicyRule | null = null
+  const active: PolicyRule[] = []
+
+  for (const rule of policy.rules) {
+    if (!rule.enabled || rule.conditions.length === 0) {
+      delete state.rules[rule.id]
+      continue
+    }
+    const ruleState = (state.rules[rule.id] ??= {
+      matchingSince: null,
+      clearingSince: null,
+      active: false,
+      firedAt: null,
+    })
+    updateRuleState(ruleState, rule, policy, metrics, timestamp)
+    if (ruleState.active) {
+      active.push(rule)
+      if (!top || rank(rule.level) > rank(top.level)) top = rule
+    }
+  }
+
+  if (!top) {
+    state.baseLevel = null
+    state.level = null
+    state.levelSince = null
+    return null
+  }
+
+  let levelChanged = false
+  if (state.baseLevel !== top.level || state.level === null) {
+    // A different worst rule, up or down, restarts escalation from its level
+    state.baseLevel = top.level
+    levelChanged = state.level !== top.level
+    state.level = top.level
+    state.levelSince = timestamp
+  } else if (
+    policy.escalation.enabled &&
+    rank(state.level) < rank(policy.escalation.maxLevel) &&
+    timestamp - (state.levelSince ?? timestamp) >= policy.escalation.afterSeconds * 1000
+  ) {
+    state.level = ALERT_LEVELS[rank(state.level) + 1]
+    state.levelSince = timestamp
+    levelChanged = true
+  }
+
+  const level = state.level
+  const topState = state.rules[top.id]
+  const lastAlert = state.lastAlertAt[level]
+  const cooledDown = lastAlert === undefined || timestamp - lastAlert >= policy.cooldownSeconds[level] * 1000
+  const shouldFire = cooledDown && (topState.firedAt === null || top.repeat || levelChanged)
+
+  // Lower rules that became active alongside this one are covered by its alert rather than firing later
+  for (const rule of active) {
+    if (state.rules[rule.id].firedAt === null && (rule === top ? shouldFire : rank(rule.level) <= rank(level))) {
+      state.rules[rule.id].firedAt = timestamp
+    }
+  }
+
+  if (!shouldFire) return null
+
+  state.lastAlertAt[level] = timestamp
+  const escalated = rank(level) > rank(top.level)
+  const message = formatPolicyMessage(top.message, metrics)
+  return {
+    level,
+    message: `${LEVEL_PREFIX[level]}: ${escalated ? "No response. " : ""}${message}`,
+    ruleId: top.id,
+    escalated,
+  }
+}
+
+// The driver responded: escalation starts over from the current rule's level and repeats wait a full cooldown
+export function acknowledgePolicyAlert(state: PolicyState, timestamp: number) {
+  if (state.level !== null) {
+    state.lastAlertAt[state.level] = timestamp
+  }
+  state.level = state.baseLevel
+  state.levelSince = state.baseLevel !== null ? timestamp : null
+  for (const ruleState of Object.values(state.rules)) {
+    if (ruleState.active && ruleState.firedAt === null) {
+      ruleState.firedAt = timestamp
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { ALERT_LEVELS, DEFAULT_ESCALATION_POLICY, POLICY_METRICS, POLICY_OPERATORS } from "./defaults"
+import { POLICY_FORMAT_VERSION, type EscalationPolicy, type PolicyCondition, type PolicyRule } from "./types"
+
+export function serializePolicy(policy: EscalationPolicy) {
+  return JSON.stringify(policy, null, 2)
+}
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+function validateCondition(condition: unknown, ruleName: string): PolicyCondition {
+  const candidate = condition as PolicyCondition | undefined
+  if (!candidate || !POLICY_METRICS.some(({ metric }) => metric === candidate.metric)) {
+    throw new Error(`Rule "${ruleName}" tests an unknown metric`)
+  }
+  if (!POLICY_OPERATORS.includes(candidate.operator) || !isNumber(candidate.value)) {
+    throw new Error(`Rule "${ruleName}" has an invalid condition on ${candidate.metric}`)
+  }
+  return { metric: candidate.metric, operator: candidate.operator, value: candidate.value }
+}
+
+function validateRule(rule: unknown, index: number): PolicyRule {
+  const candidate = rule as Partial<PolicyRule> | undefined
+  if (!candidate || typeof candidate.id !== "string" || !candidate.id) {
+    throw new Error(`Rule ${index + 1} is missing its id`)
+  }
+  const name = typeof candidate.name === "string" && candidate.name ? candidate.name : candidate.id
+  if (!candidate.level || !ALERT_LEVELS.includes(candidate.level)) {
+    throw new Error(`Rule "${name}" has an unknown alert level`)
+  }
+  if (!Array.isArray(candidate.conditions) || candidate.conditions.length === 0) {
+    throw new Error(`Rule "${name}" has no conditions`)
+  }
+  return {
+    id: candidate.id,
+    name,
+    enabled: candidate.enabled !== false,
+    level: candidate.level,
+    conditions: candidate.conditions.map((condition) => validateCondition(condition, name)),
+    holdSeconds: isNumber(candidate.holdSeconds) ? Math.max(0, candidate.holdSeconds) : 0,
+    repeat: candidate.repeat === true,
+    message: typeof candidate.message === "string" ? candidate.message : name,
+  }
+}
+
+// Settings a policy leaves out fall back to the defaults, so hand-written policies can stay short
+export function validatePolicy(value: unknown): EscalationPolicy {
+  const parsed = value as Partial<EscalationPolicy> | null
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error("Policy is not a JSON object")
+  }
+  if (isNumber(parsed.version) && parsed.version > POLICY_FORMAT_VERSION) {
+    throw new Error(`Policy format v${parsed.version} is newer than this app supports`)
+  }
+  if (!Array.isArray(parsed.rules)) {
+    throw new Error("Policy has no rules")
+  }
+
+  const rules = parsed.rules.map(validateRule)
+  const ids = new Set(rules.map((rule) => rule.id))
+  if (ids.size !== rules.length) {
+    throw new Error("Rule ids must be unique")
+  }
+
+  const defaults = DEFAULT_ESCALATION_POLICY
+  const cooldownSeconds = { ...defaults.cooldownSeconds }
+  for (const level of ALERT_LEVELS) {
+    const value = parsed.cooldownSeconds?.[level]
+    if (isNumber(value)) cooldownSeconds[level] = Math.max(0, value)
+  }
+  const escalation = { ...defaults.escalation, ...parsed.escalation }
+  if (!ALERT_LEVELS.includes(escalation.maxLevel) || !isNumber(escalation.afterSeconds)) {
+    throw new Error("Policy has invalid escalation settings")
+  }
+
+  const acknowledgement = { ...defaults.acknowledgement, ...parsed.acknowledgement }
+  if (!ALERT_LEVELS.includes(acknowledgement.minLevel) || !isNumber(acknowledgement.timeoutSeconds)) {
+    throw new Error("Policy has invalid acknowledgement settings")
+  }
+
+  return {
+    version: POLICY_FORMAT_VERSION,
+    name: typeof parsed.name === "string" && parsed.name ? parsed.name : "Imported policy",
+    rules,
+    cooldownSeconds,
+    clearSeconds: isNumber(parsed.clearSeconds) ? Math.max(0, parsed.clearSeconds) : defaults.clearSeconds,
+    escalation: {
+      enabled: escalation.enabled !== false,
+      afterSeconds: Math.max(0, escalation.afterSeconds),
+      maxLevel: escalation.maxLevel,
+    },
+    acknowledgement: {
+      enabled: acknowledgement.enabled === true,
+      minLevel: acknowledgement.minLevel,
+      timeoutSeconds: Math.max(1, acknowledgement.timeoutSeconds),
+      doubleBlink: acknowledgement.doubleBlink !== false,
+    },
+  }
+}
+
+export function parsePolicy(text: string) {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error("Policy is not valid JSON")
+  }
+  return validatePolicy(parsed)
+}
+
+export function downloadPolicy(policy: EscalationPolicy) {
+  const blob = new Blob([serializePolicy(policy)], { type: "application/json" })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = `escalation_policy_${policy.name.toLowerCase().replace(/[^a-z0-9]+/g, "_")}.json`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
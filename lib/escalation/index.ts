@@ -0,0 +1,6 @@
+export * from "./types"
+export * from "./defaults"
+export * from "./engine"
+export * from "./challenge"
+export * from "./format"
+export * from "./store"
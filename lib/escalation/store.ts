@@ -0,0 +1,20 @@
+import { loadPreference, savePreference } from "@/lib/storage"
+import { DEFAULT_ESCALATION_POLICY } from "./defaults"
+import { validatePolicy } from "./format"
+import type { EscalationPolicy } from "./types"
+
+const POLICY_KEY = "escalationPolicy"
+
+// A stored policy that no longer validates (e.g. saved by a newer version) falls back to the default
+export function loadEscalationPolicy() {
+  try {
+    return validatePolicy(loadPreference<unknown>(POLICY_KEY, DEFAULT_ESCALATION_POLICY))
+  } catch (err) {
+    console.error("[v0] Stored escalation policy is invalid, using the default:", err)
+    return DEFAULT_ESCALATION_POLICY
+  }
+}
+
+export function saveEscalationPolicy(policy: EscalationPolicy) {
+  savePreference(POLICY_KEY, policy)
+}
@@ -0,0 +1,100 @@
+import type { AlertLevel } from "@/lib/drowsiness"
+
+export const POLICY_FORMAT_VERSION = 1
+
+// Values a rule can test, in the units a fleet safety policy would state them in
+export type PolicyMetric =
+  | "drowsy"
+  | "drowsinessScore"
+  | "eyeClosureSeconds"
+  | "perclosPercent"
+  | "recentYawns"
+  | "recentNods"
+  | "headDownSeconds"
+  | "faceLostSeconds"
+
+export type PolicyMetrics = Record<PolicyMetric, number>
+
+export type PolicyOperator = ">=" | ">" | "<=" | "<"
+
+export interface PolicyCondition {
+  metric: PolicyMetric
+  operator: PolicyOperator
+  value: number
+}
+
+export interface PolicyRule {
+  id: string
+  name: string
+  enabled: boolean
+  level: AlertLevel
+  conditions: PolicyCondition[] // all must hold
+  holdSeconds: number // how long the conditions must hold before the rule fires
+  repeat: boolean // keep alerting at the level's cooldown while the rule stays active
+  message: string // {metric} placeholders are filled in with the current value
+}
+
+export interface EscalationSettings {
+  enabled: boolean
+  afterSeconds: number // an alert nobody acknowledges moves up a level after this long
+  maxLevel: AlertLevel
+}
+
+export type AcknowledgementMethod = "tap" | "double-blink"
+
+export interface AcknowledgementSettings {
+  enabled: boolean
+  minLevel: AlertLevel // alerts at or above this level must be answered, not just dismissed
+  timeoutSeconds: number // an unanswered challenge re-alerts one level higher after this long
+  doubleBlink: boolean // also accept a deliberate double blink instead of a tap
+}
+
+export interface EscalationPolicy {
+  version: number
+  name: string
+  rules: PolicyRule[]
+  cooldownSeconds: Record<AlertLevel, number> // minimum time between two alerts at the same level
+  clearSeconds: number // an active rule only clears once its conditions have been false this long
+  escalation: EscalationSettings
+  acknowledgement: AcknowledgementSettings
+}
+
+export interface PolicyRuleState {
+  matchingSince: number | null
+  clearingSince: number | null
+  active: boolean
+  firedAt: number | null
+}
+
+export interface PolicyState {
+  rules: Record<string, PolicyRuleState>
+  baseLevel: AlertLevel | null // level of the worst active rule
+  level: AlertLevel | null // outstanding alert level, including escalation
+  levelSince: number | null
+  lastAlertAt: Partial<Record<AlertLevel, number>>
+}
+
+export interface PolicyAlert {
+  level: AlertLevel
+  message: string
+  ruleId: string
+  escalated: boolean // raised above the rule's own level because nobody responded
+}
+
+export interface AcknowledgementChallenge {
+  level: AlertLevel
+  issuedAt: number
+  deadline: number
+  methods: AcknowledgementMethod[]
+  target: { x: number; y: number } // centre of the tap target, in percent of the challenge area
+  blinks: number[] // blinks seen since the challenge was issued
+  missedTaps: number
+}
+
+export interface AcknowledgementEvent {
+  timestamp: number // when the challenge was issued
+  level: AlertLevel
+  method: AcknowledgementMethod | null // null: no valid response before the deadline
+  reactionTime: number | null // ms from the alert to the response
+  missedTaps: number
+}
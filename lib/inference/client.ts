@@ -0,0 +1,154 @@
+import {
+  DETECTOR_FALLBACK_ORDER,
+  getDetectorLabel,
+  type DetectedFace,
+  type DetectorBackend,
+  type LandmarkDetector,
+} from "./detector"
+import type { FaceWorkerRequest, FaceWorkerResponse } from "./protocol"
+import { createLandmarkDetector } from "./registry"
+
+export type InferenceMode = "worker" | "main-thread"
+
+export interface FaceInference {
+  backend: DetectorBackend
+  mode: InferenceMode
+  // True while a frame is being inferred; live callers drop frames instead of queueing them
+  isBusy: () => boolean
+  estimateFaces: (input: HTMLVideoElement) => Promise<DetectedFace[]>
+  dispose: () => void
+}
+
+export function supportsWorkerInference() {
+  // The tfjs WebGL backend needs OffscreenCanvas inside the worker
+  return (
+    typeof Worker !== "undefined" && typeof createImageBitmap === "function" && typeof OffscreenCanvas !== "undefined"
+  )
+}
+
+// Model download and backend setup included; a worker that hasn't answered by then is treated as broken
+const WORKER_INIT_TIMEOUT_MS = 30000
+
+function createWorkerInference(backend: DetectorBackend): Promise<FaceInference> {
+  const worker = new Worker(new URL("./face.worker.ts", import.meta.url), { type: "module" })
+  const pending = new Map<number, { resolve: (faces: DetectedFace[]) => void; reject: (err: Error) => void }>()
+  let nextId = 0
+  // Set once the worker has failed; it is terminated, so later frames must not wait for it
+  let failure: Error | null = null
+
+  const post = (request: FaceWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer)
+
+  const rejectPending = (err: Error) => {
+    pending.forEach(({ reject }) => reject(err))
+    pending.clear()
+  }
+
+  const inference: FaceInference = {
+    backend,
+    mode: "worker",
+    isBusy: () => pending.size > 0,
+    estimateFaces: (input) => {
+      if (failure) return Promise.reject(failure)
+      const id = nextId++
+      return new Promise<DetectedFace[]>((resolve, reject) => {
+        // Counted as busy from the moment of capture, not just once the worker has the frame
+        pending.set(id, { resolve, reject })
+        createImageBitmap(input)
+          .then((bitmap) => post({ type: "frame", id, bitmap }, [bitmap]))
+          .catch((err) => {
+            pending.delete(id)
+            reject(err)
+          })
+      })
+    },
+    dispose: () => {
+      worker.terminate()
+      rejectPending(new Error("Face inference worker stopped"))
+    },
+  }
+
+  return new Promise((resolve, reject) => {
+    // Rejects loading if it is still in progress, and every frame in flight or sent later
+    const fail = (err: Error) => {
+      clearTimeout(initTimeout)
+      failure = err
+      worker.terminate()
+      rejectPending(err)
+      reject(err)
+    }
+    const initTimeout = setTimeout(
+      () => fail(new Error(`Face inference worker did not start within ${WORKER_INIT_TIMEOUT_MS / 1000}s`)),
+      WORKER_INIT_TIMEOUT_MS,
+    )
+
+    worker.onmessage = (event: MessageEvent<FaceWorkerResponse>) => {
+      const response = event.data
+      if (response.type === "ready") {
+        clearTimeout(initTimeout)
+        resolve(inference)
+      } else if (response.type === "result") {
+        pending.get(response.id)?.resolve(response.faces)
+        pending.delete(response.id)
+      } else if (response.id === undefined) {
+        fail(new Error(response.message))
+      } else {
+        pending.get(response.id)?.reject(new Error(response.message))
+        pending.delete(response.id)
+      }
+    }
+    worker.onerror = (event) => {
+      event.preventDefault()
+      fail(new Error(event.message || "Face inference worker failed"))
+    }
+    post({ type: "init", backend })
+  })
+}
+
+function createMainThreadInference(detector: LandmarkDetector): FaceInference {
+  let busy = false
+
+  return {
+    backend: detector.backend,
+    mode: "main-thread",
+    isBusy: () => busy,
+    estimateFaces: async (input) => {
+      busy = true
+      try {
+        return await detector.estimate(input)
+      } finally {
+        busy = false
+      }
+    },
+    dispose: () => detector.dispose(),
+  }
+}
+
+async function loadInference(backend: DetectorBackend): Promise<FaceInference> {
+  const detector = createLandmarkDetector(backend)
+  if (detector.capabilities.runsInWorker && supportsWorkerInference()) {
+    try {
+      return await createWorkerInference(backend)
+    } catch (err) {
+      console.error("[v0] Worker inference unavailable, falling back to main thread:", err)
+    }
+  }
+  await detector.load()
+  return createMainThreadInference(detector)
+}
+
+// Loads the preferred detector, then the fallbacks in order until one works. Runs it in a worker fed with
+// ImageBitmap frames where the backend supports that, otherwise on the main thread.
+export async function createFaceInference(preferred: DetectorBackend): Promise<FaceInference> {
+  const candidates = [preferred, ...DETECTOR_FALLBACK_ORDER.filter((backend) => backend !== preferred)]
+  let lastError: unknown = null
+
+  for (const backend of candidates) {
+    try {
+      return await loadInference(backend)
+    } catch (err) {
+      console.error(`[v0] ${getDetectorLabel(backend)} detector failed to load:`, err)
+      lastError = err
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error("No face detector could be loaded")
+}
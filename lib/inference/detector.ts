@@ -0,0 +1,47 @@
+import type { LandmarkFrame, Point } from "@/lib/drowsiness"
+
+export interface DetectedFace {
+  keypoints: Point[]
+  box?: LandmarkFrame["box"]
+}
+
+export type DetectorInput = HTMLVideoElement | ImageBitmap
+
+export type DetectorBackend = "tfjs" | "mediapipe" | "mock"
+
+export interface DetectorCapabilities {
+  runsInWorker: boolean // can be hosted by the inference worker
+  maxFaces: number
+  landmarkCount: number
+  hasDepth: boolean // keypoints carry z, which head pose prefers over its 2D fallback
+}
+
+export interface LandmarkDetector {
+  backend: DetectorBackend
+  capabilities: DetectorCapabilities
+  load: () => Promise<void>
+  // Keypoints are in input pixel coordinates, using the MediaPipe face mesh indexing
+  estimate: (input: DetectorInput) => Promise<DetectedFace[]>
+  dispose: () => void
+}
+
+export const DETECTOR_BACKENDS: Array<{ backend: DetectorBackend; label: string }> = [
+  { backend: "tfjs", label: "TensorFlow.js" },
+  { backend: "mediapipe", label: "MediaPipe (WASM)" },
+  { backend: "mock", label: "Synthetic (testing)" },
+]
+
+// Tried in order when the selected backend fails to load. The synthetic detector is never a fallback:
+// monitoring a fake face would look like it works while detecting nothing.
+export const DETECTOR_FALLBACK_ORDER: DetectorBackend[] = ["tfjs", "mediapipe"]
+
+export function getDetectorLabel(backend: DetectorBackend) {
+  return DETECTOR_BACKENDS.find((option) => option.backend === backend)?.label ?? backend
+}
+
+export function getInputSize(input: DetectorInput) {
+  // HTMLVideoElement doesn't exist inside workers, so no instanceof check
+  return "videoWidth" in input
+    ? { width: input.videoWidth, height: input.videoHeight }
+    : { width: input.width, height: input.height }
+}
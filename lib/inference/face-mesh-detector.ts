@@ -0,0 +1,104 @@
+import type { DetectedFace, DetectorBackend, DetectorCapabilities, LandmarkDetector } from "./detector"
+
+// Served by the app itself (see scripts/fetch-models.mjs) so detection works without a network
+export const LOCAL_MODEL_URLS = {
+  faceDetector: "/models/face-detection/model.json",
+  faceLandmarks: "/models/face-landmarks/model.json",
+  mediapipeSolution: "/models/mediapipe/face_mesh",
+}
+
+// The driver plus anyone leaning into view; the tracker decides which face is analysed
+const MAX_FACES = 3
+
+// Only used when the local files are missing, e.g. in development before the models were fetched
+const HOSTED_MEDIAPIPE_SOLUTION_PATH = "https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh"
+
+type FaceMeshRuntimeConfig =
+  | {
+      runtime: "tfjs"
+      maxFaces: number
+      refineLandmarks: boolean
+      detectorModelUrl?: string
+      landmarkModelUrl?: string
+    }
+  | { runtime: "mediapipe"; solutionPath: string; maxFaces: number; refineLandmarks: boolean }
+
+// Both runtimes come from face-landmarks-detection and return the same keypoint layout
+function createRuntimeDetector(
+  backend: DetectorBackend,
+  localConfig: FaceMeshRuntimeConfig,
+  hostedConfig: FaceMeshRuntimeConfig,
+  capabilities: DetectorCapabilities,
+): LandmarkDetector {
+  let detector: import("@tensorflow-models/face-landmarks-detection").FaceLandmarksDetector | null = null
+
+  return {
+    backend,
+    capabilities,
+    load: async () => {
+      if (detector) return
+      const faceDetection = await import("@tensorflow-models/face-landmarks-detection")
+      if (localConfig.runtime === "tfjs") {
+        const tf = await import("@tensorflow/tfjs")
+        await tf.ready()
+      }
+
+      const model = faceDetection.SupportedModels.MediaPipeFaceMesh
+      try {
+        detector = await faceDetection.createDetector(model, localConfig)
+      } catch (err) {
+        console.error("[v0] Local model files unavailable, loading from the hosted copy:", err)
+        detector = await faceDetection.createDetector(model, hostedConfig)
+      }
+    },
+    estimate: async (input) => {
+      if (!detector) throw new Error("Face detection model not loaded")
+      const faces = await detector.estimateFaces(input)
+      // Plain objects only, so results can be posted across threads
+      return faces.map(
+        (face): DetectedFace => ({
+          keypoints: face.keypoints.map(({ x, y, z, score }) => ({ x, y, z, score })),
+          box: { xMin: face.box.xMin, yMin: face.box.yMin, width: face.box.width, height: face.box.height },
+        }),
+      )
+    },
+    dispose: () => {
+      detector?.dispose()
+      detector = null
+    },
+  }
+}
+
+export function createTfjsDetector(): LandmarkDetector {
+  const hostedConfig = {
+    runtime: "tfjs" as const,
+    maxFaces: MAX_FACES,
+    refineLandmarks: false, // Disable for better performance with tfjs runtime
+  }
+  return createRuntimeDetector(
+    "tfjs",
+    {
+      ...hostedConfig,
+      detectorModelUrl: LOCAL_MODEL_URLS.faceDetector,
+      landmarkModelUrl: LOCAL_MODEL_URLS.faceLandmarks,
+    },
+    hostedConfig,
+    { runsInWorker: true, maxFaces: MAX_FACES, landmarkCount: 468, hasDepth: true },
+  )
+}
+
+// The MediaPipe solution loads its WASM through script tags, so it only runs on the main thread
+export function createMediaPipeDetector(): LandmarkDetector {
+  const localConfig = {
+    runtime: "mediapipe" as const,
+    solutionPath: LOCAL_MODEL_URLS.mediapipeSolution,
+    maxFaces: MAX_FACES,
+    refineLandmarks: false,
+  }
+  return createRuntimeDetector(
+    "mediapipe",
+    localConfig,
+    { ...localConfig, solutionPath: HOSTED_MEDIAPIPE_SOLUTION_PATH },
+    { runsInWorker: false, maxFaces: MAX_FACES, landmarkCount: 468, hasDepth: true },
+  )
+}
@@ -0,0 +1,39 @@
+import type { LandmarkDetector } from "./detector"
+import type { FaceWorkerRequest, FaceWorkerResponse } from "./protocol"
+import { createLandmarkDetector } from "./registry"
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<FaceWorkerRequest>) => void) | null
+  postMessage: (message: FaceWorkerResponse) => void
+}
+
+let detector: LandmarkDetector | null = null
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err))
+
+scope.onmessage = async (event) => {
+  const request = event.data
+
+  if (request.type === "init") {
+    try {
+      detector?.dispose()
+      detector = createLandmarkDetector(request.backend)
+      await detector.load()
+      scope.postMessage({ type: "ready" })
+    } catch (err) {
+      scope.postMessage({ type: "error", message: errorMessage(err) })
+    }
+    return
+  }
+
+  const { id, bitmap } = request
+  try {
+    if (!detector) throw new Error("Face detection model not loaded")
+    const faces = await detector.estimate(bitmap)
+    scope.postMessage({ type: "result", id, faces })
+  } catch (err) {
+    scope.postMessage({ type: "error", id, message: errorMessage(err) })
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,5 @@
+export * from "./detector"
+export * from "./face-mesh-detector"
+export * from "./mock-detector"
+export * from "./registry"
+export * from "./client"
@@ -0,0 +1,111 @@
+import { MEDIAPIPE_FACE_MESH_LANDMARKS, type EyeLandmarkMap, type Point } from "@/lib/drowsiness"
+import { getInputSize, type LandmarkDetector } from "./detector"
+
+export interface SyntheticFaceState {
+  ear: number // eye aspect ratio of both eyes
+  mouthAR: number
+  pitch: number // degrees, positive is head down
+  visible: boolean
+}
+
+// Elapsed milliseconds since load -> what the synthetic face should look like
+export type SyntheticFaceScript = (elapsed: number) => SyntheticFaceState
+
+const MESH_SIZE = 468
+
+// Open eyes with a 150 ms blink every 4 seconds
+export const DEFAULT_SYNTHETIC_SCRIPT: SyntheticFaceScript = (elapsed) => ({
+  ear: elapsed % 4000 < 150 ? 0.08 : 0.3,
+  mouthAR: 0.05,
+  pitch: 0,
+  visible: true,
+})
+
+function placeEye(keypoints: Point[], eye: EyeLandmarkMap, cx: number, cy: number, width: number, ear: number) {
+  // EAR = 2 * half-height / width for this layout
+  const halfHeight = (ear * width) / 2
+
+  // Contours run corner -> lower lid -> other corner -> upper lid
+  eye.contour.forEach((index, i) => {
+    const angle = (i / eye.contour.length) * 2 * Math.PI
+    keypoints[index] = { x: cx - (Math.cos(angle) * width) / 2, y: cy + Math.sin(angle) * halfHeight, z: 0 }
+  })
+
+  const [p1, p2, p3, p4, p5, p6] = eye.ear
+  keypoints[p1] = { x: cx - width / 2, y: cy, z: 0 }
+  keypoints[p2] = { x: cx - width / 6, y: cy - halfHeight, z: 0 }
+  keypoints[p3] = { x: cx + width / 6, y: cy - halfHeight, z: 0 }
+  keypoints[p4] = { x: cx + width / 2, y: cy, z: 0 }
+  keypoints[p5] = { x: cx + width / 6, y: cy + halfHeight, z: 0 }
+  keypoints[p6] = { x: cx - width / 6, y: cy + halfHeight, z: 0 }
+}
+
+export function createSyntheticKeypoints(width: number, height: number, face: SyntheticFaceState): Point[] {
+  const { leftEye, rightEye, mouth } = MEDIAPIPE_FACE_MESH_LANDMARKS
+  const cx = width / 2
+  const cy = height / 2
+  const scale = Math.min(width, height) * 0.25
+
+  const keypoints: Point[] = Array.from({ length: MESH_SIZE }, () => ({ x: cx, y: cy, z: 0 }))
+
+  placeEye(keypoints, leftEye, cx - 0.4 * scale, cy - 0.2 * scale, 0.3 * scale, face.ear)
+  placeEye(keypoints, rightEye, cx + 0.4 * scale, cy - 0.2 * scale, 0.3 * scale, face.ear)
+
+  const mouthY = cy + 0.55 * scale
+  const mouthWidth = 0.5 * scale
+  const mouthHalfOpen = (face.mouthAR * mouthWidth) / 2
+  mouth.contour.forEach((index, i) => {
+    const angle = (i / mouth.contour.length) * 2 * Math.PI
+    keypoints[index] = {
+      x: cx - (Math.cos(angle) * mouthWidth) / 2,
+      y: mouthY + Math.sin(angle) * (mouthHalfOpen + 0.05 * scale),
+      z: 0,
+    }
+  })
+  keypoints[mouth.corners[0]] = { x: cx - mouthWidth / 2, y: mouthY, z: 0 }
+  keypoints[mouth.corners[1]] = { x: cx + mouthWidth / 2, y: mouthY, z: 0 }
+  mouth.verticalPairs.forEach(([upper, lower], i) => {
+    const x = cx + (i - (mouth.verticalPairs.length - 1) / 2) * 0.12 * scale
+    keypoints[upper] = { x, y: mouthY - mouthHalfOpen, z: 0 }
+    keypoints[lower] = { x, y: mouthY + mouthHalfOpen, z: 0 }
+  })
+
+  // Forehead, chin and nose tip: pitch is encoded in the chin's depth
+  const faceHeight = 2 * scale
+  keypoints[10] = { x: cx, y: cy - scale, z: 0 }
+  keypoints[152] = { x: cx, y: cy + scale, z: Math.tan((face.pitch * Math.PI) / 180) * faceHeight }
+  keypoints[1] = { x: cx, y: cy + 0.2 * scale, z: -0.3 * scale }
+
+  return keypoints
+}
+
+// Produces a scripted face instead of running a model, so everything downstream of landmark detection
+// can be exercised without a camera or model weights
+export function createMockDetector(script: SyntheticFaceScript = DEFAULT_SYNTHETIC_SCRIPT): LandmarkDetector {
+  let loadedAt: number | null = null
+
+  return {
+    backend: "mock",
+    capabilities: { runsInWorker: false, maxFaces: 1, landmarkCount: MESH_SIZE, hasDepth: true },
+    load: async () => {
+      loadedAt = Date.now()
+    },
+    estimate: async (input) => {
+      if (loadedAt === null) throw new Error("Synthetic detector not loaded")
+      const face = script(Date.now() - loadedAt)
+      if (!face.visible) return []
+
+      const { width, height } = getInputSize(input)
+      const scale = Math.min(width, height) * 0.25
+      return [
+        {
+          keypoints: createSyntheticKeypoints(width, height, face),
+          box: { xMin: width / 2 - scale, yMin: height / 2 - scale, width: 2 * scale, height: 2 * scale },
+        },
+      ]
+    },
+    dispose: () => {
+      loadedAt = null
+    },
+  }
+}
@@ -0,0 +1,10 @@
+import type { DetectedFace, DetectorBackend } from "./detector"
+
+export type FaceWorkerRequest =
+  | { type: "init"; backend: DetectorBackend }
+  | { type: "frame"; id: number; bitmap: ImageBitmap }
+
+export type FaceWorkerResponse =
+  | { type: "ready" }
+  | { type: "result"; id: number; faces: DetectedFace[] }
+  | { type: "error"; id?: number; message: string }
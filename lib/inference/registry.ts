@@ -0,0 +1,14 @@
+import type { DetectorBackend, LandmarkDetector } from "./detector"
+import { createMediaPipeDetector, createTfjsDetector } from "./face-mesh-detector"
+import { createMockDetector } from "./mock-detector"
+
+export function createLandmarkDetector(backend: DetectorBackend): LandmarkDetector {
+  switch (backend) {
+    case "tfjs":
+      return createTfjsDetector()
+    case "mediapipe":
+      return createMediaPipeDetector()
+    case "mock":
+      return createMockDetector()
+  }
+}
@@ -0,0 +1,50 @@
+// Keep in sync with public/sw.js
+export const OFFLINE_CACHE_NAME = "drowsiness-offline-v2"
+const MODEL_MANIFEST_URL = "/models/manifest.json"
+
+interface ModelManifest {
+  version: number
+  files: string[]
+}
+
+export function supportsServiceWorker() {
+  return typeof navigator !== "undefined" && "serviceWorker" in navigator && typeof caches !== "undefined"
+}
+
+// Assets loaded before the service worker took control never went through it, so hand them over explicitly
+function cacheLoadedAssets(worker: ServiceWorker) {
+  const urls = performance
+    .getEntriesByType("resource")
+    .map((entry) => entry.name)
+    .filter((url) => new URL(url).origin === location.origin)
+
+  return new Promise<void>((resolve) => {
+    const channel = new MessageChannel()
+    channel.port1.onmessage = () => resolve()
+    worker.postMessage({ type: "cache-urls", urls: [location.href, ...urls] }, [channel.port2])
+  })
+}
+
+export async function registerServiceWorker() {
+  if (!supportsServiceWorker()) return null
+
+  const registration = await navigator.serviceWorker.register("/sw.js")
+  const ready = await navigator.serviceWorker.ready
+  if (ready.active) {
+    await cacheLoadedAssets(ready.active)
+  }
+  return registration
+}
+
+// True once the app shell and every bundled model file are in the offline cache
+export async function checkOfflineReady() {
+  if (!supportsServiceWorker() || !navigator.serviceWorker.controller) return false
+
+  const cache = await caches.open(OFFLINE_CACHE_NAME)
+  const [shell, manifestResponse] = await Promise.all([cache.match("/"), cache.match(MODEL_MANIFEST_URL)])
+  if (!shell || !manifestResponse) return false
+
+  const manifest: ModelManifest = await manifestResponse.json()
+  const cached = await Promise.all(manifest.files.map((file) => cache.match(`/models/${file}`)))
+  return cached.every(Boolean)
+}
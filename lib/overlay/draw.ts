@@ -0,0 +1,106 @@
+import type { DrowsinessConfig, FrameAnalysis, LandmarkFrame } from "@/lib/drowsiness"
+
+type OverlayContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+// A tracked face to label on the overlay; only the driver gets the full landmark overlay
+export interface OverlayFace {
+  id: number
+  box: NonNullable<LandmarkFrame["box"]>
+  ear: number
+  isDriver: boolean
+}
+
+export function drawFaceLabels(ctx: OverlayContext, faces: OverlayFace[], config: DrowsinessConfig) {
+  ctx.font = "12px Arial"
+  faces.forEach(({ id, box, ear, isDriver }) => {
+    const earColor = ear < config.earThreshold ? "#ff0000" : "#ffffff"
+
+    if (isDriver) {
+      ctx.fillStyle = "#00ff00"
+      ctx.fillText(`Driver #${id}  EAR ${ear.toFixed(2)}`, box.xMin, box.yMin - 30)
+      return
+    }
+
+    ctx.strokeStyle = "#9ca3af"
+    ctx.lineWidth = 1
+    ctx.setLineDash([6, 4])
+    ctx.strokeRect(box.xMin, box.yMin, box.width, box.height)
+    ctx.setLineDash([])
+
+    ctx.fillStyle = "#9ca3af"
+    ctx.fillText(`#${id}`, box.xMin, box.yMin - 10)
+    ctx.fillStyle = earColor
+    ctx.fillText(`EAR ${ear.toFixed(2)}`, box.xMin + 30, box.yMin - 10)
+  })
+}
+
+// Draws the landmark overlay for one analysed frame. Callers clear the canvas first.
+export function drawFrameOverlay(
+  ctx: OverlayContext,
+  analysis: FrameAnalysis,
+  config: DrowsinessConfig,
+  box?: LandmarkFrame["box"],
+) {
+  // Draw face mesh
+  ctx.strokeStyle = "#00ff00"
+  ctx.lineWidth = 1
+
+  // Draw eye landmarks with color coding based on drowsiness
+  const eyeColor = analysis.currentEAR < config.earThreshold ? "#ff0000" : "#00ff00"
+
+  ctx.fillStyle = eyeColor
+  analysis.leftEyePoints.forEach((point) => {
+    ctx.beginPath()
+    ctx.arc(point.x, point.y, 2, 0, 2 * Math.PI)
+    ctx.fill()
+  })
+
+  analysis.rightEyePoints.forEach((point) => {
+    ctx.beginPath()
+    ctx.arc(point.x, point.y, 2, 0, 2 * Math.PI)
+    ctx.fill()
+  })
+
+  // Outline the six points each EAR is computed from
+  ctx.strokeStyle = "#ffff00"
+  ;[...analysis.leftEyeEARPoints, ...analysis.rightEyeEARPoints].forEach((point) => {
+    ctx.beginPath()
+    ctx.arc(point.x, point.y, 3.5, 0, 2 * Math.PI)
+    ctx.stroke()
+  })
+
+  const mouthColor = analysis.mouthAR > config.yawnThreshold ? "#ff8800" : "#0088ff"
+
+  ctx.fillStyle = mouthColor
+  analysis.mouthPoints.forEach((point) => {
+    ctx.beginPath()
+    ctx.arc(point.x, point.y, 2, 0, 2 * Math.PI)
+    ctx.fill()
+  })
+
+  // Draw face bounding box with status color
+  if (box) {
+    ctx.strokeStyle = analysis.isDrowsy ? "#ff0000" : "#00ff00"
+    ctx.lineWidth = 3
+    ctx.strokeRect(box.xMin, box.yMin, box.width, box.height)
+
+    ctx.fillStyle = analysis.isDrowsy ? "#ff0000" : "#00ff00"
+    ctx.font = "16px Arial"
+    ctx.fillText(`Drowsiness: ${analysis.drowsinessScore.toFixed(1)}%`, box.xMin, box.yMin - 10)
+
+    if (analysis.isYawning) {
+      ctx.fillStyle = "#ff8800"
+      ctx.fillText("YAWN DETECTED", box.xMin, box.yMin + box.height + 20)
+    }
+
+    if (analysis.headPose) {
+      ctx.fillStyle = analysis.pitchDelta > config.headPitchThreshold ? "#ff0000" : "#ffffff"
+      ctx.font = "12px Arial"
+      ctx.fillText(
+        `Pitch ${analysis.headPose.pitch.toFixed(0)}° Yaw ${analysis.headPose.yaw.toFixed(0)}° Roll ${analysis.headPose.roll.toFixed(0)}°`,
+        box.xMin,
+        box.yMin + box.height + 40,
+      )
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { drawFaceLabels, drawFrameOverlay } from "./draw"
+import type { OverlayWorkerRequest } from "./protocol"
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<OverlayWorkerRequest>) => void) | null
+}
+
+let ctx: OffscreenCanvasRenderingContext2D | null = null
+
+scope.onmessage = (event) => {
+  const request = event.data
+
+  if (request.type === "init") {
+    ctx = request.canvas.getContext("2d")
+    return
+  }
+  if (!ctx) return
+
+  if (request.type === "resize") {
+    ctx.canvas.width = request.width
+    ctx.canvas.height = request.height
+    return
+  }
+
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+  if (request.analysis) {
+    drawFrameOverlay(ctx, request.analysis, request.config, request.box)
+  }
+  drawFaceLabels(ctx, request.faces, request.config)
+}
@@ -0,0 +1,13 @@
+import type { DrowsinessConfig, FrameAnalysis, LandmarkFrame } from "@/lib/drowsiness"
+import type { OverlayFace } from "./draw"
+
+export type OverlayWorkerRequest =
+  | { type: "init"; canvas: OffscreenCanvas }
+  | { type: "resize"; width: number; height: number }
+  | {
+      type: "draw"
+      analysis: FrameAnalysis | null
+      config: DrowsinessConfig
+      box?: LandmarkFrame["box"]
+      faces: OverlayFace[]
+    }
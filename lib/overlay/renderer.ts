@@ -0,0 +1,74 @@
+import type { DrowsinessConfig, FrameAnalysis, LandmarkFrame } from "@/lib/drowsiness"
+import { drawFaceLabels, drawFrameOverlay, type OverlayFace } from "./draw"
+import type { OverlayWorkerRequest } from "./protocol"
+
+export interface OverlayRenderer {
+  canvas: HTMLCanvasElement
+  mode: "offscreen" | "main-thread"
+  resize: (width: number, height: number) => void
+  // Clears the canvas, then draws the analysis if there is one and labels any other tracked faces
+  draw: (
+    analysis: FrameAnalysis | null,
+    config: DrowsinessConfig,
+    box?: LandmarkFrame["box"],
+    faces?: OverlayFace[],
+  ) => void
+}
+
+function createOffscreenRenderer(canvas: HTMLCanvasElement): OverlayRenderer {
+  const worker = new Worker(new URL("./overlay.worker.ts", import.meta.url), { type: "module" })
+  // Transferring control is one-way: from here on the canvas can only be drawn through the worker
+  const offscreen = canvas.transferControlToOffscreen()
+  const post = (request: OverlayWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer)
+
+  post({ type: "init", canvas: offscreen }, [offscreen])
+
+  let width = canvas.width
+  let height = canvas.height
+
+  return {
+    canvas,
+    mode: "offscreen",
+    resize: (nextWidth, nextHeight) => {
+      if (nextWidth === width && nextHeight === height) return
+      width = nextWidth
+      height = nextHeight
+      post({ type: "resize", width, height })
+    },
+    draw: (analysis, config, box, faces = []) => post({ type: "draw", analysis, config, box, faces }),
+  }
+}
+
+function createMainThreadRenderer(canvas: HTMLCanvasElement): OverlayRenderer {
+  const ctx = canvas.getContext("2d")
+
+  return {
+    canvas,
+    mode: "main-thread",
+    resize: (width, height) => {
+      if (canvas.width === width && canvas.height === height) return
+      canvas.width = width
+      canvas.height = height
+    },
+    draw: (analysis, config, box, faces = []) => {
+      if (!ctx) return
+      ctx.clearRect(0, 0, canvas.width, canvas.height)
+      if (analysis) {
+        drawFrameOverlay(ctx, analysis, config, box)
+      }
+      drawFaceLabels(ctx, faces, config)
+    },
+  }
+}
+
+// Create at most one renderer per canvas element; control of a canvas can only be transferred once
+export function createOverlayRenderer(canvas: HTMLCanvasElement): OverlayRenderer {
+  if (typeof canvas.transferControlToOffscreen === "function" && typeof Worker !== "undefined") {
+    try {
+      return createOffscreenRenderer(canvas)
+    } catch (err) {
+      console.error("[v0] OffscreenCanvas overlay unavailable, drawing on the main thread:", err)
+    }
+  }
+  return createMainThreadRenderer(canvas)
+}
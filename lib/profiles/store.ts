@@ -0,0 +1,36 @@
+import { deleteRecord, getAllRecords, getRecord, loadPreference, PROFILE_STORE, putRecord, savePreference } from "@/lib/storage"
+import type { CalibrationProfile } from "./types"
+
+const ACTIVE_PROFILE_KEY = "activeCalibrationProfile"
+
+export async function listProfiles() {
+  return getAllRecords<CalibrationProfile>(PROFILE_STORE, "createdAt")
+}
+
+export function getProfile(id: string) {
+  return getRecord<CalibrationProfile>(PROFILE_STORE, id)
+}
+
+export function saveProfile(profile: CalibrationProfile) {
+  return putRecord(PROFILE_STORE, profile)
+}
+
+export async function deleteProfile(id: string) {
+  await deleteRecord(PROFILE_STORE, id)
+  if (getActiveProfileId() === id) {
+    setActiveProfileId(null)
+  }
+}
+
+export function getActiveProfileId() {
+  return loadPreference<string | null>(ACTIVE_PROFILE_KEY, null)
+}
+
+export function setActiveProfileId(id: string | null) {
+  savePreference(ACTIVE_PROFILE_KEY, id)
+}
+
+export async function getActiveProfile() {
+  const id = getActiveProfileId()
+  return id ? getProfile(id) : null
+}
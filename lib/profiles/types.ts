@@ -0,0 +1,10 @@
+export interface CalibrationProfile {
+  id: string
+  name: string
+  createdAt: number
+  earThreshold: number
+  blinkThreshold: number
+  openEAR: number
+  closedEAR: number
+  wearsGlasses: boolean // switches on eyewear mode whenever this profile is active
+}
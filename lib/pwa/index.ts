@@ -0,0 +1,3 @@
+export * from "./wake-lock"
+export * from "./visibility"
+export * from "./notifications"
@@ -0,0 +1,23 @@
+// Android Chrome only shows notifications through a service worker registration; `new Notification()` throws
+// "Illegal constructor" there. Uses the registration when a worker controls the page, the constructor otherwise,
+// and never throws, so callers can go on to vibrate or log.
+export function showNotification(title: string, options: NotificationOptions) {
+  const showDirectly = () => {
+    try {
+      new Notification(title, options)
+    } catch (err) {
+      console.error("[v0] Could not show notification:", err)
+    }
+  }
+
+  if ("serviceWorker" in navigator && navigator.serviceWorker.controller) {
+    navigator.serviceWorker.ready
+      .then((registration) => registration.showNotification(title, options))
+      .catch((err) => {
+        console.error("[v0] Service worker notification failed:", err)
+        showDirectly()
+      })
+    return
+  }
+  showDirectly()
+}
@@ -0,0 +1,32 @@
+export interface VisibilityGap {
+  start: number
+  end: number
+  duration: number
+}
+
+export interface VisibilityHandlers {
+  onHidden: (timestamp: number) => void
+  onVisible: (gap: VisibilityGap) => void
+}
+
+// Browsers throttle or pause animation frames in hidden tabs, so any time spent hidden is time
+// the driver was not being monitored
+export function watchPageVisibility({ onHidden, onVisible }: VisibilityHandlers) {
+  let hiddenAt: number | null = document.visibilityState === "hidden" ? Date.now() : null
+
+  const handleVisibilityChange = () => {
+    const now = Date.now()
+    if (document.visibilityState === "hidden") {
+      if (hiddenAt === null) {
+        hiddenAt = now
+        onHidden(now)
+      }
+    } else if (hiddenAt !== null) {
+      onVisible({ start: hiddenAt, end: now, duration: now - hiddenAt })
+      hiddenAt = null
+    }
+  }
+
+  document.addEventListener("visibilitychange", handleVisibilityChange)
+  return () => document.removeEventListener("visibilitychange", handleVisibilityChange)
+}
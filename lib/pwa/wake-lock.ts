@@ -0,0 +1,64 @@
+// The Screen Wake Lock API is newer than the TypeScript DOM lib this project builds against
+interface WakeLockSentinel extends EventTarget {
+  release: () => Promise<void>
+}
+
+interface WakeLockNavigator {
+  wakeLock: { request: (type: "screen") => Promise<WakeLockSentinel> }
+}
+
+export interface WakeLockController {
+  isHeld: () => boolean
+  release: () => void
+}
+
+export function supportsWakeLock() {
+  return typeof navigator !== "undefined" && "wakeLock" in navigator
+}
+
+// Keeps the screen on until released. The browser drops the lock whenever the page is hidden,
+// so it is requested again each time the page becomes visible.
+export function holdWakeLock(onChange: (held: boolean) => void): WakeLockController {
+  let sentinel: WakeLockSentinel | null = null
+  let released = false
+
+  const request = async () => {
+    if (released || !supportsWakeLock() || document.visibilityState !== "visible") return
+    try {
+      const lock = await (navigator as unknown as WakeLockNavigator).wakeLock.request("screen")
+      if (released) {
+        lock.release()
+        return
+      }
+      sentinel = lock
+      onChange(true)
+      lock.addEventListener("release", () => {
+        sentinel = null
+        onChange(false)
+      })
+    } catch (err) {
+      // Denied on low battery or without a user gesture; monitoring carries on regardless
+      console.error("[v0] Wake lock request failed:", err)
+      onChange(false)
+    }
+  }
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible" && !sentinel) {
+      request()
+    }
+  }
+
+  document.addEventListener("visibilitychange", handleVisibilityChange)
+  request()
+
+  return {
+    isHeld: () => sentinel !== null,
+    release: () => {
+      released = true
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      sentinel?.release()
+      sentinel = null
+    },
+  }
+}
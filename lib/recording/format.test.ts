@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import type { LandmarkFrame } from "@/lib/drowsiness"
+import { parseRecording, serializeRecording, toLandmarkFrame, toRecordedFrame } from "./format"
+import { createRecording } from "./recorder"
+import { RECORDING_FORMAT_VERSION } from "./types"
+
+const FRAME: LandmarkFrame = {
+  timestamp: 1000,
+  keypoints: [
+    { x: 10.123, y: 20.456, z: -1.2, score: 0.913 },
+    { x: 11, y: 21 },
+  ],
+  box: { xMin: 5, yMin: 6, width: 100, height: 120 },
+  quality: 0.456,
+  eyeReliability: 0.31,
+}
+
+describe("recording format", () => {
+  it("keeps everything the engine reads from a frame", () => {
+    expect(toLandmarkFrame(toRecordedFrame(FRAME))).toEqual({
+      timestamp: 1000,
+      keypoints: [
+        { x: 10.12, y: 20.46, z: -1.2, score: 0.91 },
+        { x: 11, y: 21, z: 0 },
+      ],
+      box: FRAME.box,
+      quality: 0.46,
+      eyeReliability: 0.31,
+    })
+  })
+
+  it("round-trips through NDJSON in timestamp order", () => {
+    const recording = createRecording({ frameWidth: 640, frameHeight: 480, landmarkModel: "face-mesh" }, 0)
+    recording.frames.push(toRecordedFrame({ ...FRAME, timestamp: 2000 }), toRecordedFrame(FRAME))
+
+    const parsed = parseRecording(serializeRecording(recording))
+    expect(parsed.header.version).toBe(RECORDING_FORMAT_VERSION)
+    expect(parsed.frames.map((frame) => frame.timestamp)).toEqual([1000, 2000])
+    expect(parsed.frames[0].quality).toBe(0.46)
+  })
+
+  it("still reads v1 traces, which have no scores or quality", () => {
+    const v1 = [
+      { type: "header", version: 1, createdAt: 0, frameWidth: 640, frameHeight: 480, landmarkModel: "face-mesh" },
+      { type: "frame", timestamp: 1000, keypoints: [[1, 2, 3]] },
+    ]
+      .map((record) => JSON.stringify(record))
+      .join("\n")
+
+    const frame = toLandmarkFrame(parseRecording(v1).frames[0])
+    expect(frame).toEqual({ timestamp: 1000, keypoints: [{ x: 1, y: 2, z: 3 }] })
+  })
+
+  it("also reads a single JSON document", () => {
+    const recording = createRecording({ frameWidth: 640, frameHeight: 480, landmarkModel: "face-mesh" }, 0)
+    recording.frames.push(toRecordedFrame(FRAME))
+
+    const parsed = parseRecording(JSON.stringify(recording, null, 2))
+    expect(parsed.frames).toHaveLength(1)
+  })
+
+  it("keeps camera obstruction and reads a clear view from older traces", () => {
+    const recording = createRecording({ frameWidth: 640, frameHeight: 480, landmarkModel: "face-mesh" }, 0)
+    recording.frames.push(toRecordedFrame({ timestamp: 1000, keypoints: [] }, "covered"), toRecordedFrame(FRAME))
+
+    const parsed = parseRecording(serializeRecording(recording))
+    expect(parsed.frames.map((frame) => frame.obstruction ?? null)).toEqual(["covered", null])
+  })
+
+  it("rejects traces from a newer format", () => {
+    const future = JSON.stringify({ header: { type: "header", version: RECORDING_FORMAT_VERSION + 1 }, frames: [] })
+    expect(() => parseRecording(future)).toThrow(/newer than this app supports/)
+  })
+
+  it("rejects malformed frames", () => {
+    const broken = [JSON.stringify({ type: "header", version: 1 }), JSON.stringify({ type: "frame" })].join("\n")
+    expect(() => parseRecording(broken)).toThrow("Invalid frame at position 1")
+  })
+})
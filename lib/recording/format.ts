@@ -0,0 +1,95 @@
+import type { ObstructionKind } from "@/lib/camera"
+import type { LandmarkFrame, Point } from "@/lib/drowsiness"
+import { RECORDING_FORMAT_VERSION, type RecordedFrame, type Recording, type RecordingHeader } from "./types"
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Everything the engine reads from a frame is kept, so a replay suppresses and scores exactly like the live run
+export function toRecordedFrame(frame: LandmarkFrame, obstruction: ObstructionKind | null = null): RecordedFrame {
+  return {
+    type: "frame",
+    timestamp: frame.timestamp,
+    keypoints: frame.keypoints.map((point) =>
+      point.score === undefined
+        ? [round(point.x), round(point.y), round(point.z ?? 0)]
+        : [round(point.x), round(point.y), round(point.z ?? 0), round(point.score)],
+    ),
+    ...(frame.box ? { box: frame.box } : {}),
+    ...(frame.quality !== undefined ? { quality: round(frame.quality) } : {}),
+    ...(frame.eyeReliability !== undefined ? { eyeReliability: round(frame.eyeReliability) } : {}),
+    ...(obstruction ? { obstruction } : {}),
+  }
+}
+
+export function toLandmarkFrame(frame: RecordedFrame): LandmarkFrame {
+  const keypoints: Point[] = frame.keypoints.map(([x, y, z, score]) =>
+    score === undefined ? { x, y, z } : { x, y, z, score },
+  )
+  return {
+    timestamp: frame.timestamp,
+    keypoints,
+    ...(frame.box ? { box: frame.box } : {}),
+    ...(frame.quality !== undefined ? { quality: frame.quality } : {}),
+    ...(frame.eyeReliability !== undefined ? { eyeReliability: frame.eyeReliability } : {}),
+  }
+}
+
+// NDJSON: the header on the first line, then one frame per line, so long traces can be streamed and appended
+export function serializeRecording(recording: Recording) {
+  return [recording.header, ...recording.frames].map((record) => JSON.stringify(record)).join("\n") + "\n"
+}
+
+function validateHeader(header: unknown): RecordingHeader {
+  const candidate = header as RecordingHeader | undefined
+  if (!candidate || candidate.type !== "header") {
+    throw new Error("Recording is missing its header")
+  }
+  if (candidate.version > RECORDING_FORMAT_VERSION) {
+    throw new Error(`Recording format v${candidate.version} is newer than this app supports`)
+  }
+  return candidate
+}
+
+function validateFrame(frame: unknown, index: number): RecordedFrame {
+  const candidate = frame as RecordedFrame | undefined
+  if (
+    !candidate ||
+    candidate.type !== "frame" ||
+    typeof candidate.timestamp !== "number" ||
+    !Array.isArray(candidate.keypoints)
+  ) {
+    throw new Error(`Invalid frame at position ${index + 1}`)
+  }
+  return candidate
+}
+
+// Accepts NDJSON traces as well as a single JSON document of the form { header, frames }
+export function parseRecording(text: string): Recording {
+  const trimmed = text.trim()
+  if (!trimmed) {
+    throw new Error("Recording is empty")
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter((line) => line.trim().length > 0)
+  let firstRecord: unknown = null
+  try {
+    firstRecord = JSON.parse(lines[0])
+  } catch {
+    // Not NDJSON; most likely a pretty-printed JSON document
+  }
+
+  let header: RecordingHeader
+  let frames: RecordedFrame[]
+
+  if ((firstRecord as RecordingHeader | null)?.type === "header") {
+    header = validateHeader(firstRecord)
+    frames = lines.slice(1).map((line, index) => validateFrame(JSON.parse(line), index))
+  } else {
+    const parsed = JSON.parse(trimmed) as { header?: unknown; frames?: unknown[] }
+    header = validateHeader(parsed.header)
+    frames = (parsed.frames ?? []).map(validateFrame)
+  }
+
+  frames.sort((a, b) => a.timestamp - b.timestamp)
+  return { header, frames }
+}
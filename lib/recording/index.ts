@@ -0,0 +1,4 @@
+export * from "./types"
+export * from "./format"
+export * from "./recorder"
+export * from "./player"
@@ -0,0 +1,66 @@
+import type { ObstructionKind } from "@/lib/camera"
+import type { LandmarkFrame } from "@/lib/drowsiness"
+import { toLandmarkFrame } from "./format"
+import type { Recording } from "./types"
+
+export interface ReplayOptions {
+  speed: number // 1 = real time, 4 = four times faster
+  onFrame: (frame: LandmarkFrame, obstruction: ObstructionKind | null, index: number) => void
+  onEnd?: () => void
+}
+
+export interface ReplayController {
+  stop: () => void
+  isRunning: () => boolean
+}
+
+// Schedules frames on the recording's own timeline. Timestamps handed to onFrame are the recorded ones,
+// so time-based analysis gives the same result at any speed.
+export function startReplay(recording: Recording, { speed, onFrame, onEnd }: ReplayOptions): ReplayController {
+  const frames = recording.frames
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let running = frames.length > 0
+  let index = 0
+
+  const replayStart = Date.now()
+  const recordingStart = frames[0]?.timestamp ?? 0
+
+  const scheduleNext = () => {
+    if (!running) return
+    if (index >= frames.length) {
+      running = false
+      onEnd?.()
+      return
+    }
+
+    const dueAt = replayStart + (frames[index].timestamp - recordingStart) / speed
+    timer = setTimeout(
+      () => {
+        timer = null
+        if (!running) return
+        // Catch up on every frame that is due so slow consumers fall behind in wall time, never in data
+        while (index < frames.length && replayStart + (frames[index].timestamp - recordingStart) / speed <= Date.now()) {
+          onFrame(toLandmarkFrame(frames[index]), frames[index].obstruction ?? null, index)
+          index++
+        }
+        scheduleNext()
+      },
+      Math.max(0, dueAt - Date.now()),
+    )
+  }
+
+  if (running) {
+    scheduleNext()
+  } else {
+    onEnd?.()
+  }
+
+  return {
+    stop: () => {
+      running = false
+      if (timer) clearTimeout(timer)
+      timer = null
+    },
+    isRunning: () => running,
+  }
+}
@@ -0,0 +1,44 @@
+import type { ObstructionKind } from "@/lib/camera"
+import type { DrowsinessConfig, LandmarkFrame } from "@/lib/drowsiness"
+import { serializeRecording, toRecordedFrame } from "./format"
+import { RECORDING_FORMAT_VERSION, type Recording } from "./types"
+
+export interface RecordingOptions {
+  frameWidth: number
+  frameHeight: number
+  landmarkModel: string
+  config?: DrowsinessConfig
+}
+
+export function createRecording(options: RecordingOptions, createdAt = Date.now()): Recording {
+  return {
+    header: {
+      type: "header",
+      version: RECORDING_FORMAT_VERSION,
+      createdAt,
+      ...options,
+    },
+    frames: [],
+  }
+}
+
+export function appendFrame(recording: Recording, frame: LandmarkFrame, obstruction: ObstructionKind | null = null) {
+  recording.frames.push(toRecordedFrame(frame, obstruction))
+}
+
+export function getRecordingDuration(recording: Recording) {
+  const { frames } = recording
+  return frames.length > 1 ? frames[frames.length - 1].timestamp - frames[0].timestamp : 0
+}
+
+export function downloadRecording(recording: Recording) {
+  const blob = new Blob([serializeRecording(recording)], { type: "application/x-ndjson" })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = `drowsiness_trace_${new Date(recording.header.createdAt).toISOString().replace(/[:.]/g, "-")}.ndjson`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,33 @@
+import type { ObstructionKind } from "@/lib/camera"
+import type { DrowsinessConfig } from "@/lib/drowsiness"
+
+// v2 adds landmark scores, image quality and eye reliability; v3 adds camera obstruction. Older traces still load,
+// replaying without them
+export const RECORDING_FORMAT_VERSION = 3
+
+export interface RecordingHeader {
+  type: "header"
+  version: number
+  createdAt: number
+  frameWidth: number
+  frameHeight: number
+  landmarkModel: string
+  config?: DrowsinessConfig
+}
+
+// Keypoints are stored as [x, y, z] or [x, y, z, score] tuples to keep traces compact; an empty list means no
+// face was found
+export interface RecordedFrame {
+  type: "frame"
+  timestamp: number
+  keypoints: Array<[number, number, number] | [number, number, number, number]>
+  box?: { xMin: number; yMin: number; width: number; height: number }
+  quality?: number
+  eyeReliability?: number
+  obstruction?: ObstructionKind // left out while the camera view is clear
+}
+
+export interface Recording {
+  header: RecordingHeader
+  frames: RecordedFrame[]
+}
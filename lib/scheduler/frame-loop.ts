@@ -0,0 +1,46 @@
+export interface FrameLoopOptions {
+  targetFps: number
+  onFrame: (now: number) => void
+}
+
+export interface FrameLoop {
+  stop: () => void
+  setTargetFps: (fps: number) => void
+  isRunning: () => boolean
+}
+
+// Drives onFrame from requestAnimationFrame, but no faster than the target rate. Display refresh rates
+// differ between devices, so analysing on every animation frame would make the workload device-dependent.
+export function startFrameLoop({ targetFps, onFrame }: FrameLoopOptions): FrameLoop {
+  let interval = 1000 / targetFps
+  let lastFrame = -Infinity
+  let handle: number | null = null
+  let running = true
+
+  const tick = (now: number) => {
+    if (!running) return
+    handle = requestAnimationFrame(tick)
+
+    const elapsed = now - lastFrame
+    // Animation frames rarely line up with the interval; allow a little early so 30 fps on a 60 Hz display isn't 20
+    if (elapsed < interval - 2) return
+
+    // Stay on the interval grid, but don't try to catch up after a stall
+    lastFrame = elapsed > interval * 2 ? now : lastFrame + interval
+    onFrame(now)
+  }
+
+  handle = requestAnimationFrame(tick)
+
+  return {
+    stop: () => {
+      running = false
+      if (handle !== null) cancelAnimationFrame(handle)
+      handle = null
+    },
+    setTargetFps: (fps) => {
+      interval = 1000 / fps
+    },
+    isRunning: () => running,
+  }
+}
@@ -0,0 +1,52 @@
+export interface FrameStats {
+  completed: number[] // timestamps of analysed frames
+  latencies: number[] // inference latency of each analysed frame, in milliseconds
+  dropped: number[] // timestamps of frames skipped because inference was still busy
+}
+
+export interface FrameStatsSummary {
+  fps: number
+  latency: number // mean inference latency over the window
+  droppedPerSecond: number
+}
+
+// Measured over a short window so the numbers follow load changes quickly
+const STATS_WINDOW_MS = 2000
+
+export function createFrameStats(): FrameStats {
+  return { completed: [], latencies: [], dropped: [] }
+}
+
+function trim(stats: FrameStats, now: number) {
+  const start = now - STATS_WINDOW_MS
+  while (stats.completed.length > 0 && stats.completed[0] < start) {
+    stats.completed.shift()
+    stats.latencies.shift()
+  }
+  while (stats.dropped.length > 0 && stats.dropped[0] < start) {
+    stats.dropped.shift()
+  }
+}
+
+export function recordCompletedFrame(stats: FrameStats, timestamp: number, latency: number) {
+  stats.completed.push(timestamp)
+  stats.latencies.push(latency)
+  trim(stats, timestamp)
+}
+
+export function recordDroppedFrame(stats: FrameStats, timestamp: number) {
+  stats.dropped.push(timestamp)
+  trim(stats, timestamp)
+}
+
+export function summarizeFrameStats(stats: FrameStats, now: number): FrameStatsSummary {
+  trim(stats, now)
+  const { completed, latencies, dropped } = stats
+  const span = completed.length > 1 ? completed[completed.length - 1] - completed[0] : 0
+
+  return {
+    fps: span > 0 ? ((completed.length - 1) / span) * 1000 : 0,
+    latency: latencies.length > 0 ? latencies.reduce((sum, value) => sum + value, 0) / latencies.length : 0,
+    droppedPerSecond: (dropped.length / STATS_WINDOW_MS) * 1000,
+  }
+}
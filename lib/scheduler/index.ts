@@ -0,0 +1,2 @@
+export * from "./frame-loop"
+export * from "./frame-stats"
@@ -0,0 +1,7 @@
+// When SESSION_API_TOKEN is set, every request needs "Authorization: Bearer <token>". Without it the API is
+// open, which is only meant for local use.
+export function isAuthorized(request: Request) {
+  const token = process.env.SESSION_API_TOKEN
+  if (!token) return true
+  return request.headers.get("authorization") === `Bearer ${token}`
+}
@@ -0,0 +1,4 @@
+export * from "./types"
+export * from "./schema"
+export * from "./store"
+export * from "./auth"
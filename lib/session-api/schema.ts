@@ -0,0 +1,81 @@
+import { z } from "zod"
+import type { SessionData } from "@/lib/sessions"
+
+// Driver and session IDs become directory and file names in the store, so they are kept to a safe alphabet
+const identifier = z
+  .string()
+  .min(1)
+  .max(128)
+  .regex(/^[\w.-]+$/, "Only letters, digits, '_', '-' and '.' are allowed")
+  .refine((value) => value !== "." && value !== "..", "Not a valid identifier")
+
+const alertLevel = z.enum(["low", "medium", "high", "critical"])
+const timestamp = z.number().finite().nonnegative()
+const duration = z.number().finite().nonnegative()
+const historyPoint = z.object({ timestamp, value: z.number().finite() })
+const timedEvent = z.object({ timestamp, duration })
+
+export const sessionSchema: z.ZodType<SessionData> = z.object({
+  id: identifier,
+  startTime: timestamp,
+  endTime: timestamp.optional(),
+  duration,
+  totalBlinks: z.number().int().nonnegative(),
+  totalAlerts: z.number().int().nonnegative(),
+  avgEAR: z.number().finite(),
+  maxDrowsinessScore: z.number().finite(),
+  alertsByLevel: z.record(z.number().int().nonnegative()),
+  earHistory: z.array(historyPoint),
+  drowsinessHistory: z.array(historyPoint),
+  maxPerclos: z.number().finite(),
+  perclosHistory: z.array(historyPoint),
+  yawnEvents: z.array(timedEvent),
+  nodEvents: z.array(timedEvent),
+  faceLostEvents: z.array(timedEvent.extend({ reason: z.enum(["no-face", "dark", "covered", "frozen"]) })),
+  acknowledgements: z.array(
+    z.object({
+      timestamp,
+      level: alertLevel,
+      method: z.enum(["tap", "double-blink"]).nullable(),
+      reactionTime: duration.nullable(),
+      missedTaps: z.number().int().nonnegative(),
+    }),
+  ),
+  source: z.object({ kind: z.enum(["camera", "replay", "video"]), name: z.string().optional() }),
+  events: z.array(
+    z.object({
+      timestamp,
+      type: z.enum(["alert", "yawn", "nod", "gap", "acknowledgement"]),
+      level: alertLevel.optional(),
+      message: z.string().optional(),
+      duration: duration.optional(),
+    }),
+  ),
+})
+
+export const sessionUploadSchema = z.object({
+  driverId: identifier,
+  // Only finished sessions are accepted; one still in progress would be replaced by every later upload
+  session: sessionSchema.refine((session) => session.endTime !== undefined, "Session has not ended"),
+})
+
+// Dates accept anything `new Date()` parses, e.g. "2026-10-19" or a full ISO timestamp
+export const sessionQuerySchema = z
+  .object({
+    driverId: identifier.optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    offset: z.coerce.number().int().nonnegative().default(0),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, { message: "'from' must not be after 'to'", path: ["from"] })
+
+export const sessionKeySchema = z.object({ driverId: identifier, id: identifier })
+
+export type SessionUpload = z.infer<typeof sessionUploadSchema>
+export type SessionQuery = z.infer<typeof sessionQuerySchema>
+
+// Compact validation errors for API responses, e.g. { path: "session.events.3.type", message: "..." }
+export function describeIssues(error: z.ZodError) {
+  return error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+}
@@ -0,0 +1,74 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createSession, finishSession } from "@/lib/sessions/builder"
+import { sessionQuerySchema } from "./schema"
+
+type Store = typeof import("./store")
+
+let root: string
+let store: Store
+
+// The store reads its directory when loaded, so each test loads a fresh copy pointed at an empty folder
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), "session-store-"))
+  vi.stubEnv("SESSION_STORE_DIR", root)
+  vi.resetModules()
+  store = await import("./store")
+})
+
+afterEach(async () => {
+  vi.unstubAllEnvs()
+  await rm(root, { recursive: true, force: true })
+})
+
+const session = (startTime: number) => finishSession(createSession(startTime), startTime + 60000)
+const query = (params: Record<string, unknown> = {}) => sessionQuerySchema.parse(params)
+
+describe("session store", () => {
+  it("reports whether an upload created or replaced a session", async () => {
+    expect((await store.saveStoredSession({ driverId: "truck-7", session: session(1000) })).created).toBe(true)
+    expect((await store.saveStoredSession({ driverId: "truck-7", session: session(1000) })).created).toBe(false)
+    expect((await store.listStoredSessions(query())).total).toBe(1)
+  })
+
+  it("keeps a driver whose ID matches the index file name apart from the index", async () => {
+    await store.saveStoredSession({ driverId: "index.json", session: session(1000) })
+    await store.saveStoredSession({ driverId: "truck-7", session: session(2000) })
+
+    expect((await store.listStoredSessions(query())).total).toBe(2)
+    expect(await store.getStoredSession("index.json", "session_1000")).not.toBeNull()
+  })
+
+  it("filters by driver and start time, newest first", async () => {
+    await store.saveStoredSession({ driverId: "a", session: session(1000) })
+    await store.saveStoredSession({ driverId: "a", session: session(3000) })
+    await store.saveStoredSession({ driverId: "b", session: session(2000) })
+
+    const forA = await store.listStoredSessions(query({ driverId: "a" }))
+    expect(forA.sessions.map((summary) => summary.startTime)).toEqual([3000, 1000])
+
+    const window = await store.listStoredSessions(query({ from: 1500, to: 3000 }))
+    expect(window.sessions.map((summary) => summary.driverId)).toEqual(["b"])
+
+    const page = await store.listStoredSessions(query({ limit: 2 }))
+    expect(page).toMatchObject({ total: 3, hasMore: true })
+  })
+
+  it("rebuilds a missing index from the session files", async () => {
+    await store.saveStoredSession({ driverId: "a", session: session(1000) })
+    await rm(path.join(root, "index.json"))
+
+    expect((await store.listStoredSessions(query())).total).toBe(1)
+  })
+
+  it("deletes a session and its index entry", async () => {
+    await store.saveStoredSession({ driverId: "a", session: session(1000) })
+
+    expect(await store.deleteStoredSession("a", "session_1000")).toBe(true)
+    expect(await store.deleteStoredSession("a", "session_1000")).toBe(false)
+    expect(await store.getStoredSession("a", "session_1000")).toBeNull()
+    expect((await store.listStoredSessions(query())).total).toBe(0)
+  })
+})
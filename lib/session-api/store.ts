@@ -0,0 +1,130 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { SessionQuery, SessionUpload } from "./schema"
+import type { StoredSession, StoredSessionPage, StoredSessionSummary } from "./types"
+
+// One JSON file per session under <root>/drivers/<driverId>/<sessionId>.json, plus an index of summaries so
+// listing doesn't read every session's history. Driver folders live apart from the index so no driver ID can
+// collide with it.
+const STORE_ROOT = path.resolve(process.env.SESSION_STORE_DIR ?? path.join(process.cwd(), ".data", "sessions"))
+const DRIVERS_DIR = path.join(STORE_ROOT, "drivers")
+const INDEX_FILE = path.join(STORE_ROOT, "index.json")
+
+const sessionFile = (driverId: string, id: string) => path.join(DRIVERS_DIR, driverId, `${id}.json`)
+
+// Writes go one at a time so concurrent uploads can't drop each other's index entries
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+function serialize<T>(task: () => Promise<T>) {
+  const run = writeQueue.then(task)
+  writeQueue = run.catch(() => {})
+  return run
+}
+
+const isMissing = (err: unknown) => (err as NodeJS.ErrnoException).code === "ENOENT"
+
+async function writeJson(file: string, value: unknown) {
+  await mkdir(path.dirname(file), { recursive: true })
+  // A crash mid-write must not leave a truncated file behind
+  const temp = `${file}.${process.pid}.tmp`
+  await writeFile(temp, JSON.stringify(value))
+  await rename(temp, file)
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T
+  } catch (err) {
+    if (isMissing(err)) return null
+    throw err
+  }
+}
+
+function summarize({ driverId, uploadedAt, session }: StoredSession): StoredSessionSummary {
+  return {
+    id: session.id,
+    driverId,
+    uploadedAt,
+    startTime: session.startTime,
+    endTime: session.endTime ?? session.startTime + session.duration,
+    duration: session.duration,
+    totalAlerts: session.totalAlerts,
+    alertsByLevel: session.alertsByLevel,
+    maxDrowsinessScore: session.maxDrowsinessScore,
+    maxPerclos: session.maxPerclos,
+    source: session.source,
+  }
+}
+
+// The index is derived data: when it is missing it is rebuilt from the session files
+async function rebuildIndex() {
+  const summaries: StoredSessionSummary[] = []
+  let drivers: string[] = []
+  try {
+    const entries = await readdir(DRIVERS_DIR, { withFileTypes: true })
+    drivers = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name)
+  } catch (err) {
+    if (!isMissing(err)) throw err
+  }
+
+  for (const driverId of drivers) {
+    for (const file of await readdir(path.join(DRIVERS_DIR, driverId))) {
+      if (!file.endsWith(".json")) continue
+      const stored = await readJson<StoredSession>(path.join(DRIVERS_DIR, driverId, file))
+      if (stored) summaries.push(summarize(stored))
+    }
+  }
+  return summaries
+}
+
+async function readIndex() {
+  return (await readJson<StoredSessionSummary[]>(INDEX_FILE)) ?? rebuildIndex()
+}
+
+const isSameSession = (summary: StoredSessionSummary, driverId: string, id: string) =>
+  summary.driverId === driverId && summary.id === id
+
+// Uploading a session that is already stored replaces it, so devices can safely retry
+export function saveStoredSession({ driverId, session }: SessionUpload) {
+  return serialize(async () => {
+    // Read first: a rebuilt index would already include the file written below
+    const index = await readIndex()
+    const stored: StoredSession = { driverId, uploadedAt: Date.now(), session }
+    await writeJson(sessionFile(driverId, session.id), stored)
+
+    const created = !index.some((summary) => isSameSession(summary, driverId, session.id))
+    const summary = summarize(stored)
+    await writeJson(INDEX_FILE, [...index.filter((entry) => !isSameSession(entry, driverId, session.id)), summary])
+    return { summary, created }
+  })
+}
+
+// Newest sessions first; `from` is inclusive and `to` exclusive, both on the session start time
+export async function listStoredSessions(query: SessionQuery): Promise<StoredSessionPage> {
+  const { driverId, from, to, offset, limit } = query
+  const matches = (await readIndex())
+    .filter(
+      (summary) =>
+        (!driverId || summary.driverId === driverId) &&
+        (!from || summary.startTime >= from.getTime()) &&
+        (!to || summary.startTime < to.getTime()),
+    )
+    .sort((a, b) => b.startTime - a.startTime)
+
+  const sessions = matches.slice(offset, offset + limit)
+  return { sessions, total: matches.length, hasMore: offset + sessions.length < matches.length }
+}
+
+export function getStoredSession(driverId: string, id: string) {
+  return readJson<StoredSession>(sessionFile(driverId, id))
+}
+
+export function deleteStoredSession(driverId: string, id: string) {
+  return serialize(async () => {
+    const index = await readIndex()
+    const existed = (await getStoredSession(driverId, id)) !== null
+    await rm(sessionFile(driverId, id), { force: true })
+    await writeJson(INDEX_FILE, index.filter((summary) => !isSameSession(summary, driverId, id)))
+    return existed
+  })
+}
@@ -0,0 +1,28 @@
+import type { SessionData, SessionSource } from "@/lib/sessions"
+
+export interface StoredSession {
+  driverId: string
+  uploadedAt: number
+  session: SessionData
+}
+
+// What listings return; the histories stay in the per-session file until a session is opened
+export interface StoredSessionSummary {
+  id: string
+  driverId: string
+  uploadedAt: number
+  startTime: number
+  endTime: number
+  duration: number
+  totalAlerts: number
+  alertsByLevel: Record<string, number>
+  maxDrowsinessScore: number
+  maxPerclos: number
+  source: SessionSource
+}
+
+export interface StoredSessionPage {
+  sessions: StoredSessionSummary[]
+  total: number
+  hasMore: boolean
+}
@@ -0,0 +1,90 @@
+import { FACE_LOSS_LABELS, type AlertLevel, type FaceLostEvent, type FrameAnalysis } from "@/lib/drowsiness"
+import type { SessionData, SessionSource } from "./types"
+
+// Offline sessions can span hours, so history is kept at one point per second
+const HISTORY_INTERVAL_MS = 1000
+// Points kept at full resolution; past this the older half is thinned to every other point, so a long session
+// keeps its whole span at gradually coarser detail instead of only its latest stretch
+const MAX_HISTORY_POINTS = 2000
+
+type SessionHistory = SessionData["earHistory"]
+
+// Returns the history unchanged when the last point is under a second old, so the rate doesn't follow the frame rate
+export function appendHistoryPoint(history: SessionHistory, timestamp: number, value: number): SessionHistory {
+  const lastPoint = history[history.length - 1]
+  if (lastPoint && timestamp - lastPoint.timestamp < HISTORY_INTERVAL_MS) return history
+
+  const next = [...history, { timestamp, value }]
+  if (next.length <= MAX_HISTORY_POINTS) return next
+  const half = Math.floor(next.length / 2)
+  return [...next.slice(0, half).filter((_, index) => index % 2 === 0), ...next.slice(half)]
+}
+
+export function createSession(startTime: number, source: SessionSource = { kind: "camera" }): SessionData {
+  return {
+    id: `session_${startTime}`,
+    startTime,
+    duration: 0,
+    totalBlinks: 0,
+    totalAlerts: 0,
+    avgEAR: 0,
+    maxDrowsinessScore: 0,
+    alertsByLevel: { low: 0, medium: 0, high: 0, critical: 0 },
+    earHistory: [],
+    drowsinessHistory: [],
+    maxPerclos: 0,
+    perclosHistory: [],
+    yawnEvents: [],
+    nodEvents: [],
+    faceLostEvents: [],
+    acknowledgements: [],
+    source,
+    events: [],
+  }
+}
+
+// Accumulates one analysed frame into a session built outside React (video files, headless runs)
+export function recordSessionFrame(session: SessionData, analysis: FrameAnalysis, earSamples: number) {
+  const { timestamp } = analysis
+
+  session.duration = timestamp - session.startTime
+  session.maxDrowsinessScore = Math.max(session.maxDrowsinessScore, analysis.drowsinessScore)
+  session.maxPerclos = Math.max(session.maxPerclos, analysis.perclos)
+  session.totalBlinks += analysis.blinkDetected ? 1 : 0
+  // Running mean; earSamples counts this frame
+  session.avgEAR += (analysis.currentEAR - session.avgEAR) / earSamples
+
+  session.earHistory = appendHistoryPoint(session.earHistory, timestamp, analysis.currentEAR)
+  session.drowsinessHistory = appendHistoryPoint(session.drowsinessHistory, timestamp, analysis.drowsinessScore)
+  session.perclosHistory = appendHistoryPoint(session.perclosHistory, timestamp, analysis.perclos)
+
+  if (analysis.completedYawn) {
+    session.yawnEvents.push(analysis.completedYawn)
+    const { timestamp: yawnStart, duration } = analysis.completedYawn
+    session.events.push({ timestamp: yawnStart, type: "yawn", duration })
+  }
+  if (analysis.completedNod) {
+    session.nodEvents.push(analysis.completedNod)
+    const { timestamp: nodStart, duration } = analysis.completedNod
+    session.events.push({ timestamp: nodStart, type: "nod", duration })
+  }
+}
+
+export function recordSessionFaceLoss(session: SessionData, loss: FaceLostEvent) {
+  session.faceLostEvents.push(loss)
+  const { timestamp, duration, reason } = loss
+  session.events.push({ timestamp, type: "gap", duration, message: FACE_LOSS_LABELS[reason] })
+}
+
+export function recordSessionAlert(session: SessionData, timestamp: number, level: AlertLevel, message: string) {
+  session.totalAlerts++
+  session.alertsByLevel[level] = (session.alertsByLevel[level] || 0) + 1
+  session.events.push({ timestamp, type: "alert", level, message })
+}
+
+export function finishSession(session: SessionData, endTime: number): SessionData {
+  session.endTime = endTime
+  session.duration = endTime - session.startTime
+  session.events.sort((a, b) => a.timestamp - b.timestamp)
+  return session
+}
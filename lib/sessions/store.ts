@@ -0,0 +1,64 @@
+import {
+  clearStore,
+  deleteRecord,
+  getRecord,
+  openDatabase,
+  promisifyRequest,
+  putRecord,
+  SESSION_STORE,
+} from "@/lib/storage"
+import type { SessionData, SessionPage } from "./types"
+
+export function saveSession(session: SessionData) {
+  return putRecord(SESSION_STORE, session)
+}
+
+export function getSession(id: string) {
+  return getRecord<SessionData>(SESSION_STORE, id)
+}
+
+export async function countSessions() {
+  const db = await openDatabase()
+  const store = db.transaction(SESSION_STORE, "readonly").objectStore(SESSION_STORE)
+  return promisifyRequest(store.count())
+}
+
+// Newest sessions first
+export async function listSessions(offset = 0, limit = 10): Promise<SessionPage> {
+  const db = await openDatabase()
+  const transaction = db.transaction(SESSION_STORE, "readonly")
+  const store = transaction.objectStore(SESSION_STORE)
+  const total = await promisifyRequest(store.count())
+
+  const sessions = await new Promise<SessionData[]>((resolve, reject) => {
+    const results: SessionData[] = []
+    let skipped = false
+    const request = store.index("startTime").openCursor(null, "prev")
+
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || results.length >= limit) {
+        resolve(results)
+        return
+      }
+      if (!skipped && offset > 0) {
+        skipped = true
+        cursor.advance(offset)
+        return
+      }
+      results.push(cursor.value as SessionData)
+      cursor.continue()
+    }
+    request.onerror = () => reject(request.error)
+  })
+
+  return { sessions, total, hasMore: offset + sessions.length < total }
+}
+
+export function deleteSession(id: string) {
+  return deleteRecord(SESSION_STORE, id)
+}
+
+export function clearSessions() {
+  return clearStore(SESSION_STORE)
+}
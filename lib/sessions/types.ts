@@ -0,0 +1,43 @@
+import type { AlertLevel, FaceLostEvent, HeadNodEvent, YawnEvent } from "@/lib/drowsiness"
+import type { AcknowledgementEvent } from "@/lib/escalation"
+
+export interface SessionSource {
+  kind: "camera" | "replay" | "video"
+  name?: string
+}
+
+export interface SessionEvent {
+  timestamp: number
+  type: "alert" | "yawn" | "nod" | "gap" | "acknowledgement" // gap: monitoring was interrupted for `duration` ms
+  level?: AlertLevel
+  message?: string
+  duration?: number
+}
+
+export interface SessionData {
+  id: string
+  startTime: number
+  endTime?: number
+  duration: number
+  totalBlinks: number
+  totalAlerts: number
+  avgEAR: number
+  maxDrowsinessScore: number
+  alertsByLevel: Record<string, number>
+  earHistory: Array<{ timestamp: number; value: number }>
+  drowsinessHistory: Array<{ timestamp: number; value: number }>
+  maxPerclos: number
+  perclosHistory: Array<{ timestamp: number; value: number }>
+  yawnEvents: YawnEvent[]
+  nodEvents: HeadNodEvent[]
+  faceLostEvents: FaceLostEvent[]
+  acknowledgements: AcknowledgementEvent[]
+  source: SessionSource
+  events: SessionEvent[]
+}
+
+export interface SessionPage {
+  sessions: SessionData[]
+  total: number
+  hasMore: boolean
+}
@@ -0,0 +1,164 @@
+const DB_NAME = "drowsiness-detection"
+
+export const SESSION_STORE = "sessions"
+export const PROFILE_STORE = "calibrationProfiles"
+export const SOUND_STORE = "alertSounds"
+export const WEBHOOK_QUEUE_STORE = "webhookQueue"
+export const WEBHOOK_LOG_STORE = "webhookLog"
+
+// Each entry upgrades the database from the previous version. Append new
+// migrations here and never edit existing ones: users may skip versions.
+const migrations: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  // v1: session store ordered by start time
+  (db) => {
+    const store = db.createObjectStore(SESSION_STORE, { keyPath: "id" })
+    store.createIndex("startTime", "startTime")
+  },
+  // v2: named calibration profiles
+  (db) => {
+    const store = db.createObjectStore(PROFILE_STORE, { keyPath: "id" })
+    store.createIndex("createdAt", "createdAt")
+  },
+  // v3: backfill PERCLOS fields on sessions recorded before they existed
+  (_db, transaction) => {
+    backfillRecords(transaction.objectStore(SESSION_STORE), { maxPerclos: 0, perclosHistory: [] })
+  },
+  // v4: yawn events on sessions
+  (_db, transaction) => {
+    backfillRecords(transaction.objectStore(SESSION_STORE), { yawnEvents: [] })
+  },
+  // v5: head nod events on sessions
+  (_db, transaction) => {
+    backfillRecords(transaction.objectStore(SESSION_STORE), { nodEvents: [] })
+  },
+  // v6: session source and event timeline
+  (_db, transaction) => {
+    backfillRecords(transaction.objectStore(SESSION_STORE), { source: { kind: "camera" }, events: [] })
+  },
+  // v7: face-lost and camera obstruction gaps on sessions
+  (_db, transaction) => {
+    backfillRecords(transaction.objectStore(SESSION_STORE), { faceLostEvents: [] })
+  },
+  // v8: "I wear glasses" on calibration profiles
+  (_db, transaction) => {
+    backfillRecords(transaction.objectStore(PROFILE_STORE), { wearsGlasses: false })
+  },
+  // v9: responses to acknowledgement challenges on sessions
+  (_db, transaction) => {
+    backfillRecords(transaction.objectStore(SESSION_STORE), { acknowledgements: [] })
+  },
+  // v10: sounds uploaded for alert channels
+  (db) => {
+    const store = db.createObjectStore(SOUND_STORE, { keyPath: "id" })
+    store.createIndex("createdAt", "createdAt")
+  },
+  // v11: outbound webhook queue and delivery log
+  (db) => {
+    db.createObjectStore(WEBHOOK_QUEUE_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt")
+    db.createObjectStore(WEBHOOK_LOG_STORE, { keyPath: "id" }).createIndex("timestamp", "timestamp")
+  },
+]
+
+// Adds any missing fields to every record in a store during an upgrade
+function backfillRecords(store: IDBObjectStore, defaults: Record<string, unknown>) {
+  const request = store.openCursor()
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+    cursor.update({ ...defaults, ...cursor.value })
+    cursor.continue()
+  }
+}
+
+export const DB_VERSION = migrations.length
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export const promisifyTransaction = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+export function isStorageAvailable() {
+  return typeof indexedDB !== "undefined"
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!isStorageAvailable()) {
+      reject(new Error("IndexedDB is not available in this environment"))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      const transaction = request.transaction!
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        migrations[version](db, transaction)
+      }
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => reject(new Error("Database upgrade blocked by another open tab"))
+  })
+
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+
+  return dbPromise
+}
+
+export async function getAllRecords<T>(storeName: string, indexName: string) {
+  const db = await openDatabase()
+  const store = db.transaction(storeName, "readonly").objectStore(storeName)
+  return promisifyRequest<T[]>(store.index(indexName).getAll())
+}
+
+export async function getRecord<T>(storeName: string, key: IDBValidKey) {
+  const db = await openDatabase()
+  const store = db.transaction(storeName, "readonly").objectStore(storeName)
+  return (await promisifyRequest<T | undefined>(store.get(key))) ?? null
+}
+
+export async function putRecord<T>(storeName: string, record: T) {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, "readwrite")
+  transaction.objectStore(storeName).put(record)
+  await promisifyTransaction(transaction)
+}
+
+export async function deleteRecord(storeName: string, key: IDBValidKey) {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, "readwrite")
+  transaction.objectStore(storeName).delete(key)
+  await promisifyTransaction(transaction)
+}
+
+export async function clearStore(storeName: string) {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, "readwrite")
+  transaction.objectStore(storeName).clear()
+  await promisifyTransaction(transaction)
+}
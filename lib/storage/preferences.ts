@@ -0,0 +1,25 @@
+const PREFIX = "drowsiness:"
+
+// Small synchronous settings (selected ids, toggles) that must be readable on first render
+export function loadPreference<T>(key: string, fallback: T): T {
+  if (typeof localStorage === "undefined") return fallback
+  try {
+    const raw = localStorage.getItem(PREFIX + key)
+    return raw === null ? fallback : (JSON.parse(raw) as T)
+  } catch {
+    return fallback
+  }
+}
+
+export function savePreference<T>(key: string, value: T) {
+  if (typeof localStorage === "undefined") return
+  try {
+    if (value === null || value === undefined) {
+      localStorage.removeItem(PREFIX + key)
+    } else {
+      localStorage.setItem(PREFIX + key, JSON.stringify(value))
+    }
+  } catch (err) {
+    console.error("[v0] Failed to save preference:", key, err)
+  }
+}
@@ -0,0 +1,62 @@
+import type { LandmarkFrame } from "@/lib/drowsiness"
+
+type FaceBox = NonNullable<LandmarkFrame["box"]>
+
+export type DriverSelectionRule = "largest" | "seat-region" | "locked"
+
+// Fractions of the frame, so the region survives resolution changes
+export interface SeatRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export const SEAT_REGION_PRESETS: Array<{ id: string; label: string; region: SeatRegion }> = [
+  { id: "left", label: "Left side of frame", region: { x: 0, y: 0, width: 0.5, height: 1 } },
+  { id: "center", label: "Center of frame", region: { x: 0.25, y: 0, width: 0.5, height: 1 } },
+  { id: "right", label: "Right side of frame", region: { x: 0.5, y: 0, width: 0.5, height: 1 } },
+]
+
+export interface DriverSelection {
+  rule: DriverSelectionRule
+  seatRegion: SeatRegion
+  lockedId: number | null
+}
+
+const boxArea = (box: FaceBox) => box.width * box.height
+
+// Picks the face to analyse. Returns null when the locked face isn't visible rather than switching to
+// someone else, since analysing a passenger would look like the driver is fine.
+export function selectDriver<T extends { id?: number; box: FaceBox }>(
+  faces: T[],
+  selection: DriverSelection,
+  frameWidth: number,
+  frameHeight: number,
+): T | null {
+  if (faces.length === 0) return null
+
+  if (selection.rule === "locked") {
+    return faces.find((face) => face.id === selection.lockedId) ?? null
+  }
+
+  if (selection.rule === "seat-region") {
+    const { x, y, width, height } = selection.seatRegion
+    const regionX = (x + width / 2) * frameWidth
+    const regionY = (y + height / 2) * frameHeight
+    const distanceToSeat = (box: FaceBox) =>
+      Math.hypot(box.xMin + box.width / 2 - regionX, box.yMin + box.height / 2 - regionY)
+    return faces.reduce((best, face) => (distanceToSeat(face.box) < distanceToSeat(best.box) ? face : best))
+  }
+
+  // The driver usually sits closest to the camera, so their face is the largest
+  return faces.reduce((best, face) => (boxArea(face.box) > boxArea(best.box) ? face : best))
+}
+
+// For click-to-lock: the smallest face whose box contains the point, in frame pixels
+export function findFaceAt<T extends { box: FaceBox }>(faces: T[], x: number, y: number): T | null {
+  const hits = faces.filter(
+    ({ box }) => x >= box.xMin && x <= box.xMin + box.width && y >= box.yMin && y <= box.yMin + box.height,
+  )
+  return hits.length > 0 ? hits.reduce((best, face) => (boxArea(face.box) < boxArea(best.box) ? face : best)) : null
+}
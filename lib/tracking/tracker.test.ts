@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { createFaceTracker, updateFaceTracks } from "./tracker"
+import { findFaceAt, selectDriver, type DriverSelection } from "./selection"
+
+const face = (xMin: number, yMin: number, size: number) => ({
+  keypoints: [],
+  box: { xMin, yMin, width: size, height: size },
+})
+
+const LARGEST: DriverSelection = { rule: "largest", seatRegion: { x: 0, y: 0, width: 0.5, height: 1 }, lockedId: null }
+
+describe("face tracking", () => {
+  it("keeps IDs stable when the detector reports faces in a different order", () => {
+    const tracker = createFaceTracker()
+    const [left, right] = updateFaceTracks(tracker, [face(0, 0, 100), face(400, 0, 100)], 0)
+    const moved = updateFaceTracks(tracker, [face(410, 5, 100), face(10, 5, 100)], 33)
+
+    expect(moved.find((track) => track.box.xMin === 10)!.id).toBe(left.id)
+    expect(moved.find((track) => track.box.xMin === 410)!.id).toBe(right.id)
+  })
+
+  it("gives a face a new ID when it returns after the timeout", () => {
+    const tracker = createFaceTracker()
+    const [first] = updateFaceTracks(tracker, [face(0, 0, 100)], 0)
+    updateFaceTracks(tracker, [], 500)
+
+    expect(updateFaceTracks(tracker, [face(0, 0, 100)], 900)[0].id).toBe(first.id)
+    expect(updateFaceTracks(tracker, [face(0, 0, 100)], 2000)[0].id).not.toBe(first.id)
+  })
+
+  it("skips detections without a face box", () => {
+    expect(updateFaceTracks(createFaceTracker(), [{ keypoints: [] }], 0)).toEqual([])
+  })
+})
+
+describe("driver selection", () => {
+  const faces = [
+    { id: 1, ...face(0, 0, 200) },
+    { id: 2, ...face(500, 0, 100) },
+  ]
+
+  it("picks the largest face by default", () => {
+    expect(selectDriver(faces, LARGEST, 640, 480)?.id).toBe(1)
+  })
+
+  it("picks the face closest to the seat region", () => {
+    const seat = { ...LARGEST, rule: "seat-region" as const, seatRegion: { x: 0.5, y: 0, width: 0.5, height: 1 } }
+    expect(selectDriver(faces, seat, 640, 480)?.id).toBe(2)
+  })
+
+  it("doesn't switch to someone else while the locked face is out of view", () => {
+    const locked = { ...LARGEST, rule: "locked" as const, lockedId: 3 }
+    expect(selectDriver(faces, locked, 640, 480)).toBeNull()
+  })
+
+  it("finds the smallest face under a click", () => {
+    const nested = [...faces, { id: 3, ...face(50, 50, 50) }]
+    expect(findFaceAt(nested, 60, 60)?.id).toBe(3)
+    expect(findFaceAt(nested, 300, 400)).toBeNull()
+  })
+})
@@ -0,0 +1,84 @@
+import type { LandmarkFrame, Point } from "@/lib/drowsiness"
+
+type FaceBox = NonNullable<LandmarkFrame["box"]>
+
+export interface TrackedFace {
+  id: number
+  keypoints: Point[]
+  box: FaceBox
+  firstSeen: number
+  lastSeen: number
+}
+
+export interface FaceTracker {
+  tracks: TrackedFace[]
+  nextId: number
+}
+
+// Minimum box overlap for a detection to continue an existing track
+const MIN_TRACK_IOU = 0.3
+// A face missing for longer than this gets a new ID when it reappears
+const TRACK_TIMEOUT_MS = 1000
+
+export function createFaceTracker(): FaceTracker {
+  return { tracks: [], nextId: 1 }
+}
+
+export function boxIoU(a: FaceBox, b: FaceBox) {
+  const x1 = Math.max(a.xMin, b.xMin)
+  const y1 = Math.max(a.yMin, b.yMin)
+  const x2 = Math.min(a.xMin + a.width, b.xMin + b.width)
+  const y2 = Math.min(a.yMin + a.height, b.yMin + b.height)
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1)
+  const union = a.width * a.height + b.width * b.height - intersection
+  return union > 0 ? intersection / union : 0
+}
+
+// Detectors report faces in no particular order, so faces are matched to the previous frame's tracks by
+// box overlap, best pairs first. Returns the faces visible in this frame.
+export function updateFaceTracks(
+  tracker: FaceTracker,
+  faces: Array<{ keypoints: Point[]; box?: FaceBox }>,
+  timestamp: number,
+): TrackedFace[] {
+  tracker.tracks = tracker.tracks.filter((track) => timestamp - track.lastSeen <= TRACK_TIMEOUT_MS)
+
+  const detections = faces.filter((face): face is { keypoints: Point[]; box: FaceBox } => face.box !== undefined)
+  const pairs: Array<{ track: TrackedFace; detection: number; iou: number }> = []
+  tracker.tracks.forEach((track) => {
+    detections.forEach((face, detection) => {
+      const iou = boxIoU(track.box, face.box)
+      if (iou >= MIN_TRACK_IOU) pairs.push({ track, detection, iou })
+    })
+  })
+  pairs.sort((a, b) => b.iou - a.iou)
+
+  const matchedTracks = new Set<TrackedFace>()
+  const matchedDetections = new Set<number>()
+  const visible: TrackedFace[] = []
+
+  for (const { track, detection } of pairs) {
+    if (matchedTracks.has(track) || matchedDetections.has(detection)) continue
+    matchedTracks.add(track)
+    matchedDetections.add(detection)
+    track.keypoints = detections[detection].keypoints
+    track.box = detections[detection].box
+    track.lastSeen = timestamp
+    visible.push(track)
+  }
+
+  detections.forEach((face, detection) => {
+    if (matchedDetections.has(detection)) return
+    const track: TrackedFace = {
+      id: tracker.nextId++,
+      keypoints: face.keypoints,
+      box: face.box,
+      firstSeen: timestamp,
+      lastSeen: timestamp,
+    }
+    tracker.tracks.push(track)
+    visible.push(track)
+  })
+
+  return visible.sort((a, b) => a.id - b.id)
+}
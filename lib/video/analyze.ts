@@ -0,0 +1,186 @@
+import { assessEyewear, assessImageQuality, createEyewearSampler, createQualitySampler } from "@/lib/camera"
+import {
+  analyzeFrame,
+  closeFaceLoss,
+  createDrowsinessState,
+  updateFacePresence,
+  type DrowsinessConfig,
+  type FrameAnalysis,
+  type LandmarkFrame,
+  type Point,
+} from "@/lib/drowsiness"
+import {
+  buildPolicyMetrics,
+  createPolicyState,
+  DEFAULT_ESCALATION_POLICY,
+  evaluatePolicy,
+  type EscalationPolicy,
+} from "@/lib/escalation"
+import {
+  createSession,
+  finishSession,
+  recordSessionAlert,
+  recordSessionFaceLoss,
+  recordSessionFrame,
+  type SessionData,
+} from "@/lib/sessions"
+import { createFaceTracker, SEAT_REGION_PRESETS, selectDriver, updateFaceTracks } from "@/lib/tracking"
+
+export interface FaceEstimator {
+  estimateFaces: (input: HTMLVideoElement) => Promise<Array<{ keypoints: Point[]; box?: LandmarkFrame["box"] }>>
+}
+
+export interface VideoAnalysisOptions {
+  video: HTMLVideoElement
+  estimator: FaceEstimator
+  config: DrowsinessConfig
+  policy?: EscalationPolicy
+  fps?: number
+  startTime?: number // wall-clock time of the first frame; defaults to now
+  name?: string
+  signal?: AbortSignal
+  onFrame?: (frame: LandmarkFrame, analysis: FrameAnalysis | null, progress: number) => void
+}
+
+function seekTo(video: HTMLVideoElement, time: number) {
+  return new Promise<void>((resolve, reject) => {
+    const onSeeked = () => {
+      cleanup()
+      resolve()
+    }
+    const onError = () => {
+      cleanup()
+      reject(new Error("The video could not be decoded at this position"))
+    }
+    const cleanup = () => {
+      video.removeEventListener("seeked", onSeeked)
+      video.removeEventListener("error", onError)
+    }
+    video.addEventListener("seeked", onSeeked)
+    video.addEventListener("error", onError)
+    video.currentTime = time
+  })
+}
+
+export function waitForMetadata(video: HTMLVideoElement) {
+  if (video.readyState >= HTMLMediaElement.HAVE_METADATA) return Promise.resolve()
+  return new Promise<void>((resolve, reject) => {
+    video.onloadedmetadata = () => resolve()
+    video.onerror = () => reject(new Error("Unsupported or corrupt video file"))
+  })
+}
+
+// How long the browser gets to scan a file for its real duration
+const DURATION_SCAN_TIMEOUT_MS = 10000
+
+// MediaRecorder WebM files and other streamed recordings report an infinite duration until the browser has seen
+// their end. Seeking far past the end makes it scan the file and fill in the real value.
+export async function resolveVideoDuration(video: HTMLVideoElement) {
+  await waitForMetadata(video)
+  if (!Number.isFinite(video.duration)) {
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timeout)
+        video.removeEventListener("durationchange", onDurationChange)
+        resolve()
+      }
+      const onDurationChange = () => {
+        if (Number.isFinite(video.duration)) done()
+      }
+      const timeout = setTimeout(done, DURATION_SCAN_TIMEOUT_MS)
+      video.addEventListener("durationchange", onDurationChange)
+      video.currentTime = Number.MAX_SAFE_INTEGER
+    })
+    await seekTo(video, 0)
+  }
+
+  if (!Number.isFinite(video.duration) || video.duration <= 0) {
+    throw new Error("The video has no known length, so it can't be analysed")
+  }
+  return video.duration
+}
+
+// Steps through the video at a fixed analysis rate by seeking, so results depend only on the file
+// and the config, never on how fast this machine happens to run inference.
+export async function analyzeVideo({
+  video,
+  estimator,
+  config,
+  policy = DEFAULT_ESCALATION_POLICY,
+  fps = 10,
+  startTime = Date.now(),
+  name,
+  signal,
+  onFrame,
+}: VideoAnalysisOptions): Promise<SessionData> {
+  const duration = await resolveVideoDuration(video)
+  video.pause()
+
+  const state = createDrowsinessState()
+  const tracker = createFaceTracker()
+  const qualitySampler = createQualitySampler()
+  const eyewearSampler = createEyewearSampler()
+  const session = createSession(startTime, { kind: "video", name })
+  const frameCount = Math.max(1, Math.floor(duration * fps))
+  const policyState = createPolicyState()
+  let earSamples = 0
+
+  for (let index = 0; index < frameCount; index++) {
+    if (signal?.aborted) {
+      throw new DOMException("Video analysis cancelled", "AbortError")
+    }
+
+    const offset = index / fps
+    await seekTo(video, offset)
+
+    const timestamp = startTime + Math.round(offset * 1000)
+    const predictions = await estimator.estimateFaces(video)
+    // Recorded footage has no seat configuration, so the closest (largest) face is taken as the driver
+    const face = selectDriver(
+      updateFaceTracks(tracker, predictions, timestamp),
+      { rule: "largest", seatRegion: SEAT_REGION_PRESETS[0].region, lockedId: null },
+      video.videoWidth,
+      video.videoHeight,
+    )
+    const quality = face ? assessImageQuality(qualitySampler, video, face.box, timestamp) : null
+    const eyewear = face ? assessEyewear(eyewearSampler, video, face.keypoints, face.box, timestamp) : null
+    const frame: LandmarkFrame = face
+      ? {
+          timestamp,
+          keypoints: face.keypoints,
+          box: face.box,
+          quality: quality?.score,
+          eyeReliability: eyewear?.reliability,
+        }
+      : { timestamp, keypoints: [] }
+
+    const presence = updateFacePresence(state, config, frame.keypoints.length > 0, "no-face", timestamp)
+    if (presence.completedLoss) {
+      recordSessionFaceLoss(session, presence.completedLoss)
+    }
+
+    let analysis: FrameAnalysis | null = null
+    if (frame.keypoints.length > 0) {
+      analysis = analyzeFrame(state, config, frame)
+      earSamples++
+      recordSessionFrame(session, analysis, earSamples)
+    }
+
+    // Nobody can acknowledge alerts in recorded footage, so they escalate as they would for an unresponsive driver
+    const metrics = buildPolicyMetrics(analysis, presence.status === "lost" ? presence.lostDuration : 0)
+    const alert = evaluatePolicy(policyState, policy, metrics, timestamp)
+    if (alert) {
+      recordSessionAlert(session, timestamp, alert.level, alert.message)
+    }
+
+    onFrame?.(frame, analysis, (index + 1) / frameCount)
+  }
+
+  const endTime = startTime + Math.round(duration * 1000)
+  const openLoss = closeFaceLoss(state, config, endTime)
+  if (openLoss) {
+    recordSessionFaceLoss(session, openLoss)
+  }
+
+  return finishSession(session, endTime)
+}
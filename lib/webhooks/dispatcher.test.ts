@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createWebhookDispatcher } from "./dispatcher"
+import { createWebhookEvent } from "./events"
+import type { DeliveryLogEntry, WebhookEndpoint } from "./types"
+
+// The queue lives in IndexedDB in the browser; these tests only look at delivery
+vi.mock("./store", () => ({
+  appendDeliveryLog: vi.fn(async () => {}),
+  deleteQueuedDelivery: vi.fn(async () => {}),
+  listQueuedDeliveries: vi.fn(async () => []),
+  saveQueuedDelivery: vi.fn(async () => {}),
+}))
+
+const ENDPOINT: WebhookEndpoint = {
+  id: "endpoint_1",
+  name: "Dispatch",
+  url: "https://dispatch.example.com/hooks",
+  secret: "secret",
+  enabled: true,
+  events: ["alert.raised"],
+}
+
+let fetchMock: ReturnType<typeof vi.fn>
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  fetchMock = vi.fn()
+  vi.stubGlobal("fetch", fetchMock)
+  vi.stubGlobal("navigator", { onLine: true })
+  vi.stubGlobal("window", { addEventListener: vi.fn(), removeEventListener: vi.fn() })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+function start(endpoints = [ENDPOINT]) {
+  const log: DeliveryLogEntry[] = []
+  const dispatcher = createWebhookDispatcher({
+    getEndpoints: () => endpoints,
+    onLog: (entry) => log.push(entry),
+    onQueueChange: () => {},
+  })
+  return { dispatcher, log }
+}
+
+describe("webhook dispatcher", () => {
+  it("posts subscribed events with a signature and skips the rest", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }))
+    const { dispatcher, log } = start()
+
+    dispatcher.emit(createWebhookEvent("alert.raised", "session_1", { level: "critical" }))
+    dispatcher.emit(createWebhookEvent("session.started", "session_1", {}))
+    // Signing is real async work, not a timer
+    await vi.waitFor(() => expect(log).toHaveLength(1))
+    dispatcher.stop()
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe(ENDPOINT.url)
+    expect(init.headers["X-Drowsiness-Event"]).toBe("alert.raised")
+    expect(init.headers["X-Drowsiness-Signature"]).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/)
+    expect(log.map((entry) => entry.status)).toEqual(["delivered"])
+  })
+
+  it("retries server errors with backoff", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 }))
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 200 }))
+    const { dispatcher, log } = start()
+
+    dispatcher.emit(createWebhookEvent("alert.raised", null, {}))
+    await vi.waitFor(() => expect(log).toHaveLength(1))
+    expect(log[0].status).toBe("retrying")
+
+    // First retry after 5 s, picked up by the next poll
+    await vi.advanceTimersByTimeAsync(10000)
+    await vi.waitFor(() => expect(log).toHaveLength(2))
+    dispatcher.stop()
+    expect(log.map((entry) => entry.status)).toEqual(["retrying", "delivered"])
+  })
+
+  it("gives up on client errors straight away", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 400 }))
+    const { dispatcher, log } = start()
+
+    dispatcher.emit(createWebhookEvent("alert.raised", null, {}))
+    await vi.waitFor(() => expect(log).toHaveLength(1))
+    await vi.advanceTimersByTimeAsync(60000)
+    dispatcher.stop()
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(log).toMatchObject([{ status: "failed", httpStatus: 400 }])
+  })
+
+  it("keeps deliveries queued while offline without using up their retries", async () => {
+    vi.stubGlobal("navigator", { onLine: false })
+    const { dispatcher, log } = start()
+
+    dispatcher.emit(createWebhookEvent("alert.raised", null, {}))
+    await vi.advanceTimersByTimeAsync(60000)
+    dispatcher.stop()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(log).toEqual([])
+  })
+})
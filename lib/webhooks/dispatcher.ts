@@ -0,0 +1,194 @@
+import { createWebhookEvent } from "./events"
+import { DELIVERY_HEADER, EVENT_HEADER, SIGNATURE_HEADER, signPayload } from "./signing"
+import {
+  appendDeliveryLog,
+  deleteQueuedDelivery,
+  listQueuedDeliveries,
+  saveQueuedDelivery,
+} from "./store"
+import type { DeliveryLogEntry, QueuedDelivery, WebhookEndpoint, WebhookEvent } from "./types"
+
+export interface WebhookDispatcherOptions {
+  getEndpoints: () => WebhookEndpoint[]
+  onLog: (entry: DeliveryLogEntry) => void
+  onQueueChange: (size: number) => void
+}
+
+export interface WebhookDispatcher {
+  emit: (event: WebhookEvent) => void
+  sendTest: (endpoint: WebhookEndpoint) => void
+  flush: () => Promise<void>
+  stop: () => void
+}
+
+// Wait before each retry; a delivery is given up after the last one
+const RETRY_DELAYS_MS = [5000, 15000, 60000, 300000, 900000, 3600000]
+const REQUEST_TIMEOUT_MS = 10000
+const POLL_INTERVAL_MS = 5000
+
+type AttemptResult = { ok: true; status: number } | { ok: false; status: number | null; error: string; retry: boolean }
+
+async function post(delivery: QueuedDelivery, endpoint: WebhookEndpoint): Promise<AttemptResult> {
+  const body = JSON.stringify(delivery.event)
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    [EVENT_HEADER]: delivery.event.type,
+    [DELIVERY_HEADER]: delivery.id,
+  }
+  if (endpoint.secret) {
+    headers[SIGNATURE_HEADER] = await signPayload(endpoint.secret, Date.now(), body)
+  }
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+  try {
+    const response = await fetch(endpoint.url, { method: "POST", headers, body, signal: controller.signal })
+    if (response.ok) return { ok: true, status: response.status }
+    // Client errors won't fix themselves, except timeouts and rate limits
+    const retry = response.status >= 500 || response.status === 408 || response.status === 429
+    return { ok: false, status: response.status, error: `HTTP ${response.status}`, retry }
+  } catch (err) {
+    const error = controller.signal.aborted ? "Timed out" : err instanceof Error ? err.message : "Network error"
+    return { ok: false, status: null, error, retry: true }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+// Delivers events to the configured endpoints in order, keeping undelivered ones in IndexedDB so they survive
+// going offline or closing the app, and retrying with backoff
+export function createWebhookDispatcher({
+  getEndpoints,
+  onLog,
+  onQueueChange,
+}: WebhookDispatcherOptions): WebhookDispatcher {
+  let queue: QueuedDelivery[] = []
+  let flushing = false
+  let stopped = false
+
+  const persist = (delivery: QueuedDelivery) =>
+    saveQueuedDelivery(delivery).catch((err) => console.error("[v0] Failed to persist webhook delivery:", err))
+
+  const remove = (delivery: QueuedDelivery) => {
+    queue = queue.filter((queued) => queued.id !== delivery.id)
+    deleteQueuedDelivery(delivery.id).catch((err) => console.error("[v0] Failed to remove webhook delivery:", err))
+    onQueueChange(queue.length)
+  }
+
+  const log = (delivery: QueuedDelivery, endpointName: string, entry: Partial<DeliveryLogEntry>) => {
+    const timestamp = Date.now()
+    const logEntry: DeliveryLogEntry = {
+      id: `${delivery.id}_${delivery.attempts}`,
+      deliveryId: delivery.id,
+      endpointName,
+      eventType: delivery.event.type,
+      timestamp,
+      attempt: delivery.attempts,
+      status: "failed",
+      httpStatus: null,
+      error: null,
+      ...entry,
+    }
+    appendDeliveryLog(logEntry).catch((err) => console.error("[v0] Failed to save webhook log entry:", err))
+    onLog(logEntry)
+  }
+
+  const enqueue = (event: WebhookEvent, endpoint: WebhookEndpoint) => {
+    const delivery: QueuedDelivery = {
+      id: `${event.id}_${endpoint.id}`,
+      endpointId: endpoint.id,
+      event,
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: Date.now(),
+    }
+    queue.push(delivery)
+    persist(delivery)
+    onQueueChange(queue.length)
+  }
+
+  const attempt = async (delivery: QueuedDelivery) => {
+    const endpoint = getEndpoints().find((candidate) => candidate.id === delivery.endpointId)
+    if (!endpoint || !endpoint.url) {
+      remove(delivery)
+      log(delivery, endpoint?.name ?? "Removed endpoint", { error: "Endpoint no longer configured" })
+      return
+    }
+
+    delivery.attempts++
+    const result = await post(delivery, endpoint)
+    if (result.ok) {
+      remove(delivery)
+      log(delivery, endpoint.name, { status: "delivered", httpStatus: result.status })
+      return
+    }
+
+    if (!result.retry || delivery.attempts > RETRY_DELAYS_MS.length) {
+      remove(delivery)
+      log(delivery, endpoint.name, { status: "failed", httpStatus: result.status, error: result.error })
+      return
+    }
+
+    delivery.nextAttemptAt = Date.now() + RETRY_DELAYS_MS[delivery.attempts - 1]
+    persist(delivery)
+    log(delivery, endpoint.name, { status: "retrying", httpStatus: result.status, error: result.error })
+  }
+
+  const flush = async () => {
+    // Offline deliveries stay queued until the connection comes back, without using up their retries
+    if (flushing || stopped || !navigator.onLine) return
+    flushing = true
+    try {
+      // Oldest first, so a receiver sees a session's events in the order they happened
+      const due = queue.filter((delivery) => delivery.nextAttemptAt <= Date.now())
+      for (const delivery of due) {
+        if (stopped || !navigator.onLine) break
+        await attempt(delivery)
+      }
+    } finally {
+      flushing = false
+    }
+  }
+
+  // Deliveries left over from an earlier visit go first
+  listQueuedDeliveries()
+    .then((stored) => {
+      const pending = new Set(queue.map((delivery) => delivery.id))
+      queue = [...stored.filter((delivery) => !pending.has(delivery.id)), ...queue]
+      onQueueChange(queue.length)
+      return flush()
+    })
+    .catch((err) => console.error("[v0] Failed to load the webhook queue:", err))
+
+  const interval = setInterval(flush, POLL_INTERVAL_MS)
+  const handleOnline = () => {
+    // Coming back online retries everything immediately instead of waiting out each backoff
+    for (const delivery of queue) delivery.nextAttemptAt = 0
+    flush()
+  }
+  window.addEventListener("online", handleOnline)
+
+  return {
+    emit: (event) => {
+      for (const endpoint of getEndpoints()) {
+        if (endpoint.enabled && endpoint.url && endpoint.events.includes(event.type)) {
+          enqueue(event, endpoint)
+        }
+      }
+      flush()
+    },
+    sendTest: (endpoint) => {
+      enqueue(createWebhookEvent("test", null, { message: `Test event for ${endpoint.name}` }), endpoint)
+      flush()
+    },
+    flush: () => {
+      for (const delivery of queue) delivery.nextAttemptAt = 0
+      return flush()
+    },
+    stop: () => {
+      stopped = true
+      clearInterval(interval)
+      window.removeEventListener("online", handleOnline)
+    },
+  }
+}
@@ -0,0 +1,37 @@
+import type { WebhookEndpoint, WebhookEvent, WebhookEventType } from "./types"
+
+export const WEBHOOK_EVENT_TYPES: Array<{ type: WebhookEventType; label: string }> = [
+  { type: "alert.raised", label: "Alerts" },
+  { type: "alert.acknowledged", label: "Alert responses" },
+  { type: "face.lost", label: "Face lost" },
+  { type: "session.started", label: "Session start" },
+  { type: "session.ended", label: "Session end" },
+]
+
+let sequence = 0
+
+export function createWebhookEvent(
+  type: WebhookEventType,
+  sessionId: string | null,
+  data: Record<string, unknown>,
+  timestamp = Date.now(),
+): WebhookEvent {
+  sequence++
+  return { id: `evt_${timestamp}_${sequence}`, type, timestamp, sessionId, data }
+}
+
+export function createWebhookEndpoint(): WebhookEndpoint {
+  return {
+    id: `endpoint_${Date.now()}`,
+    name: "New endpoint",
+    url: "",
+    secret: generateSecret(),
+    enabled: false,
+    events: WEBHOOK_EVENT_TYPES.map(({ type }) => type),
+  }
+}
+
+export function generateSecret() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,5 @@
+export * from "./types"
+export * from "./events"
+export * from "./signing"
+export * from "./store"
+export * from "./dispatcher"
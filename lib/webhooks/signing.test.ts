@@ -0,0 +1,18 @@
+import { createHmac } from "node:crypto"
+import { describe, expect, it } from "vitest"
+import { signPayload } from "./signing"
+
+describe("webhook signing", () => {
+  it("signs the timestamp and body with HMAC-SHA256", async () => {
+    const body = JSON.stringify({ type: "alert.raised", data: { level: "critical" } })
+    const expected = createHmac("sha256", "secret").update(`1700000000000.${body}`).digest("hex")
+
+    expect(await signPayload("secret", 1700000000000, body)).toBe(`t=1700000000000,v1=${expected}`)
+  })
+
+  it("changes the signature when the timestamp changes, so replays can't reuse it", async () => {
+    const [first, second] = await Promise.all([signPayload("secret", 1000, "{}"), signPayload("secret", 2000, "{}")])
+
+    expect(first.split(",v1=")[1]).not.toBe(second.split(",v1=")[1])
+  })
+})
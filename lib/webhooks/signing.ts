@@ -0,0 +1,21 @@
+export const SIGNATURE_HEADER = "X-Drowsiness-Signature"
+export const EVENT_HEADER = "X-Drowsiness-Event"
+export const DELIVERY_HEADER = "X-Drowsiness-Delivery"
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("")
+
+// Signs `${timestamp}.${body}` so a receiver can reject both forged and replayed payloads.
+// Header format: t=<ms since epoch>,v1=<hex HMAC-SHA256>
+export async function signPayload(secret: string, timestamp: number, body: string) {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  )
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`))
+  return `t=${timestamp},v1=${toHex(signature)}`
+}
@@ -0,0 +1,83 @@
+import {
+  clearStore,
+  deleteRecord,
+  getAllRecords,
+  loadPreference,
+  openDatabase,
+  promisifyRequest,
+  promisifyTransaction,
+  putRecord,
+  savePreference,
+  WEBHOOK_LOG_STORE,
+  WEBHOOK_QUEUE_STORE,
+} from "@/lib/storage"
+import type { DeliveryLogEntry, QueuedDelivery, WebhookEndpoint } from "./types"
+
+const ENDPOINTS_KEY = "webhookEndpoints"
+// The log is for spotting problems, not an audit trail, so only recent attempts are kept
+const MAX_LOG_ENTRIES = 200
+
+export function loadWebhookEndpoints() {
+  return loadPreference<WebhookEndpoint[]>(ENDPOINTS_KEY, [])
+}
+
+export function saveWebhookEndpoints(endpoints: WebhookEndpoint[]) {
+  savePreference(ENDPOINTS_KEY, endpoints)
+}
+
+export function listQueuedDeliveries() {
+  return getAllRecords<QueuedDelivery>(WEBHOOK_QUEUE_STORE, "createdAt")
+}
+
+export function saveQueuedDelivery(delivery: QueuedDelivery) {
+  return putRecord(WEBHOOK_QUEUE_STORE, delivery)
+}
+
+export function deleteQueuedDelivery(id: string) {
+  return deleteRecord(WEBHOOK_QUEUE_STORE, id)
+}
+
+// Newest first
+export async function listDeliveryLog(limit = 50) {
+  const db = await openDatabase()
+  const store = db.transaction(WEBHOOK_LOG_STORE, "readonly").objectStore(WEBHOOK_LOG_STORE)
+  return new Promise<DeliveryLogEntry[]>((resolve, reject) => {
+    const entries: DeliveryLogEntry[] = []
+    const request = store.index("timestamp").openCursor(null, "prev")
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || entries.length >= limit) {
+        resolve(entries)
+        return
+      }
+      entries.push(cursor.value as DeliveryLogEntry)
+      cursor.continue()
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function appendDeliveryLog(entry: DeliveryLogEntry) {
+  const db = await openDatabase()
+  const transaction = db.transaction(WEBHOOK_LOG_STORE, "readwrite")
+  const store = transaction.objectStore(WEBHOOK_LOG_STORE)
+  store.put(entry)
+
+  const excess = (await promisifyRequest(store.count())) - MAX_LOG_ENTRIES
+  if (excess > 0) {
+    let removed = 0
+    const request = store.index("timestamp").openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || removed >= excess) return
+      cursor.delete()
+      removed++
+      cursor.continue()
+    }
+  }
+  await promisifyTransaction(transaction)
+}
+
+export function clearDeliveryLog() {
+  return clearStore(WEBHOOK_LOG_STORE)
+}
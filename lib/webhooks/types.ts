@@ -0,0 +1,48 @@
+export type WebhookEventType =
+  | "session.started"
+  | "session.ended"
+  | "alert.raised"
+  | "alert.acknowledged"
+  | "face.lost"
+  | "test"
+
+export interface WebhookEndpoint {
+  id: string
+  name: string
+  url: string
+  secret: string // HMAC-SHA256 key for the signature header; empty sends unsigned payloads
+  enabled: boolean
+  events: WebhookEventType[]
+}
+
+// The JSON body every endpoint receives
+export interface WebhookEvent {
+  id: string
+  type: WebhookEventType
+  timestamp: number
+  sessionId: string | null
+  data: Record<string, unknown>
+}
+
+export interface QueuedDelivery {
+  id: string
+  endpointId: string
+  event: WebhookEvent
+  attempts: number
+  nextAttemptAt: number
+  createdAt: number
+}
+
+export type DeliveryStatus = "delivered" | "retrying" | "failed"
+
+export interface DeliveryLogEntry {
+  id: string
+  deliveryId: string
+  endpointName: string
+  eventType: WebhookEventType
+  timestamp: number
+  attempt: number
+  status: DeliveryStatus
+  httpStatus: number | null
+  error: string | null
+}
@@ -0,0 +1,99 @@
+// Offline support: precaches the app shell and the face landmark models, then serves them when the
+// network is unavailable. Keep CACHE_NAME in sync with lib/offline.
+// v2: drops API responses cached before /api/ was excluded
+const CACHE_NAME = "drowsiness-offline-v2"
+const SHELL_URLS = [
+  "/",
+  "/manifest.webmanifest",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+  "/icons/icon-maskable-512.png",
+  "/icons/apple-touch-icon.png",
+]
+const MODEL_MANIFEST_URL = "/models/manifest.json"
+
+async function precacheModels(cache) {
+  try {
+    const response = await fetch(MODEL_MANIFEST_URL, { cache: "no-cache" })
+    if (!response.ok) return
+    await cache.put(MODEL_MANIFEST_URL, response.clone())
+    const { files } = await response.json()
+    await cache.addAll(files.map((file) => `/models/${file}`))
+  } catch (err) {
+    // Models not fetched into public/models; the detectors fall back to their hosted copies
+    console.warn("[v0] Model precache skipped:", err)
+  }
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL_URLS).then(() => precacheModels(cache)))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+// The page reports the assets it loaded before this worker controlled it, so they are cached too
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cache-urls") return
+  const urls = event.data.urls.filter((url) => new URL(url).origin === self.location.origin)
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => Promise.allSettled(urls.map((url) => cache.add(url))))
+      .then(() => event.ports[0]?.postMessage({ type: "cached" })),
+  )
+})
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+async function networkFirst(request, fallbackUrl) {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME)
+      cache.put(request, response.clone())
+    }
+    return response
+  } catch (err) {
+    const cached = (await caches.match(request)) || (fallbackUrl && (await caches.match(fallbackUrl)))
+    if (cached) return cached
+    throw err
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== "GET" || url.origin !== self.location.origin) return
+  // API responses are per-user data behind authorization; serving them from a shared cache would leak them
+  if (url.pathname.startsWith("/api/")) return
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, "/"))
+  } else if (url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/models/")) {
+    // Content-hashed bundles and versioned model weights never change under the same URL
+    event.respondWith(cacheFirst(request))
+  } else {
+    event.respondWith(networkFirst(request))
+  }
+})
@@ -0,0 +1,75 @@
+// Downloads the face landmark model weights into public/models so the app can run without a network.
+// Opt-in (`pnpm models`): builds don't depend on reaching tfhub.dev, and without these files the detectors
+// load their hosted copies. Files that already exist are kept, so re-running is cheap.
+import { copyFile, mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises"
+import { createRequire } from "node:module"
+import path from "node:path"
+
+const MODELS_DIR = path.join(process.cwd(), "public", "models")
+
+const TFJS_MODELS = [
+  { dir: "face-detection", url: "https://tfhub.dev/mediapipe/tfjs-model/face_detection/short/1" },
+  { dir: "face-landmarks", url: "https://tfhub.dev/mediapipe/tfjs-model/face_landmarks_detection/face_mesh/1" },
+]
+
+// The MediaPipe runtime loads its WASM and assets from a directory; they ship with the npm package
+const MEDIAPIPE_DIR = "mediapipe/face_mesh"
+const MEDIAPIPE_SKIP = new Set(["package.json", "README.md", "index.d.ts"])
+
+const exists = (file) =>
+  stat(file).then(
+    () => true,
+    () => false,
+  )
+
+async function download(url, destination) {
+  if (await exists(destination)) return
+  const response = await fetch(`${url}?tfjs-format=file`)
+  if (!response.ok) throw new Error(`${url}: ${response.status} ${response.statusText}`)
+  await writeFile(destination, Buffer.from(await response.arrayBuffer()))
+  console.log(`Downloaded ${path.relative(process.cwd(), destination)}`)
+}
+
+async function fetchTfjsModel({ dir, url }) {
+  const target = path.join(MODELS_DIR, dir)
+  await mkdir(target, { recursive: true })
+
+  const modelFile = path.join(target, "model.json")
+  await download(`${url}/model.json`, modelFile)
+
+  const model = JSON.parse(await readFile(modelFile, "utf8"))
+  const shards = model.weightsManifest.flatMap((group) => group.paths)
+  for (const shard of shards) {
+    await download(`${url}/${shard}`, path.join(target, shard))
+  }
+  return ["model.json", ...shards].map((file) => `${dir}/${file}`)
+}
+
+async function copyMediaPipeSolution() {
+  const require = createRequire(import.meta.url)
+  const source = path.dirname(require.resolve("@mediapipe/face_mesh/package.json"))
+  const target = path.join(MODELS_DIR, MEDIAPIPE_DIR)
+  await mkdir(target, { recursive: true })
+
+  const files = (await readdir(source)).filter((file) => !MEDIAPIPE_SKIP.has(file))
+  for (const file of files) {
+    await copyFile(path.join(source, file), path.join(target, file))
+  }
+  return files.map((file) => `${MEDIAPIPE_DIR}/${file}`)
+}
+
+try {
+  const files = []
+  for (const model of TFJS_MODELS) {
+    files.push(...(await fetchTfjsModel(model)))
+  }
+  files.push(...(await copyMediaPipeSolution()))
+
+  // The service worker precaches everything listed here. Written last, so a failed run never lists missing files.
+  await writeFile(path.join(MODELS_DIR, "manifest.json"), JSON.stringify({ version: 1, files }, null, 2) + "\n")
+  console.log(`Wrote ${files.length} model files to public/models`)
+} catch (err) {
+  console.error(`Could not fetch the models: ${err instanceof Error ? err.message : err}`)
+  console.error("The app still works online, loading the hosted models; offline use needs this script to succeed.")
+  process.exitCode = 1
+}
@@ -0,0 +1,69 @@
+// A stand-in for a dispatch system: accepts webhook deliveries from the app and prints them.
+// Set WEBHOOK_SECRET to check signatures, and FAIL_RATE (0-1) to reject some deliveries and watch the retries.
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { createServer } from "node:http"
+
+const PORT = Number(process.env.PORT ?? 8787)
+const SECRET = process.env.WEBHOOK_SECRET ?? ""
+const FAIL_RATE = Number(process.env.FAIL_RATE ?? 0)
+// Signatures older (or further in the future) than this are rejected as replays
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000
+
+// The browser posts cross-origin, so preflights have to succeed
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, X-Drowsiness-Signature, X-Drowsiness-Event, X-Drowsiness-Delivery",
+}
+
+function verifySignature(header, body) {
+  const parts = Object.fromEntries((header ?? "").split(",").map((part) => part.split("=")))
+  if (!parts.t || !parts.v1) return "missing signature"
+  const signedAt = Number(parts.t)
+  if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > SIGNATURE_TOLERANCE_MS) {
+    return "timestamp outside the tolerance window"
+  }
+  const expected = createHmac("sha256", SECRET).update(`${parts.t}.${body}`).digest("hex")
+  const matches = expected.length === parts.v1.length && timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1))
+  return matches ? null : "bad signature"
+}
+
+const server = createServer((request, response) => {
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, CORS_HEADERS).end()
+    return
+  }
+  if (request.method !== "POST") {
+    response.writeHead(405, CORS_HEADERS).end()
+    return
+  }
+
+  let body = ""
+  request.on("data", (chunk) => (body += chunk))
+  request.on("end", () => {
+    const delivery = request.headers["x-drowsiness-delivery"]
+    const signatureError = SECRET ? verifySignature(request.headers["x-drowsiness-signature"], body) : null
+    if (signatureError) {
+      console.log(`Rejected ${delivery}: ${signatureError}`)
+      response.writeHead(401, CORS_HEADERS).end()
+      return
+    }
+    if (Math.random() < FAIL_RATE) {
+      console.log(`Failing ${delivery} on purpose`)
+      response.writeHead(503, CORS_HEADERS).end()
+      return
+    }
+
+    try {
+      const event = JSON.parse(body)
+      console.log(`${new Date(event.timestamp).toLocaleTimeString()} ${event.type}`, JSON.stringify(event.data))
+      response.writeHead(204, CORS_HEADERS).end()
+    } catch {
+      response.writeHead(400, CORS_HEADERS).end()
+    }
+  })
+})
+
+server.listen(PORT, () => {
+  console.log(`Listening for webhooks on http://localhost:${PORT}${SECRET ? " (checking signatures)" : ""}`)
+})